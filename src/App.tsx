@@ -5,6 +5,14 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
+import SettingsPage from "./pages/SettingsPage";
+import HistoryPage from "./pages/HistoryPage";
+import HistoryRunPage from "./pages/HistoryRunPage";
+import LogViewerPage from "./pages/LogViewerPage";
+import TraceabilityPage from "./pages/TraceabilityPage";
+import BatchPage from "./pages/BatchPage";
+import PromptTemplatesPage from "./pages/PromptTemplatesPage";
+import FewShotExamplesPage from "./pages/FewShotExamplesPage";
 
 const queryClient = new QueryClient();
 
@@ -16,6 +24,14 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/settings" element={<SettingsPage />} />
+          <Route path="/history" element={<HistoryPage />} />
+          <Route path="/history/:runId" element={<HistoryRunPage />} />
+          <Route path="/history/:runId/log" element={<LogViewerPage />} />
+          <Route path="/history/:runId/trace" element={<TraceabilityPage />} />
+          <Route path="/batch" element={<BatchPage />} />
+          <Route path="/prompts" element={<PromptTemplatesPage />} />
+          <Route path="/examples" element={<FewShotExamplesPage />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,74 @@
+import { ChatAbortedError } from '@/api/chat';
+import { runStructuredValidation } from '@/api/validation';
+import { buildStepTestCase, createStepTasks } from '@/lib/testCase';
+import { EpsConfirmationData, Task } from '@/types/chat';
+
+/**
+ * Batch validation service
+ * Validates one test case against one log step by step, without a chat session,
+ * for the batch queue.
+ */
+export interface BatchItemOutcome {
+  tasks: Task[];
+  stopped: boolean; // True when the signal aborted the item
+  error?: string; // First step error, e.g. the model endpoint was unreachable
+}
+
+/**
+ * Validates each step of a test case against a log, in step order.
+ * A failing step is recorded and the next step still runs; aborting marks the current step
+ * incomplete and skips the rest.
+ * @param data - The log and test case to validate.
+ * @param signal - Aborts the in-flight model request.
+ */
+export async function validateBatchItem(data: EpsConfirmationData, signal?: AbortSignal): Promise<BatchItemOutcome> {
+  const tasks = createStepTasks(data);
+  const finished: Task[] = [];
+  let error: string | undefined;
+
+  for (const task of tasks) {
+    if (signal?.aborted) {
+      finished.push({ ...task, completed: true, incomplete: true, justification: 'Not validated: the batch was stopped.', completedAt: new Date() });
+      continue;
+    }
+    try {
+      const outcome = await runStructuredValidation({
+        epsLogContent: task.epsLogContent,
+        testCaseContent: task.step ? buildStepTestCase(task.testCaseContent, task.step) : task.testCaseContent,
+        step: task.step,
+        promptTemplate: task.promptTemplate,
+        signal
+      });
+      finished.push({
+        ...task,
+        completed: true,
+        justification: outcome.justification,
+        validationResult: outcome.result || undefined,
+        rawResponse: outcome.rawResponse,
+        prompt: outcome.prompt,
+        chunksConsulted: outcome.chunksConsulted,
+        promptTemplate: outcome.promptTemplate,
+        fewShotExampleIds: outcome.fewShotExampleIds,
+        completedAt: new Date()
+      });
+    } catch (stepError) {
+      if (stepError instanceof ChatAbortedError) {
+        finished.push({
+          ...task,
+          completed: true,
+          incomplete: true,
+          justification: stepError.partialReply || 'Validation stopped before the model produced any output.',
+          rawResponse: stepError.partialReply,
+          completedAt: new Date()
+        });
+        continue;
+      }
+      const message = stepError instanceof Error ? stepError.message : 'Unknown error';
+      console.error('batch: Step validation failed', { fileName: data.pathToFile, stepNo: task.step?.stepNo, message });
+      error = error || message;
+      finished.push({ ...task, completed: true, justification: `Validation failed: ${message}`, completedAt: new Date() });
+    }
+  }
+
+  return { tasks: finished, stopped: !!signal?.aborted, error };
+}
@@ -1,8 +1,18 @@
-import { buildEpsValidationPrompt, truncateContent } from '@/lib/epsUtils';
+import { buildEpsValidationPrompt, buildLogOverview, truncateContent } from '@/lib/epsUtils';
 import { ChatMessage } from '@/types/chat'; // Import ChatMessage type
+import { createProvider, LlmProvider, ProviderChatOptions, ProviderMessage } from '@/api/providers';
+import { ChatAbortedError, isAbortError } from '@/api/streaming';
+import { formatFewShotExamples, getFewShotExamples, selectFewShotExamples } from '@/lib/fewShotExamples';
+import { getSettings } from '@/lib/settings';
+import { describeTestStep } from '@/lib/testCase';
+import { SelectedFewShotExample } from '@/types/fewShot';
+import { PromptTemplateRef } from '@/types/promptTemplate';
+import { TestStep } from '@/types/testCase';
+
+export { ChatAbortedError } from '@/api/streaming';
 
 /**
- * Chat API service for communicating with local Ollama backend
+ * Chat API service for communicating with the configured LLM provider
  * Handles message processing and EPS log validation
  */
 export interface ChatRequest {
@@ -10,78 +20,120 @@ export interface ChatRequest {
   epsLogContent?: string;
   testCaseContent?: string;
   messages: ChatMessage[]; // Add chat history
+  onToken?: (token: string) => void; // Called for every streamed content fragment
+  signal?: AbortSignal; // Aborts the in-flight request (Stop button)
+  provider?: LlmProvider; // Defaults to the provider chosen in settings
+  outputFormat?: 'text' | 'json'; // Validation output format requested in the prompt
+  format?: Record<string, unknown>; // JSON schema enforced by the provider
+  step?: TestStep; // Step being validated; few-shot examples are matched to it rather than the whole test case
+  promptTemplate?: PromptTemplateRef; // Template version for the validation prompt; defaults to the active template
+  onFewShotExamples?: (selected: SelectedFewShotExample[]) => void; // Receives the examples added to the validation prompt
 }
 
 export interface ChatResponse {
   reply: string;
   error?: string;
+  aborted?: boolean; // True when the request was stopped and `reply` holds partial text
 }
 
 /**
- * Send a message to the local Ollama API for chat or EPS validation
- * Supports raw EPS log and test case content for direct validation
+ * Builds the provider message list from chat history and the new message.
+ * When both EPS log and test case are given, the message is replaced by the validation prompt,
+ * with the most similar few-shot examples in whatever the content limit leaves over.
  */
-export async function sendChatMessage({ message, epsLogContent, testCaseContent, messages: chatHistory }: ChatRequest): Promise<ChatResponse> {
-  console.log('ChatAPI: Sending message to backend', { 
-    messageLength: message.length,
-    logLength: epsLogContent?.length || 0,
-    testCaseLength: testCaseContent?.length || 0,
-    chatHistoryLength: chatHistory.length,
-    epsLogPreview: epsLogContent?.substring(0, 100) + (epsLogContent && epsLogContent.length > 100 ? '...' : ''),
-    testCasePreview: testCaseContent?.substring(0, 100) + (testCaseContent && testCaseContent.length > 100 ? '...' : '')
-  });
+export function buildChatMessages({ message, epsLogContent, testCaseContent, messages: chatHistory, outputFormat, step, promptTemplate, onFewShotExamples }: ChatRequest): ProviderMessage[] {
+  let prompt = message;
+  if (epsLogContent && testCaseContent) {
+    // Truncate inputs to the configured limit to avoid model context issues
+    const { maxContentLength, fewShotExampleCount, fewShotMaxLength } = getSettings();
+    const truncatedLog = truncateContent(epsLogContent, maxContentLength);
+    const truncatedTestCase = truncateContent(testCaseContent, maxContentLength);
+    // Use utility for prompt construction
+    // Overview is built from the full log so truncated records are still counted
+    const logOverview = buildLogOverview(epsLogContent);
+    const examples = selectFewShotExamples(
+      getFewShotExamples(),
+      step ? describeTestStep(step) : truncatedTestCase,
+      truncatedLog,
+      fewShotExampleCount,
+      Math.max(0, Math.min(fewShotMaxLength, maxContentLength - truncatedLog.length - truncatedTestCase.length))
+    );
+    onFewShotExamples?.(examples);
+    prompt = buildEpsValidationPrompt(truncatedLog, truncatedTestCase, outputFormat, logOverview, formatFewShotExamples(examples), promptTemplate);
+  }
 
+  // Build conversation history for the API
+  return [
+    ...chatHistory.map(msg => ({
+      role: msg.role,
+      content: msg.content
+    })),
+    { role: 'user', content: prompt }
+  ];
+}
+
+/**
+ * Runs a provider chat call, normalising aborts that happen before the first token.
+ * @throws ChatAbortedError when the request is aborted, or the provider error otherwise.
+ */
+export async function chatWithProvider(provider: LlmProvider, options: ProviderChatOptions): Promise<string> {
   try {
-    let prompt = message;
-    if (epsLogContent && testCaseContent) {
-      // Truncate inputs to avoid Ollama token limit issues
-      const truncatedLog = truncateContent(epsLogContent);
-      const truncatedTestCase = truncateContent(testCaseContent);
-      // Use utility for prompt construction
-      prompt = buildEpsValidationPrompt(truncatedLog, truncatedTestCase);
+    return await provider.chat(options);
+  } catch (error) {
+    if (!(error instanceof ChatAbortedError) && isAbortError(error, options.signal)) {
+      // Aborted before any token arrived
+      throw new ChatAbortedError('');
     }
+    throw error;
+  }
+}
 
-    // Build conversation history for the API
-    const apiMessages = [
-      ...chatHistory.map(msg => ({
-        role: msg.role,
-        content: msg.content
-      })),
-      { role: "user", content: prompt }
-    ];
-
-    const response = await fetch('http://localhost:11434/api/chat', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: "phi3:mini",
-        messages: apiMessages,
-        stream: false // Set to true for streaming if desired
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('ChatAPI: HTTP error', { status: response.status, errorText });
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+/**
+ * Runs a chat completion against the configured provider, streaming tokens to `onToken`.
+ * @returns The full reply text.
+ * @throws ChatAbortedError when the request is aborted, or the provider error otherwise.
+ */
+export async function requestChatCompletion(request: ChatRequest): Promise<string> {
+  const provider = request.provider || createProvider();
+  console.log('ChatAPI: Sending message to provider', {
+    provider: provider.kind,
+    model: provider.model,
+    messageLength: request.message.length,
+    logLength: request.epsLogContent?.length || 0,
+    testCaseLength: request.testCaseContent?.length || 0,
+    chatHistoryLength: request.messages.length
+  });
 
-    const data = await response.json();
-    const reply = data?.message?.content || data?.content || "No reply from model";
-    console.log('ChatAPI: Response received', { 
-      replyLength: reply.length,
-      replyPreview: reply.substring(0, 100) + (reply.length > 100 ? '...' : ''),
-      hasError: !!data.error 
-    });
+  const reply = (await chatWithProvider(provider, {
+    messages: buildChatMessages(request),
+    onToken: request.onToken,
+    signal: request.signal,
+    format: request.format
+  })) || "No reply from model";
+  console.log('ChatAPI: Response received', {
+    replyLength: reply.length
+  });
+  return reply;
+}
 
+/**
+ * Send a message to the configured LLM provider for chat or EPS validation
+ * Supports raw EPS log and test case content for direct validation
+ * Never throws: failures are reported through `error` and aborts through `aborted`
+ */
+export async function sendChatMessage(request: ChatRequest): Promise<ChatResponse> {
+  const provider = request.provider || createProvider();
+  try {
+    const reply = await requestChatCompletion({ ...request, provider });
     return { reply };
   } catch (error) {
+    if (error instanceof ChatAbortedError) {
+      return { reply: error.partialReply, aborted: true };
+    }
     console.error('ChatAPI: Request failed', error);
     return {
-      reply: 'Sorry, I cannot connect to the local AI service. Please ensure Ollama is running on localhost:11434 and the model is loaded.',
+      reply: `Sorry, I cannot connect to the local AI service. Please ensure ${provider.label} is running at ${provider.baseUrl} and the model "${provider.model}" is loaded.`,
       error: error instanceof Error ? error.message : 'Unknown error'
     };
   }
-}
\ No newline at end of file
+}
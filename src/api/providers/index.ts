@@ -0,0 +1,25 @@
+import { AgentSettings, getSettings } from '@/lib/settings';
+import { createMockProvider } from './mock';
+import { createOllamaProvider } from './ollama';
+import { createOpenAiCompatibleProvider } from './openai';
+import { GenerationOptions, LlmProvider } from './types';
+
+export type { GenerationOptions, LlmProvider, ProviderChatOptions, ProviderMessage } from './types';
+
+/**
+ * Creates the LLM provider described by the given settings.
+ * @param settings - Provider kind, endpoint, model and generation parameters (defaults to the persisted settings).
+ * @param overrides - Generation parameters that replace the settings' values, e.g. a sampling seed.
+ */
+export function createProvider(settings: AgentSettings = getSettings(), overrides: GenerationOptions = {}): LlmProvider {
+  const generation = { temperature: settings.temperature, numCtx: settings.numCtx, ...overrides };
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAiCompatibleProvider(settings.baseUrl, settings.model, generation);
+    case 'mock':
+      return createMockProvider(settings.model);
+    case 'ollama':
+    default:
+      return createOllamaProvider(settings.baseUrl, settings.model, generation);
+  }
+}
@@ -0,0 +1,55 @@
+import { readChatStream } from '@/api/streaming';
+import { GenerationOptions, LlmProvider, ProviderChatOptions } from './types';
+
+/**
+ * Provider for a local Ollama server (`/api/chat`, `/api/tags`)
+ */
+export function createOllamaProvider(baseUrl: string, model: string, generation: GenerationOptions = {}): LlmProvider {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  return {
+    kind: 'ollama',
+    label: 'Ollama',
+    model,
+    baseUrl: root,
+
+    async chat({ messages, onToken, signal, format }: ProviderChatOptions): Promise<string> {
+      console.log('OllamaProvider: Sending chat request', { baseUrl: root, model, messageCount: messages.length, structured: !!format });
+      const response = await fetch(`${root}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model,
+          messages,
+          stream: true,
+          format, // JSON schema mode when set
+          options: {
+            temperature: generation.temperature,
+            num_ctx: generation.numCtx,
+            seed: generation.seed
+          }
+        }),
+        signal
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('OllamaProvider: HTTP error', { status: response.status, errorText });
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      return readChatStream(response, onToken, signal);
+    },
+
+    async listModels(): Promise<string[]> {
+      const response = await fetch(`${root}/api/tags`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const data = await response.json();
+      const models: string[] = (data?.models || []).map((m: { name: string }) => m.name);
+      console.log('OllamaProvider: Installed models', { count: models.length });
+      return models;
+    }
+  };
+}
@@ -0,0 +1,55 @@
+import { readSseStream } from '@/api/streaming';
+import { GenerationOptions, LlmProvider, ProviderChatOptions } from './types';
+
+/**
+ * Provider for OpenAI-compatible local endpoints (llama.cpp server, vLLM, LM Studio)
+ * `baseUrl` is expected to include the `/v1` prefix.
+ */
+export function createOpenAiCompatibleProvider(baseUrl: string, model: string, generation: GenerationOptions = {}): LlmProvider {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  return {
+    kind: 'openai',
+    label: 'OpenAI-compatible',
+    model,
+    baseUrl: root,
+
+    async chat({ messages, onToken, signal, format }: ProviderChatOptions): Promise<string> {
+      console.log('OpenAiProvider: Sending chat request', { baseUrl: root, model, messageCount: messages.length, structured: !!format });
+      const response = await fetch(`${root}/chat/completions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model,
+          messages,
+          stream: true,
+          temperature: generation.temperature,
+          seed: generation.seed,
+          response_format: format
+            ? { type: 'json_schema', json_schema: { name: 'structured_output', schema: format } }
+            : undefined
+        }),
+        signal
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('OpenAiProvider: HTTP error', { status: response.status, errorText });
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      return readSseStream(response, onToken, signal);
+    },
+
+    async listModels(): Promise<string[]> {
+      const response = await fetch(`${root}/models`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const data = await response.json();
+      const models: string[] = (data?.data || []).map((m: { id: string }) => m.id);
+      console.log('OpenAiProvider: Available models', { count: models.length });
+      return models;
+    }
+  };
+}
@@ -0,0 +1,38 @@
+import { ProviderKind } from '@/lib/settings';
+
+/**
+ * Shared interfaces for the pluggable LLM provider layer
+ */
+
+// Message in the provider-neutral chat format
+export interface ProviderMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Options for a single chat completion
+export interface ProviderChatOptions {
+  messages: ProviderMessage[];
+  onToken?: (token: string) => void; // Called for every streamed content fragment
+  signal?: AbortSignal; // Aborts the request; partial text is surfaced via ChatAbortedError
+  format?: Record<string, unknown>; // JSON schema the reply must conform to (structured output)
+}
+
+// Sampling parameters forwarded to the backend
+export interface GenerationOptions {
+  temperature?: number;
+  numCtx?: number; // Context window size (Ollama `num_ctx`)
+  seed?: number; // Fixed sampling seed, for reproducible samples
+}
+
+// Interface every LLM backend implements
+export interface LlmProvider {
+  kind: ProviderKind;
+  label: string;
+  model: string;
+  baseUrl: string;
+  /** Runs a streamed chat completion and resolves with the full reply. */
+  chat(options: ProviderChatOptions): Promise<string>;
+  /** Lists the models the backend has available. */
+  listModels(): Promise<string[]>;
+}
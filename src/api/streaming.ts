@@ -0,0 +1,146 @@
+/**
+ * Streaming helpers shared by the LLM providers
+ * Handles Ollama NDJSON streams, OpenAI-style server-sent events and user aborts
+ */
+
+/**
+ * Error raised when a streamed request is aborted by the user.
+ * Carries the text received before the abort so callers can keep it.
+ */
+export class ChatAbortedError extends Error {
+  partialReply: string;
+
+  constructor(partialReply: string) {
+    super('Request aborted by user');
+    this.name = 'ChatAbortedError';
+    this.partialReply = partialReply;
+  }
+}
+
+/**
+ * Returns true when the error was caused by an AbortController signal.
+ */
+export function isAbortError(error: unknown, signal?: AbortSignal): boolean {
+  return !!signal?.aborted || (error instanceof DOMException && error.name === 'AbortError');
+}
+
+/**
+ * Reads a response body line by line, passing each complete line to `onLine`.
+ * Stops early when `onLine` returns true.
+ * @throws ChatAbortedError with `getPartial()` when the signal aborts mid-stream.
+ */
+async function readLines(
+  response: Response,
+  onLine: (line: string) => boolean,
+  getPartial: () => string,
+  signal?: AbortSignal
+): Promise<void> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        if (onLine(line)) return;
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer) onLine(buffer);
+  } catch (error) {
+    if (isAbortError(error, signal)) {
+      console.warn('Streaming: Stream aborted', { partialLength: getPartial().length });
+      throw new ChatAbortedError(getPartial());
+    }
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Reads an Ollama NDJSON chat stream, forwarding each content fragment to `onToken`.
+ * Each line of the body is a JSON object like `{ message: { content }, done }`.
+ * @param response - The fetch response with a streaming body.
+ * @param onToken - Optional callback invoked for every non-empty content fragment.
+ * @param signal - Optional abort signal; on abort a ChatAbortedError with the partial text is thrown.
+ * @returns The full concatenated reply.
+ */
+export async function readChatStream(
+  response: Response,
+  onToken?: (token: string) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  if (!response.body) {
+    // Fallback for environments without streaming bodies
+    const data = await response.json();
+    const content = data?.message?.content || data?.content || '';
+    if (content) onToken?.(content);
+    return content;
+  }
+
+  let reply = '';
+  await readLines(response, (line) => {
+    const trimmed = line.trim();
+    if (!trimmed) return false;
+    const chunk = JSON.parse(trimmed);
+    if (chunk.error) {
+      throw new Error(`Model error: ${chunk.error}`);
+    }
+    const token = chunk?.message?.content || '';
+    if (token) {
+      reply += token;
+      onToken?.(token);
+    }
+    return !!chunk.done;
+  }, () => reply, signal);
+
+  console.log('Streaming: NDJSON stream finished', { replyLength: reply.length });
+  return reply;
+}
+
+/**
+ * Reads an OpenAI-compatible server-sent event stream (`data: {...}` lines ending with `data: [DONE]`).
+ * @param response - The fetch response with a streaming body.
+ * @param onToken - Optional callback invoked for every non-empty delta.
+ * @param signal - Optional abort signal; on abort a ChatAbortedError with the partial text is thrown.
+ * @returns The full concatenated reply.
+ */
+export async function readSseStream(
+  response: Response,
+  onToken?: (token: string) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  if (!response.body) {
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content || '';
+    if (content) onToken?.(content);
+    return content;
+  }
+
+  let reply = '';
+  await readLines(response, (line) => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) return false;
+    const payload = trimmed.slice(5).trim();
+    if (payload === '[DONE]') return true;
+    const chunk = JSON.parse(payload);
+    if (chunk.error) {
+      throw new Error(`Model error: ${chunk.error.message || chunk.error}`);
+    }
+    const token = chunk?.choices?.[0]?.delta?.content || '';
+    if (token) {
+      reply += token;
+      onToken?.(token);
+    }
+    return false;
+  }, () => reply, signal);
+
+  console.log('Streaming: SSE stream finished', { replyLength: reply.length });
+  return reply;
+}
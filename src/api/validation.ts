@@ -0,0 +1,410 @@
+import { buildChatMessages, ChatAbortedError, chatWithProvider } from '@/api/chat';
+import { createProvider, LlmProvider, ProviderMessage } from '@/api/providers';
+import { evaluateStepAssertions } from '@/lib/assertions';
+import { buildChunkEvidencePrompt, buildLogOverview } from '@/lib/epsUtils';
+import { verifyEvidence } from '@/lib/evidenceCheck';
+import { formatFewShotExamples, getFewShotExamples, selectFewShotExamples } from '@/lib/fewShotExamples';
+import { buildChunkReport, mergeChunkFindings, splitLogIntoChunks } from '@/lib/logChunking';
+import { resolvePromptTemplateRef } from '@/lib/promptTemplates';
+import { getSettings } from '@/lib/settings';
+import { describeTestStep, parseTestCase } from '@/lib/testCase';
+import {
+  CHUNK_FINDINGS_JSON_SCHEMA,
+  formatValidationResult,
+  getResultVerdict,
+  parseChunkFindings,
+  parseValidationResult,
+  VALIDATION_RESULT_JSON_SCHEMA
+} from '@/lib/validationResult';
+import { describeVoter, getVotingVoters, voteOnValidationResults } from '@/lib/voting';
+import { ChatMessage, ChunkFinding, LogChunkReport, ValidationResult } from '@/types/chat';
+import { PromptTemplateRef } from '@/types/promptTemplate';
+import { TestStep } from '@/types/testCase';
+import { VotingSample, VotingVoter } from '@/types/voting';
+
+/**
+ * Structured EPS validation service
+ * Requests a JSON verdict matching ValidationResult and repairs malformed replies.
+ * Logs longer than the configured content limit are validated chunk by chunk (map-reduce).
+ * Cited evidence is checked against the full log before the result is returned.
+ * Steps with assertions are checked against the log by rules and never reach the model.
+ * A per-step request keeps only the verdict for its own step, whatever else the model reports.
+ * With self-consistency voting enabled in the settings, each validation is sampled several
+ * times (and/or by several models) and per-step verdicts are decided by majority.
+ */
+export interface ValidationRequest {
+  epsLogContent: string;
+  testCaseContent: string;
+  step?: TestStep; // Step being validated; its assertions, if any, replace the model call
+  promptTemplate?: PromptTemplateRef; // Template version pinned when the run started; defaults to the active template
+  messages?: ChatMessage[]; // Chat history sent ahead of the validation prompt
+  onToken?: (token: string) => void;
+  onRepair?: (attempt: number, error: string) => void; // Called before each repair request
+  onProgress?: (status: string) => void; // Progress updates during chunked validation
+  signal?: AbortSignal;
+  provider?: LlmProvider; // Explicit provider; disables self-consistency voting
+  maxRepairAttempts?: number; // Default: 1
+  maxContentLength?: number; // Default: settings.maxContentLength
+}
+
+export interface ValidationOutcome {
+  result: ValidationResult | null; // Null when the model never produced valid JSON
+  justification: string; // Human-readable text (formatted result, or raw reply as fallback)
+  rawResponse: string; // Last raw model reply
+  prompt: string; // Validation prompt sent to the model (chunk prompts joined for chunked runs)
+  attempts: number;
+  parseError?: string;
+  chunksConsulted?: LogChunkReport[]; // Set when the log was validated in chunks
+  promptTemplate?: PromptTemplateRef; // Template version the prompt (or every chunk prompt) was rendered from; unset for rule-checked validation
+  fewShotExampleIds: string[]; // Few-shot examples added to the prompt (to any chunk prompt when chunked)
+}
+
+// Room left in each chunk prompt for the instructions and the test case
+const CHUNK_PROMPT_OVERHEAD = 2000;
+const MIN_CHUNK_LENGTH = 2000;
+
+interface StructuredReply<T> {
+  value: T | null;
+  rawResponse: string;
+  attempts: number;
+  error?: string;
+}
+
+/**
+ * Builds the follow-up message asking the model to fix its previous reply.
+ */
+function buildRepairPrompt(error: string): string {
+  return `Your previous reply could not be used: ${error}. Return only the corrected JSON object for the same request, matching the required schema exactly, with no other text.`;
+}
+
+/**
+ * Sends a conversation in JSON schema mode and parses the reply, asking the model
+ * to repair malformed output up to `maxRepairAttempts` times.
+ */
+async function requestStructured<T>(
+  provider: LlmProvider,
+  conversation: ProviderMessage[],
+  schema: Record<string, unknown>,
+  parse: (raw: string) => { value: T | null; error?: string },
+  request: ValidationRequest,
+  streamTokens: boolean
+): Promise<StructuredReply<T>> {
+  const maxRepairAttempts = request.maxRepairAttempts ?? 1;
+  let rawResponse = '';
+  let error = '';
+
+  for (let attempt = 1; attempt <= maxRepairAttempts + 1; attempt++) {
+    if (attempt > 1) {
+      request.onRepair?.(attempt, error);
+      conversation.push(
+        { role: 'assistant', content: rawResponse },
+        { role: 'user', content: buildRepairPrompt(error) }
+      );
+    }
+
+    console.log('Validation: Requesting structured reply', { attempt, provider: provider.kind, model: provider.model });
+    rawResponse = await chatWithProvider(provider, {
+      messages: conversation,
+      onToken: streamTokens ? request.onToken : undefined,
+      signal: request.signal,
+      format: schema
+    });
+
+    const parsed = parse(rawResponse);
+    if (parsed.value) {
+      return { value: parsed.value, rawResponse, attempts: attempt };
+    }
+    error = parsed.error;
+    console.warn('Validation: Malformed structured reply', { attempt, error });
+  }
+
+  return { value: null, rawResponse, attempts: maxRepairAttempts + 1, error };
+}
+
+/**
+ * Keeps only the step a per-step task validates, so other steps the model reports cannot
+ * change its verdict. A step the model did not report fails, as in chunked validation.
+ */
+function restrictToStep(result: ValidationResult, stepNo: number): ValidationResult {
+  const steps = result.steps.filter(step => step.stepNo === stepNo);
+  if (steps.length !== result.steps.length) {
+    console.warn('Validation: Dropping steps outside the validated step', {
+      stepNo,
+      reportedSteps: result.steps.map(step => step.stepNo)
+    });
+  }
+  if (steps.length === 0) {
+    return {
+      ...result,
+      overallResult: 'FAIL',
+      reasoningAndEvidence: `${result.reasoningAndEvidence} [Step ${stepNo} was not reported by the model.]`,
+      steps: [{
+        stepNo,
+        expectedAction: `Step ${stepNo}`,
+        verdict: 'FAIL',
+        citedLogLines: [],
+        reasoning: `The model did not report a verdict for step ${stepNo}.`
+      }]
+    };
+  }
+  return { ...result, overallResult: steps.some(step => step.verdict === 'FAIL') ? 'FAIL' : 'PASS', steps };
+}
+
+/**
+ * Validates a log that exceeds the content limit: each chunk is asked which steps it
+ * provides evidence for, then the findings are merged into one verdict.
+ */
+async function runChunkedValidation(
+  request: ValidationRequest,
+  provider: LlmProvider,
+  maxContentLength: number
+): Promise<ValidationOutcome> {
+  const maxChunkLength = Math.max(maxContentLength - request.testCaseContent.length - CHUNK_PROMPT_OVERHEAD, MIN_CHUNK_LENGTH);
+  const chunks = splitLogIntoChunks(request.epsLogContent, maxChunkLength);
+  const findingsByChunk: ChunkFinding[][] = [];
+  const reports: LogChunkReport[] = [];
+  const rawResponses: string[] = [];
+  const prompts: string[] = [];
+  const promptTemplate = resolvePromptTemplateRef(request.promptTemplate);
+  const { fewShotExampleCount, fewShotMaxLength } = getSettings();
+  const storedExamples = getFewShotExamples();
+  const fewShotExampleIds = new Set<string>();
+  let attempts = 0;
+
+  for (const chunk of chunks) {
+    request.onProgress?.(`Analysing log chunk ${chunk.index + 1} of ${chunks.length} (lines ${chunk.startLine}-${chunk.endLine})...`);
+    // Examples are matched to each chunk and fit in what the content limit leaves after it
+    const examples = selectFewShotExamples(
+      storedExamples,
+      request.step ? describeTestStep(request.step) : request.testCaseContent,
+      chunk.content,
+      fewShotExampleCount,
+      Math.max(0, Math.min(fewShotMaxLength, maxContentLength - chunk.content.length - request.testCaseContent.length))
+    );
+    examples.forEach(({ example }) => fewShotExampleIds.add(example.id));
+    const prompt = buildChunkEvidencePrompt(
+      chunk.content,
+      request.testCaseContent,
+      chunk.index + 1,
+      chunks.length,
+      chunk.startLine,
+      chunk.endLine,
+      buildLogOverview(chunk.content, chunk.startLine - 1),
+      formatFewShotExamples(examples),
+      promptTemplate
+    );
+    prompts.push(`--- Chunk ${chunk.index + 1} ---\n${prompt}`);
+    const reply = await requestStructured(
+      provider,
+      [{ role: 'user', content: prompt }],
+      CHUNK_FINDINGS_JSON_SCHEMA,
+      raw => {
+        const parsed = parseChunkFindings(raw);
+        return { value: parsed.findings, error: parsed.error };
+      },
+      request,
+      false
+    );
+    attempts += reply.attempts;
+    rawResponses.push(`--- Chunk ${chunk.index + 1} ---\n${reply.rawResponse}`);
+    // A per-step task only takes findings for its own step
+    const findings = (reply.value || []).filter(finding => !request.step || finding.stepNo === request.step.stepNo);
+    findingsByChunk.push(findings);
+    reports.push(buildChunkReport(chunk, findings, reply.error));
+  }
+
+  // Steps no chunk reported still fail, so the test case's steps are expected whenever they parse
+  const expectedSteps = request.step
+    ? [request.step.stepNo]
+    : (parseTestCase(request.testCaseContent).testCase?.steps || []).map(step => step.stepNo);
+  const unusableChunks = reports.filter(report => report.error).map(report => report.index);
+  const merged = mergeChunkFindings(findingsByChunk, expectedSteps, unusableChunks);
+  const failedChunks = unusableChunks.length;
+  if (failedChunks > 0) {
+    merged.reasoningAndEvidence += ` ${failedChunks} chunk(s) returned unusable findings and were skipped.`;
+  }
+  const result: ValidationResult = { ...verifyEvidence(merged, request.epsLogContent, request.testCaseContent), source: 'model' };
+  console.log('Validation: Chunked verdict merged', {
+    chunkCount: chunks.length,
+    failedChunks,
+    overallResult: result.overallResult,
+    stepCount: result.steps.length
+  });
+
+  return {
+    result,
+    justification: formatValidationResult(result),
+    rawResponse: rawResponses.join('\n'),
+    prompt: prompts.join('\n'),
+    attempts,
+    chunksConsulted: reports,
+    promptTemplate,
+    fewShotExampleIds: [...fewShotExampleIds]
+  };
+}
+
+/**
+ * Validates a test case with one provider: a single structured request, or chunked validation
+ * for logs over the content limit.
+ */
+async function runModelValidation(request: ValidationRequest, provider: LlmProvider): Promise<ValidationOutcome> {
+  const maxContentLength = request.maxContentLength ?? getSettings().maxContentLength;
+
+  if (request.epsLogContent.length > maxContentLength) {
+    console.log('Validation: Log exceeds content limit, using chunked validation', {
+      logLength: request.epsLogContent.length,
+      maxContentLength
+    });
+    return runChunkedValidation(request, provider, maxContentLength);
+  }
+
+  const promptTemplate = resolvePromptTemplateRef(request.promptTemplate);
+  let fewShotExampleIds: string[] = [];
+  const conversation: ProviderMessage[] = buildChatMessages({
+    message: '',
+    epsLogContent: request.epsLogContent,
+    testCaseContent: request.testCaseContent,
+    messages: request.messages || [],
+    outputFormat: 'json',
+    step: request.step,
+    promptTemplate,
+    onFewShotExamples: selected => {
+      fewShotExampleIds = selected.map(({ example }) => example.id);
+    }
+  });
+  const prompt = conversation[conversation.length - 1].content;
+
+  const reply = await requestStructured(
+    provider,
+    conversation,
+    VALIDATION_RESULT_JSON_SCHEMA,
+    raw => {
+      const parsed = parseValidationResult(raw);
+      return { value: parsed.result, error: parsed.error };
+    },
+    request,
+    true
+  );
+
+  if (reply.value) {
+    console.log('Validation: Structured verdict parsed', {
+      attempts: reply.attempts,
+      overallResult: reply.value.overallResult,
+      stepCount: reply.value.steps.length
+    });
+    const value = request.step ? restrictToStep(reply.value, request.step.stepNo) : reply.value;
+    const result: ValidationResult = { ...verifyEvidence(value, request.epsLogContent, request.testCaseContent), source: 'model' };
+    return {
+      result,
+      justification: formatValidationResult(result),
+      rawResponse: reply.rawResponse,
+      prompt,
+      attempts: reply.attempts,
+      promptTemplate,
+      fewShotExampleIds
+    };
+  }
+
+  return {
+    result: null,
+    justification: reply.rawResponse || 'No reply from model',
+    rawResponse: reply.rawResponse,
+    prompt,
+    attempts: reply.attempts,
+    parseError: reply.error,
+    promptTemplate,
+    fewShotExampleIds
+  };
+}
+
+/**
+ * Runs the validation once per voter and votes on the per-step verdicts.
+ * Only the first sample streams tokens. A sample that fails to connect is recorded and skipped;
+ * if every sample fails, the first error is thrown.
+ */
+async function runVotingValidation(request: ValidationRequest, voters: VotingVoter[]): Promise<ValidationOutcome> {
+  const settings = getSettings();
+  const outcomes: ValidationOutcome[] = [];
+  const samples: VotingSample[] = [];
+  const rawResponses: string[] = [];
+  let firstError: unknown;
+
+  for (const [index, voter] of voters.entries()) {
+    request.onProgress?.(`Sample ${index + 1} of ${voters.length} (${describeVoter(voter)})...`);
+    try {
+      const outcome = await runModelValidation(
+        { ...request, onToken: index === 0 ? request.onToken : undefined },
+        createProvider({ ...settings, model: voter.model }, { seed: voter.seed })
+      );
+      outcomes.push(outcome);
+      samples.push(outcome.result
+        ? { ...voter, verdict: getResultVerdict(outcome.result) }
+        : { ...voter, error: outcome.parseError || 'No valid verdict' });
+      rawResponses.push(`--- Sample ${index + 1} (${describeVoter(voter)}) ---\n${outcome.rawResponse}`);
+    } catch (error) {
+      if (error instanceof ChatAbortedError) throw error;
+      console.error('Validation: Sample failed', { sample: index + 1, model: voter.model, error });
+      firstError = firstError ?? error;
+      const message = error instanceof Error ? error.message : String(error);
+      samples.push({ ...voter, error: message });
+      rawResponses.push(`--- Sample ${index + 1} (${describeVoter(voter)}) ---\nRequest failed: ${message}`);
+    }
+  }
+
+  if (outcomes.length === 0) throw firstError;
+  const attempts = outcomes.reduce((total, outcome) => total + outcome.attempts, 0);
+  const results = outcomes.map(outcome => outcome.result).filter(Boolean);
+  if (results.length === 0) {
+    return {
+      result: null,
+      justification: outcomes[outcomes.length - 1].justification,
+      rawResponse: rawResponses.join('\n'),
+      prompt: outcomes[0].prompt,
+      attempts,
+      parseError: outcomes[outcomes.length - 1].parseError,
+      promptTemplate: outcomes[0].promptTemplate,
+      fewShotExampleIds: outcomes[0].fewShotExampleIds
+    };
+  }
+
+  const result = voteOnValidationResults(results, samples, settings.temperature);
+  return {
+    result,
+    justification: formatValidationResult(result),
+    rawResponse: rawResponses.join('\n'),
+    prompt: outcomes[0].prompt, // Every sample is sent the same prompt
+    attempts,
+    chunksConsulted: outcomes[0].chunksConsulted,
+    promptTemplate: outcomes[0].promptTemplate,
+    fewShotExampleIds: outcomes[0].fewShotExampleIds
+  };
+}
+
+/**
+ * Validates a test case against an EPS log using the provider's JSON schema mode.
+ * Malformed replies are sent back to the model with the parse error for up to
+ * `maxRepairAttempts` additional attempts. Logs over the content limit are chunked.
+ * When several voters are configured, the validation runs once per voter and is voted on.
+ * @returns The parsed result (or null) together with the raw reply and a display justification.
+ * @throws ChatAbortedError when aborted, or the provider error on connection failures.
+ */
+export async function runStructuredValidation(request: ValidationRequest): Promise<ValidationOutcome> {
+  if (request.step?.assertions?.some(assertion => assertion.trim())) {
+    console.log('Validation: Step has assertions, checking by rules', { stepNo: request.step.stepNo, assertionCount: request.step.assertions.length });
+    const result = evaluateStepAssertions(request.step, request.epsLogContent);
+    return {
+      result,
+      justification: formatValidationResult(result),
+      rawResponse: '',
+      prompt: `Checked by assertions without calling the model:\n${request.step.assertions.join('\n')}`,
+      attempts: 0,
+      fewShotExampleIds: []
+    };
+  }
+
+  if (!request.provider) {
+    const voters = getVotingVoters(getSettings());
+    if (voters.length > 1) return runVotingValidation(request, voters);
+  }
+  return runModelValidation(request, request.provider || createProvider());
+}
@@ -0,0 +1,273 @@
+/**
+ * Headless EPS validation for CI.
+ * Validates a log file against a test case file with the same pipeline as the app
+ * (redaction, step-by-step structured validation, combined verdict) and prints the verdict.
+ * Exits 0 on PASS, 1 on FAIL and 2 when no verdict could be reached (including UNVERIFIED) or the input is invalid.
+ *
+ * Build with `npm run build:cli`, then run `node dist-cli/eps-validate.js <log-file> <test-case-file>`.
+ */
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { validateBatchItem } from '@/api/batch';
+import { sha256Hex } from '@/lib/hash';
+import { getRunVerdict } from '@/lib/historyStore';
+import { findTaskPromptTemplate } from '@/lib/promptTemplates';
+import { describeRedactionSummary, findInvalidPatterns, redactSensitiveData } from '@/lib/redaction';
+import { buildJUnitXml, buildResultDocument, buildRunResult } from '@/lib/resultExport';
+import { AgentSettings, DEFAULT_BASE_URLS, DEFAULT_MODELS, getSettings, ProviderKind, updateSettings } from '@/lib/settings';
+import { parseTestCase } from '@/lib/testCase';
+import { getTaskVerdict, getTaskVerdictSource } from '@/lib/validationResult';
+import { EpsConfirmationData, Task } from '@/types/chat';
+import { RunVerdict } from '@/types/history';
+
+const EXIT_PASS = 0;
+const EXIT_FAIL = 1;
+const EXIT_ERROR = 2;
+
+const PROVIDERS: ProviderKind[] = ['ollama', 'openai', 'mock'];
+
+const USAGE = `Usage: eps-validate <log-file> <test-case-file> [options]
+
+Validates an EPS log against a test case (JSON, XML or numbered text).
+Exit code: 0 PASS, 1 FAIL, 2 no verdict, unverified evidence or invalid input.
+
+Options:
+  --json                     Print the versioned JSON result document instead of text
+  --junit <file>             Also write the result as JUnit XML to <file>
+  --provider <name>          ollama | openai | mock (env EPS_AGENT_PROVIDER)
+  --model <name>             Model name; defaults to the provider's default (env EPS_AGENT_MODEL)
+  --base-url <url>           Provider endpoint (env EPS_AGENT_BASE_URL)
+  --temperature <n>          Sampling temperature
+  --num-ctx <n>              Context window passed to Ollama
+  --max-content-length <n>   Character limit before the log is validated in chunks
+  --samples <n>              Validations sampled per model; step verdicts are decided by majority
+  --seed <n>                 Seed of the first sample (incremented per sample)
+  --vote-model <name>        Model that votes on each validation (repeatable)
+  --redact <regex>           Extra redaction pattern (repeatable)
+  --verbose                  Write pipeline logs to stderr
+  --help                     Show this help`;
+
+class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+interface CliOptions {
+  logPath: string;
+  testCasePath: string;
+  json: boolean;
+  junitPath?: string;
+  verbose: boolean;
+  help: boolean;
+  settings: Partial<AgentSettings>; // Overrides applied on top of the default settings
+}
+
+function parseNumberOption(flag: string, value: string): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) throw new CliUsageError(`${flag} expects a number, got "${value}"`);
+  return parsed;
+}
+
+/**
+ * Parses command-line arguments; environment variables provide defaults for the provider settings.
+ * @throws CliUsageError for unknown options, missing values or missing file arguments.
+ */
+function parseCliArgs(argv: string[], env: Record<string, string | undefined> = {}): CliOptions {
+  const settings: Partial<AgentSettings> = {};
+  if (env.EPS_AGENT_PROVIDER) settings.provider = env.EPS_AGENT_PROVIDER as ProviderKind;
+  if (env.EPS_AGENT_MODEL) settings.model = env.EPS_AGENT_MODEL;
+  if (env.EPS_AGENT_BASE_URL) settings.baseUrl = env.EPS_AGENT_BASE_URL;
+  const redactionPatterns: string[] = [];
+  const votingModels: string[] = [];
+  const files: string[] = [];
+  const options = { json: false, junitPath: undefined as string | undefined, verbose: false, help: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      if (i + 1 >= argv.length) throw new CliUsageError(`${arg} expects a value`);
+      return argv[++i];
+    };
+    switch (arg) {
+      case '--json': options.json = true; break;
+      case '--junit': options.junitPath = value(); break;
+      case '--verbose': options.verbose = true; break;
+      case '--help':
+      case '-h': options.help = true; break;
+      case '--provider': settings.provider = value() as ProviderKind; break;
+      case '--model': settings.model = value(); break;
+      case '--base-url': settings.baseUrl = value(); break;
+      case '--temperature': settings.temperature = parseNumberOption(arg, value()); break;
+      case '--num-ctx': settings.numCtx = parseNumberOption(arg, value()); break;
+      case '--max-content-length': settings.maxContentLength = parseNumberOption(arg, value()); break;
+      case '--samples': settings.votingSamples = parseNumberOption(arg, value()); break;
+      case '--seed': settings.votingSeed = parseNumberOption(arg, value()); break;
+      case '--vote-model': votingModels.push(value()); break;
+      case '--redact': redactionPatterns.push(value()); break;
+      default:
+        if (arg.startsWith('-')) throw new CliUsageError(`Unknown option ${arg}`);
+        files.push(arg);
+    }
+  }
+
+  if (settings.provider && !PROVIDERS.includes(settings.provider)) {
+    throw new CliUsageError(`Unknown provider "${settings.provider}"; expected ${PROVIDERS.join(', ')}`);
+  }
+  // Switching provider without an endpoint uses that provider's default endpoint, as in the settings page,
+  // and without a model that provider's default model
+  if (settings.provider && !settings.baseUrl) settings.baseUrl = DEFAULT_BASE_URLS[settings.provider];
+  if (settings.provider && !settings.model) settings.model = DEFAULT_MODELS[settings.provider];
+  const invalidPatterns = findInvalidPatterns(redactionPatterns);
+  if (invalidPatterns.length > 0) throw new CliUsageError(`Invalid --redact pattern(s): ${invalidPatterns.join(', ')}`);
+  if (redactionPatterns.length > 0) settings.redactionPatterns = redactionPatterns;
+  if (votingModels.length > 0) settings.votingModels = votingModels;
+  if (!options.help && files.length !== 2) {
+    throw new CliUsageError('Expected exactly two arguments: <log-file> <test-case-file>');
+  }
+
+  return { logPath: files[0], testCasePath: files[1], ...options, settings };
+}
+
+/**
+ * Maps a run verdict to the process exit code.
+ */
+function exitCodeForVerdict(verdict: RunVerdict): number {
+  if (verdict === 'PASS') return EXIT_PASS;
+  if (verdict === 'FAIL') return EXIT_FAIL;
+  return EXIT_ERROR;
+}
+
+function describeStepVerdict(task: Task): string {
+  return getTaskVerdict(task) || (task.incomplete ? 'INCOMPLETE' : 'UNKNOWN');
+}
+
+function formatTextReport(data: EpsConfirmationData, tasks: Task[], verdict: RunVerdict, error?: string): string {
+  const settings = getSettings();
+  const lines = [
+    `EPS validation: ${verdict}`,
+    `Log: ${data.pathToFile} (${describeRedactionSummary(data.redaction)})`,
+    `Test case: ${data.testCase?.testCaseId || 'N/A'}${data.testCase?.title ? ` - ${data.testCase.title}` : ''} (${tasks.length} task(s))`,
+    `Model: ${settings.provider} / ${settings.model}`,
+    ''
+  ];
+  for (const task of tasks) {
+    const source = getTaskVerdictSource(task);
+    const votes = task.validationResult?.steps.filter(step => step.votes).map(step => step.votes.confidence) || [];
+    const label = [source && (source === 'rule' ? 'rules' : 'model'), votes.length > 0 && `${Math.round(Math.min(...votes) * 100)}% of samples agree`]
+      .filter(Boolean)
+      .join(', ');
+    lines.push(`[${describeStepVerdict(task)}] ${task.description}${label ? ` (${label})` : ''}`);
+    const reasoning = task.validationResult?.steps.some(step => step.assertions)
+      ? task.validationResult.steps.map(step => step.reasoning).join('\n')
+      : task.validationResult?.reasoningAndEvidence || task.justification;
+    if (reasoning) lines.push(...reasoning.trim().split('\n').map(line => `    ${line}`));
+  }
+  if (error) lines.push('', `Error: ${error}`);
+  return lines.join('\n');
+}
+
+async function buildCliResultDocument(testCaseFile: string, data: EpsConfirmationData, tasks: Task[], verdict: RunVerdict, startedAt: Date, error?: string) {
+  const settings = getSettings();
+  return buildResultDocument([buildRunResult({
+    tasks,
+    logFile: data.pathToFile,
+    testCaseFile,
+    testCase: data.testCase,
+    completedAt: new Date(),
+    startedAt,
+    provider: settings.provider,
+    model: settings.model,
+    promptTemplate: findTaskPromptTemplate(tasks),
+    logHash: await sha256Hex(data.epsLogContent),
+    testCaseHash: await sha256Hex(data.testCaseContent),
+    redaction: data.redaction,
+    verdict,
+    error
+  })]);
+}
+
+/**
+ * Runs the CLI.
+ * @returns The process exit code.
+ */
+async function main(argv: string[], env: Record<string, string | undefined> = {}): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(argv, env);
+  } catch (error) {
+    if (!(error instanceof CliUsageError)) throw error;
+    process.stderr.write(`${error.message}\n\n${USAGE}\n`);
+    return EXIT_ERROR;
+  }
+  if (options.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return EXIT_PASS;
+  }
+
+  // The shared pipeline logs verbosely; keep stdout for the report
+  console.log = options.verbose ? (...args: unknown[]) => console.error(...args) : () => {};
+  updateSettings(options.settings);
+  const { redactionPatterns } = getSettings();
+
+  let logContent: string;
+  let testCaseContent: string;
+  try {
+    [logContent, testCaseContent] = await Promise.all([readFile(options.logPath, 'utf8'), readFile(options.testCasePath, 'utf8')]);
+  } catch (error) {
+    process.stderr.write(`Cannot read input: ${error instanceof Error ? error.message : error}\n`);
+    return EXIT_ERROR;
+  }
+
+  const log = redactSensitiveData(logContent, redactionPatterns);
+  const testCase = redactSensitiveData(testCaseContent, redactionPatterns);
+  const parsed = parseTestCase(testCase.content);
+  const testCaseErrors = parsed.issues.filter(issue => issue.severity === 'error');
+  if (testCaseErrors.length > 0) {
+    process.stderr.write(`Invalid test case ${options.testCasePath}:\n${testCaseErrors.map(issue => `  ${issue.line ? `line ${issue.line}: ` : ''}${issue.message}`).join('\n')}\n`);
+    return EXIT_ERROR;
+  }
+
+  const startedAt = new Date();
+  const data: EpsConfirmationData = {
+    pathToFile: path.basename(options.logPath),
+    epsLogContent: log.content,
+    testCaseContent: testCase.content,
+    testCase: parsed.testCase || undefined,
+    redaction: log.summary,
+    timestamp: startedAt
+  };
+
+  // Ctrl+C stops the in-flight request; the run is reported as incomplete
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+  const outcome = await validateBatchItem(data, controller.signal);
+  // A step that could not be validated leaves the test case without a verdict unless another step failed
+  const runVerdict = getRunVerdict(outcome.tasks);
+  const verdict: RunVerdict = outcome.error && runVerdict !== 'FAIL' ? 'UNKNOWN' : runVerdict;
+
+  const resultDocument = await buildCliResultDocument(path.basename(options.testCasePath), data, outcome.tasks, verdict, startedAt, outcome.error);
+  if (options.junitPath) {
+    try {
+      await writeFile(options.junitPath, buildJUnitXml(resultDocument), 'utf8');
+    } catch (error) {
+      process.stderr.write(`Cannot write JUnit report: ${error instanceof Error ? error.message : error}\n`);
+      return EXIT_ERROR;
+    }
+  }
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify(resultDocument, null, 2)}\n`);
+  } else {
+    process.stdout.write(`${formatTextReport(data, outcome.tasks, verdict, outcome.error)}\n`);
+  }
+  return exitCodeForVerdict(verdict);
+}
+
+main(process.argv.slice(2), process.env).then(
+  code => process.exit(code),
+  error => {
+    process.stderr.write(`eps-validate failed: ${error instanceof Error ? error.stack : error}\n`);
+    process.exit(EXIT_ERROR);
+  }
+);
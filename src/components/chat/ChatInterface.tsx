@@ -1,15 +1,17 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Loader2 } from 'lucide-react';
+import { Send, Loader2, Square, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { ChatMessage } from '@/types/chat';
+import { TEST_CASE_PATTERN } from '@/lib/testCase';
 
 interface ChatInterfaceProps {
   messages: ChatMessage[];
   onSendMessage: (message: string) => void;
   isLoading: boolean;
   onTestCaseDetected?: () => void; // Callback to trigger file upload modal
+  onStopGeneration?: () => void; // Aborts the in-flight streaming request
 }
 
 /**
@@ -20,10 +22,13 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   messages,
   onSendMessage,
   isLoading,
-  onTestCaseDetected
+  onTestCaseDetected,
+  onStopGeneration
 }) => {
   const [inputMessage, setInputMessage] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // A streaming message renders its own progress, so the standalone indicator is hidden
+  const hasStreamingMessage = messages.some(m => m.isStreaming);
   
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
@@ -44,7 +49,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
 
     // Detect test case content (JSON or XML-like)
-    const isTestCase = /{TestCaseID|StepNo\b|<StepNo/i.test(inputMessage);
+    const isTestCase = TEST_CASE_PATTERN.test(inputMessage);
     if (isTestCase && onTestCaseDetected) {
       console.log('ChatInterface: Test case detected in input', { inputMessage });
       onSendMessage(inputMessage.trim());
@@ -90,12 +95,26 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                   }`}
                 >
                   {/* Format test case content in user messages */}
-                  {message.role === 'user' && /{TestCaseID|StepNo\b|<StepNo/i.test(message.content) ? (
+                  {message.role === 'user' && TEST_CASE_PATTERN.test(message.content) ? (
                     <pre className="text-sm whitespace-pre-wrap bg-muted/50 p-2 rounded">
                       {message.content}
                     </pre>
+                  ) : message.isStreaming && !message.content ? (
+                    <div className="flex items-center gap-2">
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      <span>EPS Agent is validating...</span>
+                    </div>
                   ) : (
-                    <p className="whitespace-pre-wrap">{message.content}</p>
+                    <p className="whitespace-pre-wrap">
+                      {message.content}
+                      {message.isStreaming && <span className="animate-pulse">▍</span>}
+                    </p>
+                  )}
+                  {message.isIncomplete && (
+                    <p className="flex items-center gap-1 text-xs text-warning mt-1">
+                      <AlertTriangle className="w-3 h-3" />
+                      Generation stopped - response incomplete
+                    </p>
                   )}
                   <p className="text-xs opacity-70 mt-1">
                     {message.timestamp.toLocaleTimeString()}
@@ -106,7 +125,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
           )}
           
           {/* Loading indicator */}
-          {isLoading && (
+          {isLoading && !hasStreamingMessage && (
             <div className="flex justify-start">
               <div className="bg-secondary text-secondary-foreground rounded-lg px-4 py-2 mr-4">
                 <div className="flex items-center gap-2">
@@ -136,18 +155,34 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
               className="resize-none min-h-[44px] max-h-32"
               disabled={isLoading}
             />
-            <Button 
-              type="submit" 
-              disabled={!inputMessage.trim() || isLoading}
-              size="icon"
-              className="self-end"
-            >
-              {isLoading ? (
-                <Loader2 className="w-4 h-4 animate-spin" />
-              ) : (
-                <Send className="w-4 h-4" />
-              )}
-            </Button>
+            {isLoading && onStopGeneration ? (
+              <Button
+                type="button"
+                variant="destructive"
+                size="icon"
+                className="self-end"
+                onClick={() => {
+                  console.log('ChatInterface: Stop button clicked');
+                  onStopGeneration();
+                }}
+                title="Stop generating"
+              >
+                <Square className="w-4 h-4" />
+              </Button>
+            ) : (
+              <Button 
+                type="submit" 
+                disabled={!inputMessage.trim() || isLoading}
+                size="icon"
+                className="self-end"
+              >
+                {isLoading ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Send className="w-4 h-4" />
+                )}
+              </Button>
+            )}
           </div>
         </form>
       </div>
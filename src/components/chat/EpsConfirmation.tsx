@@ -1,12 +1,22 @@
-import React, { useState } from 'react';
-import { Upload, FileText, Calendar, CheckCircle } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Upload, FileText, Calendar, CheckCircle, AlertTriangle, ChevronDown, ChevronUp, ShieldCheck } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { EpsConfirmationData } from '@/types/chat';
-import { readFileAsText } from '@/lib/epsUtils';
+import { buildTransactionLogContent, correlateTransactions, toTransactionSelection } from '@/lib/correlation';
+import { readRedactedFile } from '@/lib/epsUtils';
+import { parseEpsLog } from '@/lib/logParser';
+import { describeRedactionSummary, redactSensitiveData } from '@/lib/redaction';
+import { getSettings } from '@/lib/settings';
+import { parseTestCase, serializeTestCase, validateTestCase } from '@/lib/testCase';
+import { ParsedLog, RedactionSummary } from '@/types/log';
+import { TestCase } from '@/types/testCase';
+import { TestCaseEditor } from './TestCaseEditor';
+import { TransactionPicker } from './TransactionPicker';
 
 interface EpsConfirmationProps {
   onConfirm: (data: EpsConfirmationData) => void;
@@ -29,6 +39,30 @@ export const EpsConfirmation: React.FC<EpsConfirmationProps> = ({
   });
   
   const [isValidating, setIsValidating] = useState(false);
+  const [parsedLog, setParsedLog] = useState<ParsedLog | null>(null);
+  const [showUnparsed, setShowUnparsed] = useState(false);
+  const [redaction, setRedaction] = useState<RedactionSummary | null>(null);
+  const [transactionId, setTransactionId] = useState<string | undefined>(undefined);
+
+  // Interleaved transactions in the log, grouped by the correlation keys chosen in settings
+  const transactions = useMemo(
+    () => (parsedLog ? correlateTransactions(formData.epsLogContent, parsedLog, getSettings().correlationKeys) : []),
+    [formData.epsLogContent, parsedLog]
+  );
+  const selectedTransaction = transactions.find(transaction => transaction.id === transactionId);
+
+  // Pasted test cases may also contain card data; mask it the same way as the log
+  const testCaseRedaction = useMemo(
+    () => redactSensitiveData(formData.testCaseContent, getSettings().redactionPatterns),
+    [formData.testCaseContent]
+  );
+  // Pasted text is parsed on every change; the form edits a structured copy that is serialised back to JSON
+  const parsedTestCase = useMemo(() => parseTestCase(testCaseRedaction.content), [testCaseRedaction.content]);
+  const [editorMode, setEditorMode] = useState<'text' | 'form'>('text');
+  const [formTestCase, setFormTestCase] = useState<TestCase | null>(null);
+  const testCaseIssues = editorMode === 'form' && formTestCase ? validateTestCase(formTestCase) : parsedTestCase.issues;
+  const testCaseErrors = formData.testCaseContent.trim() ? testCaseIssues.filter(issue => issue.severity === 'error') : [];
+  const testSteps = [...(parsedTestCase.testCase?.steps || [])].sort((a, b) => a.stepNo - b.stepNo);
 
   // Handle file selection and read content as text
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -36,12 +70,16 @@ export const EpsConfirmation: React.FC<EpsConfirmationProps> = ({
     if (file) {
       console.log('EpsConfirmation: File selected', { fileName: file.name, fileSize: file.size });
       try {
-        const content = await readFileAsText(file); // Use utility function
+        const { content, summary } = await readRedactedFile(file); // Masks card data before anything else sees it
         setFormData(prev => ({
           ...prev,
           pathToFile: file.name,
           epsLogContent: content
         }));
+        setRedaction(summary);
+        setParsedLog(parseEpsLog(content));
+        setShowUnparsed(false);
+        setTransactionId(undefined);
       } catch (error) {
         console.error('EpsConfirmation: Failed to read file', { fileName: file.name, error });
         alert(error instanceof Error ? error.message : 'Failed to read the file.');
@@ -58,10 +96,28 @@ export const EpsConfirmation: React.FC<EpsConfirmationProps> = ({
     }));
   };
 
+  // Switching to the form starts from the parsed test case (or an empty one if parsing failed)
+  const handleEditorModeChange = (mode: string) => {
+    console.log('EpsConfirmation: Test case editor mode changed', { mode, format: parsedTestCase.format });
+    if (mode === 'form') {
+      setFormTestCase(parsedTestCase.testCase || { preconditions: [], steps: [] });
+    }
+    setEditorMode(mode as 'text' | 'form');
+  };
+
+  const handleFormTestCaseChange = (testCase: TestCase) => {
+    setFormTestCase(testCase);
+    setFormData(prev => ({ ...prev, testCaseContent: serializeTestCase(testCase) }));
+  };
+
   // Validate and submit form
   const handleSubmit = () => {
     setIsValidating(true);
-    console.log('EpsConfirmation: Validating form submission', formData);
+    console.log('EpsConfirmation: Validating form submission', {
+      fileName: formData.pathToFile,
+      logLength: formData.epsLogContent.length,
+      testCaseLength: formData.testCaseContent.length
+    });
 
     // Validate required fields
     if (!formData.pathToFile.trim() || !formData.epsLogContent.trim()) {
@@ -76,18 +132,36 @@ export const EpsConfirmation: React.FC<EpsConfirmationProps> = ({
       return;
     }
 
+    if (testCaseErrors.length > 0) {
+      alert(`Please fix the test case first: ${testCaseErrors[0].message}`);
+      setIsValidating(false);
+      return;
+    }
+
+    // A selected transaction narrows the log to its own records
+    const epsLogContent = selectedTransaction
+      ? buildTransactionLogContent(formData.epsLogContent, selectedTransaction)
+      : formData.epsLogContent;
+
     const confirmationData: EpsConfirmationData = {
       pathToFile: formData.pathToFile,
-      epsLogContent: formData.epsLogContent,
-      testCaseContent: formData.testCaseContent,
-      tasksToBeDone: ['Validate test case against EPS log'],
+      epsLogContent,
+      testCaseContent: testCaseRedaction.content,
+      tasksToBeDone: testSteps.length > 0
+        ? testSteps.map(step => `Step ${step.stepNo}: ${step.action}`)
+        : ['Validate test case against EPS log'],
+      testCase: parsedTestCase.testCase || undefined,
+      parsedLog: selectedTransaction ? parseEpsLog(epsLogContent) : parsedLog || undefined,
+      redaction: redaction || undefined,
+      transaction: selectedTransaction ? toTransactionSelection(selectedTransaction) : undefined,
       timestamp: formData.timestamp
     };
 
     console.log('EpsConfirmation: Submitting confirmation data', {
       fileName: confirmationData.pathToFile,
       logLength: confirmationData.epsLogContent.length,
-      testCaseLength: confirmationData.testCaseContent.length
+      testCaseLength: confirmationData.testCaseContent.length,
+      transactionId: confirmationData.transaction?.id
     });
     onConfirm(confirmationData);
     setIsValidating(false);
@@ -124,23 +198,128 @@ export const EpsConfirmation: React.FC<EpsConfirmationProps> = ({
               <span>File selected: {formData.pathToFile}</span>
             </div>
           )}
+          {redaction && (
+            <div className={`flex items-start gap-2 rounded-md border p-2 text-xs ${redaction.total > 0 ? 'border-warning/30 bg-warning/10' : 'bg-muted/20'}`}>
+              <ShieldCheck className="w-4 h-4 mt-0.5 text-primary" />
+              <div className="space-y-1">
+                <p className="font-medium">
+                  {redaction.total > 0
+                    ? `Redacted ${redaction.total} sensitive value(s): ${describeRedactionSummary(redaction)}`
+                    : 'No card data found in this log'}
+                </p>
+                {redaction.lineNumbers.length > 0 && (
+                  <p className="text-muted-foreground">
+                    Lines {redaction.lineNumbers.slice(0, 20).join(', ')}
+                    {redaction.lineNumbers.length > 20 && ` and ${redaction.lineNumbers.length - 20} more`}
+                    . PANs keep their BIN and last four digits.
+                  </p>
+                )}
+                {redaction.invalidPatterns.length > 0 && (
+                  <p className="text-destructive">
+                    Skipped invalid custom pattern(s): {redaction.invalidPatterns.join(', ')}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+          {parsedLog && (
+            <div className="text-xs text-muted-foreground space-y-1">
+              <p>
+                Parsed {parsedLog.records.length} records from {parsedLog.totalLines} lines
+                {Object.keys(parsedLog.recordsByFormat).length > 0 && (
+                  <> ({Object.entries(parsedLog.recordsByFormat).map(([format, count]) => `${format}: ${count}`).join(', ')})</>
+                )}
+              </p>
+              {parsedLog.unparsed.length > 0 && (
+                <div>
+                  <button
+                    type="button"
+                    onClick={() => setShowUnparsed(!showUnparsed)}
+                    className="flex items-center gap-1 text-warning"
+                  >
+                    <AlertTriangle className="w-3 h-3" />
+                    {parsedLog.unparsed.length} unparseable line(s)
+                    {showUnparsed ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                  </button>
+                  {showUnparsed && (
+                    <pre className="mt-1 p-2 bg-muted/20 rounded max-h-32 overflow-y-auto whitespace-pre-wrap">
+                      {parsedLog.unparsed.slice(0, 50).map(line => `${line.lineNumber}: ${line.text}`).join('\n')}
+                      {parsedLog.unparsed.length > 50 && `\n... ${parsedLog.unparsed.length - 50} more`}
+                    </pre>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
+        {/* Transaction Selection */}
+        {transactions.length > 0 && (
+          <TransactionPicker
+            transactions={transactions}
+            selectedId={transactionId}
+            onSelect={(id) => {
+              console.log('EpsConfirmation: Transaction selected', { transactionId: id });
+              setTransactionId(id);
+            }}
+          />
+        )}
+
         {/* Test Case Input Section */}
         <div className="space-y-2">
           <Label htmlFor="test-case-input" className="text-sm font-medium">
-            Paste Test Case
+            Test Case
           </Label>
-          <Textarea
-            id="test-case-input"
-            value={formData.testCaseContent}
-            onChange={(e) => handleTestCaseChange(e.target.value)}
-            placeholder="Paste your test case here (e.g., JSON or plain text describing test steps)"
-            className="min-h-32 resize-none"
-          />
-          <p className="text-xs text-muted-foreground">
-            Enter the test case to validate against the EPS log. Ensure it includes all necessary steps.
-          </p>
+          <Tabs value={editorMode} onValueChange={handleEditorModeChange}>
+            <TabsList>
+              <TabsTrigger value="text">Paste</TabsTrigger>
+              <TabsTrigger value="form">Edit as form</TabsTrigger>
+            </TabsList>
+            <TabsContent value="text" className="space-y-2">
+              <Textarea
+                id="test-case-input"
+                value={formData.testCaseContent}
+                onChange={(e) => handleTestCaseChange(e.target.value)}
+                placeholder="Paste your test case here (JSON, XML or numbered steps with Expected: lines)"
+                className="min-h-32 resize-none"
+              />
+              <p className="text-xs text-muted-foreground">
+                Enter the test case to validate against the EPS log. Ensure it includes all necessary steps.
+              </p>
+              {formData.testCaseContent.trim() && testCaseIssues.length > 0 && (
+                <div className="space-y-1">
+                  {testCaseIssues.map((issue, index) => (
+                    <p key={index} className={`flex items-center gap-1 text-xs ${issue.severity === 'error' ? 'text-destructive' : 'text-warning'}`}>
+                      <AlertTriangle className="w-3 h-3" />
+                      {issue.line && `Line ${issue.line}: `}{issue.message}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+            <TabsContent value="form">
+              {formTestCase && (
+                <TestCaseEditor
+                  testCase={formTestCase}
+                  issues={testCaseIssues}
+                  onChange={handleFormTestCaseChange}
+                />
+              )}
+            </TabsContent>
+          </Tabs>
+          {formData.testCaseContent.trim() && testCaseErrors.length === 0 && (
+            <p className="text-xs text-muted-foreground">
+              {testSteps.length > 0
+                ? `${parsedTestCase.testCase?.testCaseId ? `${parsedTestCase.testCase.testCaseId}: ` : ''}${testSteps.length} step(s) detected (${parsedTestCase.format}) - each step is validated as a separate task`
+                : 'No numbered steps detected - the test case will be validated as a single task.'}
+            </p>
+          )}
+          {testCaseRedaction.summary.total > 0 && (
+            <p className="flex items-center gap-1 text-xs text-warning">
+              <ShieldCheck className="w-3 h-3" />
+              {describeRedactionSummary(testCaseRedaction.summary)} will be masked in the test case before validation
+            </p>
+          )}
         </div>
 
         {/* Timestamp Display */}
@@ -156,7 +335,7 @@ export const EpsConfirmation: React.FC<EpsConfirmationProps> = ({
         <div className="flex gap-2 pt-4">
           <Button
             onClick={handleSubmit}
-            disabled={isValidating || !formData.pathToFile || !formData.epsLogContent.trim() || !formData.testCaseContent.trim()}
+            disabled={isValidating || !formData.pathToFile || !formData.epsLogContent.trim() || !formData.testCaseContent.trim() || testCaseErrors.length > 0}
             className="flex-1"
           >
             {isValidating ? 'Processing...' : 'Start Validation'}
@@ -0,0 +1,206 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { describeTestStep } from '@/lib/testCase';
+import { TestCase, TestCaseIssue, TestStep } from '@/types/testCase';
+
+interface TestCaseEditorProps {
+  testCase: TestCase;
+  issues: TestCaseIssue[];
+  onChange: (testCase: TestCase) => void;
+}
+
+/**
+ * Form editor for a structured test case
+ * Edits the ID, title, preconditions and ordered steps with their assertions, showing issues next to the field they belong to
+ */
+export const TestCaseEditor: React.FC<TestCaseEditorProps> = ({
+  testCase,
+  issues,
+  onChange
+}) => {
+  const issuesFor = (path: string) => issues.filter(issue => issue.path === path);
+
+  const renderIssues = (path: string) => issuesFor(path).map((issue, index) => (
+    <p key={index} className={`text-xs ${issue.severity === 'error' ? 'text-destructive' : 'text-warning'}`}>
+      {issue.message}
+    </p>
+  ));
+
+  const fieldClass = (path: string) => issuesFor(path).some(issue => issue.severity === 'error') ? 'border-destructive' : '';
+
+  const updateSteps = (steps: TestStep[]) => {
+    console.log('TestCaseEditor: Steps updated', { stepCount: steps.length });
+    onChange({ ...testCase, steps });
+  };
+
+  const updateStep = (index: number, update: Partial<TestStep>) => {
+    updateSteps(testCase.steps.map((step, i) => {
+      if (i !== index) return step;
+      const updated = { ...step, ...update };
+      return { ...updated, raw: describeTestStep(updated) };
+    }));
+  };
+
+  const addStep = () => {
+    const stepNo = testCase.steps.reduce((max, step) => Math.max(max, step.stepNo || 0), 0) + 1;
+    updateSteps([...testCase.steps, { stepNo, action: '', raw: `Step ${stepNo}: ` }]);
+  };
+
+  const removeStep = (index: number) => {
+    updateSteps(testCase.steps.filter((_, i) => i !== index));
+  };
+
+  // Moving a step swaps it with its neighbour, then renumbers so step numbers follow the order
+  const moveStep = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= testCase.steps.length) return;
+    const steps = [...testCase.steps];
+    [steps[index], steps[target]] = [steps[target], steps[index]];
+    updateSteps(steps.map((step, i) => {
+      const renumbered = { ...step, stepNo: i + 1 };
+      return { ...renumbered, raw: describeTestStep(renumbered) };
+    }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="test-case-id" className="text-xs">Test case ID</Label>
+          <Input
+            id="test-case-id"
+            value={testCase.testCaseId || ''}
+            onChange={(e) => onChange({ ...testCase, testCaseId: e.target.value })}
+            placeholder="TC-001"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="test-case-title" className="text-xs">Title</Label>
+          <Input
+            id="test-case-title"
+            value={testCase.title || ''}
+            onChange={(e) => onChange({ ...testCase, title: e.target.value })}
+            placeholder="Purchase approved online"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="test-case-preconditions" className="text-xs">Preconditions (one per line)</Label>
+        <Textarea
+          id="test-case-preconditions"
+          value={testCase.preconditions.join('\n')}
+          onChange={(e) => onChange({ ...testCase, preconditions: e.target.value.split('\n') })}
+          className="min-h-16 resize-none text-sm"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs">Steps ({testCase.steps.length})</Label>
+          <Button type="button" variant="outline" size="sm" onClick={addStep} className="gap-1">
+            <Plus className="w-3 h-3" />
+            Add step
+          </Button>
+        </div>
+        {renderIssues('steps')}
+
+        {testCase.steps.map((step, index) => (
+          <div key={index} className="rounded-lg border p-3 space-y-2">
+            <div className="flex items-start gap-2">
+              <div className="w-20 space-y-1">
+                <Label className="text-xs">Step no.</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={Number.isNaN(step.stepNo) ? '' : step.stepNo}
+                  onChange={(e) => updateStep(index, { stepNo: parseInt(e.target.value, 10) })}
+                  className={fieldClass(`steps.${index}.stepNo`)}
+                />
+              </div>
+              <div className="flex-1 space-y-1">
+                <Label className="text-xs">Action</Label>
+                <Input
+                  value={step.action}
+                  onChange={(e) => updateStep(index, { action: e.target.value })}
+                  placeholder="Send 0200 purchase for KES 1500"
+                  className={fieldClass(`steps.${index}.action`)}
+                />
+              </div>
+              <div className="flex gap-1 pt-5">
+                <Button type="button" variant="ghost" size="icon" onClick={() => moveStep(index, -1)} disabled={index === 0} title="Move up">
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" onClick={() => moveStep(index, 1)} disabled={index === testCase.steps.length - 1} title="Move down">
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" onClick={() => removeStep(index)} title="Remove step">
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+            {renderIssues(`steps.${index}.stepNo`)}
+            {renderIssues(`steps.${index}.action`)}
+
+            <div className="space-y-1">
+              <Label className="text-xs">Expected result</Label>
+              <Textarea
+                value={step.expectedResult || ''}
+                onChange={(e) => updateStep(index, { expectedResult: e.target.value })}
+                className="min-h-12 resize-none text-sm"
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs">Message type</Label>
+                <Input
+                  value={step.expectedMessageType || ''}
+                  onChange={(e) => updateStep(index, { expectedMessageType: e.target.value })}
+                  placeholder="0210"
+                  className={fieldClass(`steps.${index}.expectedMessageType`)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Response code</Label>
+                <Input
+                  value={step.expectedResponseCode || ''}
+                  onChange={(e) => updateStep(index, { expectedResponseCode: e.target.value })}
+                  placeholder="00"
+                  className={fieldClass(`steps.${index}.expectedResponseCode`)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Amount</Label>
+                <Input
+                  value={step.expectedAmount || ''}
+                  onChange={(e) => updateStep(index, { expectedAmount: e.target.value })}
+                  placeholder="1500.00"
+                  className={fieldClass(`steps.${index}.expectedAmount`)}
+                />
+              </div>
+            </div>
+            {renderIssues(`steps.${index}.expectedMessageType`)}
+            {renderIssues(`steps.${index}.expectedResponseCode`)}
+            {renderIssues(`steps.${index}.expectedAmount`)}
+
+            <div className="space-y-1">
+              <Label className="text-xs">Assertions (one per line; steps with assertions are checked without the model)</Label>
+              <Textarea
+                value={(step.assertions || []).join('\n')}
+                onChange={(e) => updateStep(index, { assertions: e.target.value ? e.target.value.split('\n') : undefined })}
+                placeholder={'0210 field39 equals 00\n0420 within 30s of 0100'}
+                className={`min-h-12 resize-none font-mono text-xs ${fieldClass(`steps.${index}.assertions`)}`}
+              />
+            </div>
+            {renderIssues(`steps.${index}.assertions`)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Clock, GitBranch } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { describeTransactionKeys, formatLatency } from '@/lib/correlation';
+import { Transaction } from '@/types/correlation';
+
+const WHOLE_LOG = '__whole_log__';
+
+interface TransactionPickerProps {
+  transactions: Transaction[];
+  selectedId?: string;
+  onSelect: (transactionId: string | undefined) => void;
+}
+
+/**
+ * Transaction picker for the confirmation step
+ * Lists the transactions correlated from the log and shows the selected one's
+ * timeline, with the latency between consecutive hops
+ */
+export const TransactionPicker: React.FC<TransactionPickerProps> = ({ transactions, selectedId, onSelect }) => {
+  const selected = transactions.find(transaction => transaction.id === selectedId);
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="transaction-select" className="text-sm font-medium">
+        Transaction
+      </Label>
+      <Select value={selectedId || WHOLE_LOG} onValueChange={(value) => onSelect(value === WHOLE_LOG ? undefined : value)}>
+        <SelectTrigger id="transaction-select" className="text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={WHOLE_LOG}>Whole log ({transactions.length} transaction(s) found)</SelectItem>
+          {transactions.map(transaction => (
+            <SelectItem key={transaction.id} value={transaction.id} className="text-xs">
+              {transaction.id}: {describeTransactionKeys(transaction.keys)} - {transaction.hops.length} hop(s)
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">
+        {selected
+          ? 'Only this transaction\'s records are sent for validation.'
+          : 'Pick a transaction to validate the test case against its records only.'}
+      </p>
+
+      {selected && (
+        <div className="rounded-md border bg-muted/20 p-2 space-y-1 max-h-64 overflow-y-auto">
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <GitBranch className="w-3 h-3" />
+            Lines {selected.firstLine}-{selected.lastLine}
+            {selected.durationMs !== undefined && <> · {formatLatency(selected.durationMs)} end to end</>}
+          </div>
+          {selected.hops.map((hop, index) => (
+            <div key={hop.lineNumber}>
+              {index > 0 && (
+                <div className="flex items-center gap-1 pl-4 text-[10px] text-muted-foreground">
+                  <Clock className="w-3 h-3" />
+                  {hop.latencyMs !== undefined ? `+${formatLatency(hop.latencyMs)}` : 'latency unknown'}
+                </div>
+              )}
+              <div className="flex flex-wrap items-center gap-2 border-l-2 border-primary pl-2 text-xs">
+                <span className="font-mono text-muted-foreground">L{hop.lineNumber}</span>
+                {hop.timestamp && <span className="text-muted-foreground">{hop.timestamp}</span>}
+                {hop.service && <Badge variant="secondary" className="text-xs">{hop.service}</Badge>}
+                {hop.messageType && <Badge variant="outline" className="text-xs font-mono">{hop.messageType}</Badge>}
+                {hop.level !== 'INFO' && hop.level !== 'UNKNOWN' && <Badge variant="outline" className="text-xs">{hop.level}</Badge>}
+                <span className="basis-full truncate">{hop.message.split('\n')[0]}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
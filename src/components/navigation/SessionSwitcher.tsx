@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Check, Loader2, MessageSquare, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ChatSession } from '@/types/history';
+import { AppState } from '@/types/chat';
+
+interface SessionSwitcherProps {
+  sessions: ChatSession[];
+  activeSessionId: string;
+  busySessionIds: string[]; // Sessions with a request in flight
+  onSelectSession: (id: string) => void;
+  onCreateSession: () => void;
+  onRenameSession: (id: string, title: string) => void;
+  onDeleteSession: (id: string) => void;
+}
+
+/**
+ * List of named chat sessions for the sidebar
+ * Switches, creates, renames and deletes sessions; a spinner marks sessions that are still working
+ */
+export const SessionSwitcher: React.FC<SessionSwitcherProps> = ({
+  sessions,
+  activeSessionId,
+  busySessionIds,
+  onSelectSession,
+  onCreateSession,
+  onRenameSession,
+  onDeleteSession
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startRename = (session: ChatSession) => {
+    setEditingId(session.id);
+    setDraftTitle(session.title);
+  };
+
+  const commitRename = () => {
+    if (editingId) {
+      console.log('SessionSwitcher: Renaming session', { sessionId: editingId });
+      onRenameSession(editingId, draftTitle);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between px-1">
+        <span className="text-xs font-medium text-muted-foreground uppercase">Chats</span>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onCreateSession} title="New chat">
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+      <div className="max-h-48 overflow-y-auto space-y-0.5">
+        {sessions.map(session => {
+          const isActive = session.id === activeSessionId;
+          const isBusy = busySessionIds.includes(session.id);
+          return (
+            <div
+              key={session.id}
+              className={`group flex items-center gap-2 rounded-md px-2 py-1.5 text-sm ${isActive ? 'bg-muted' : 'hover:bg-muted/50'}`}
+            >
+              {isBusy ? (
+                <Loader2 className="w-3 h-3 flex-shrink-0 animate-spin text-primary" />
+              ) : (
+                <MessageSquare className="w-3 h-3 flex-shrink-0 text-muted-foreground" />
+              )}
+              {editingId === session.id ? (
+                <form
+                  className="flex flex-1 items-center gap-1"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    commitRename();
+                  }}
+                >
+                  <Input
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onBlur={commitRename}
+                    className="h-6 px-1 text-xs"
+                    autoFocus
+                  />
+                  <Button type="submit" variant="ghost" size="icon" className="h-6 w-6" title="Save name">
+                    <Check className="w-3 h-3" />
+                  </Button>
+                </form>
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    className="flex-1 min-w-0 text-left"
+                    onClick={() => onSelectSession(session.id)}
+                    onDoubleClick={() => startRename(session)}
+                  >
+                    <div className={`truncate ${isActive ? 'font-medium' : ''}`}>{session.title}</div>
+                    {session.appState !== AppState.CHATTING && session.currentFile && (
+                      <div className="truncate text-xs text-muted-foreground">{session.currentFile}</div>
+                    )}
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                    onClick={() => startRename(session)}
+                    title="Rename chat"
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                    onClick={() => onDeleteSession(session.id)}
+                    title="Delete chat"
+                  >
+                    <Trash2 className="w-3 h-3 text-destructive" />
+                  </Button>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -1,27 +1,43 @@
 import React from 'react';
-import { MessageSquare, FileText, Plus, HelpCircle, Shield, History } from 'lucide-react';
+import { MessageSquare, FileText, Plus, HelpCircle, Shield, History, Settings, Layers, FilePen, GraduationCap } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
 import { AppState } from '@/types/chat';
+import { ChatSession } from '@/types/history';
+import { SessionSwitcher } from './SessionSwitcher';
 
 interface SidebarProps {
   currentState: AppState;
   completedTasksCount: number;
   totalTasksCount: number;
   onNavigate: (action: string) => void;
+  sessions: ChatSession[];
+  activeSessionId: string;
+  busySessionIds: string[];
+  onSelectSession: (id: string) => void;
+  onCreateSession: () => void;
+  onRenameSession: (id: string, title: string) => void;
+  onDeleteSession: (id: string) => void;
 }
 
 /**
  * Navigation sidebar component
- * Provides access to different app modes and utilities
+ * Provides access to chat sessions, different app modes and utilities
  */
 export const Sidebar: React.FC<SidebarProps> = ({
   currentState,
   completedTasksCount,
   totalTasksCount,
-  onNavigate
+  onNavigate,
+  sessions,
+  activeSessionId,
+  busySessionIds,
+  onSelectSession,
+  onCreateSession,
+  onRenameSession,
+  onDeleteSession
 }) => {
   // Navigation items configuration
   const navigationItems = [
@@ -29,7 +45,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
       id: 'history',
       label: 'History',
       icon: History,
-      description: 'View conversation history',
+      description: 'Past validation runs',
       action: () => onNavigate('history')
     },
     {
@@ -39,6 +55,27 @@ export const Sidebar: React.FC<SidebarProps> = ({
       description: 'Upload file and begin processing',
       action: () => onNavigate('new-task')
     },
+    {
+      id: 'batch',
+      label: 'Batch Validation',
+      icon: Layers,
+      description: 'Validate a test suite against a folder of logs',
+      action: () => onNavigate('batch')
+    },
+    {
+      id: 'prompts',
+      label: 'Prompt Templates',
+      icon: FilePen,
+      description: 'Edit and version the validation prompt',
+      action: () => onNavigate('prompts')
+    },
+    {
+      id: 'examples',
+      label: 'Few-Shot Examples',
+      icon: GraduationCap,
+      description: 'Worked examples shown to the model',
+      action: () => onNavigate('examples')
+    },
     {
       id: 'request-feature',
       label: 'Request a Feature',
@@ -46,6 +83,13 @@ export const Sidebar: React.FC<SidebarProps> = ({
       description: 'Suggest improvements or new features',
       action: () => onNavigate('request-feature')
     },
+    {
+      id: 'settings',
+      label: 'Settings',
+      icon: Settings,
+      description: 'Model, endpoint and context limits',
+      action: () => onNavigate('settings')
+    },
     {
       id: 'privacy',
       label: 'Privacy',
@@ -113,8 +157,23 @@ export const Sidebar: React.FC<SidebarProps> = ({
         </Card>
       </div>
 
+      {/* Chat Sessions */}
+      <div className="px-4 pb-2">
+        <SessionSwitcher
+          sessions={sessions}
+          activeSessionId={activeSessionId}
+          busySessionIds={busySessionIds}
+          onSelectSession={onSelectSession}
+          onCreateSession={onCreateSession}
+          onRenameSession={onRenameSession}
+          onDeleteSession={onDeleteSession}
+        />
+      </div>
+
+      <Separator />
+
       {/* Navigation Menu */}
-      <div className="flex-1 px-4">
+      <div className="flex-1 px-4 pt-2 overflow-y-auto">
         <div className="space-y-1">
           {navigationItems.map((item) => (
             <Button
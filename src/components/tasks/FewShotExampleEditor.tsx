@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Verdict } from '@/types/chat';
+import { FewShotExampleDraft } from '@/types/fewShot';
+
+interface FewShotExampleEditorProps {
+  idPrefix: string; // Keeps field IDs unique when several editors are open
+  initial: FewShotExampleDraft;
+  saveLabel: string;
+  onSave: (draft: FewShotExampleDraft) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Form for reviewing a few-shot example before it is stored
+ * The reviewer corrects the step, trims the excerpt to the lines that decide it,
+ * and confirms the verdict and justification the model should learn from
+ */
+export const FewShotExampleEditor: React.FC<FewShotExampleEditorProps> = ({ idPrefix, initial, saveLabel, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<FewShotExampleDraft>(initial);
+  const canSave = !!draft.testStep.trim() && !!draft.logExcerpt.trim();
+
+  const updateDraft = (update: Partial<FewShotExampleDraft>) => {
+    setDraft(prev => ({ ...prev, ...update }));
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border bg-muted/20 p-3">
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-step`} className="text-xs font-medium">Test step</Label>
+        <Input
+          id={`${idPrefix}-step`}
+          value={draft.testStep}
+          onChange={(e) => updateDraft({ testStep: e.target.value })}
+          className="text-xs"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-excerpt`} className="text-xs font-medium">Log excerpt</Label>
+        <Textarea
+          id={`${idPrefix}-excerpt`}
+          value={draft.logExcerpt}
+          onChange={(e) => updateDraft({ logExcerpt: e.target.value })}
+          className="min-h-24 font-mono text-xs"
+        />
+        <p className="text-xs text-muted-foreground">Keep only the lines that decide the step; the excerpt is redacted when saved.</p>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-verdict`} className="text-xs font-medium">Correct verdict</Label>
+        <Select value={draft.verdict} onValueChange={(value) => updateDraft({ verdict: value as Verdict })}>
+          <SelectTrigger id={`${idPrefix}-verdict`} className="w-32 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="PASS">PASS</SelectItem>
+            <SelectItem value="FAIL">FAIL</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-justification`} className="text-xs font-medium">Justification</Label>
+        <Textarea
+          id={`${idPrefix}-justification`}
+          value={draft.justification}
+          onChange={(e) => updateDraft({ justification: e.target.value })}
+          className="min-h-16 text-xs"
+        />
+      </div>
+      <div className="flex gap-2">
+        <Button size="sm" onClick={() => onSave(draft)} disabled={!canSave} className="gap-2">
+          <Save className="w-4 h-4" />
+          {saveLabel}
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+};
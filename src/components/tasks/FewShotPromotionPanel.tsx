@@ -0,0 +1,94 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { GraduationCap } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useFewShotExamples } from '@/hooks/use-few-shot-examples';
+import { addFewShotExample, buildFewShotExampleDrafts } from '@/lib/fewShotExamples';
+import { FewShotExampleDraft } from '@/types/fewShot';
+import { ValidationRun } from '@/types/history';
+import { FewShotExampleEditor } from './FewShotExampleEditor';
+
+interface FewShotPromotionPanelProps {
+  run: ValidationRun;
+}
+
+/**
+ * Promotion of a past run's steps to few-shot examples
+ * Each validated step is drafted from the model's verdict, reasoning and cited lines;
+ * the reviewer corrects the draft before it is stored
+ */
+export const FewShotPromotionPanel: React.FC<FewShotPromotionPanelProps> = ({ run }) => {
+  const { toast } = useToast();
+  const examples = useFewShotExamples();
+  const drafts = useMemo(() => buildFewShotExampleDrafts(run), [run]);
+  const [editing, setEditing] = useState<number | null>(null);
+
+  const isPromoted = (draft: FewShotExampleDraft) =>
+    examples.some(example => example.source?.runId === run.id && example.source.stepNo === draft.source?.stepNo);
+
+  const handlePromote = (draft: FewShotExampleDraft) => {
+    try {
+      addFewShotExample(draft);
+      setEditing(null);
+      toast({
+        title: 'Example saved',
+        description: `Step ${draft.source?.stepNo} is now a ${draft.verdict} example for validation prompts.`,
+      });
+    } catch (error) {
+      console.error('FewShotPromotionPanel: Failed to save example', error);
+      toast({
+        title: 'Example not saved',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  if (drafts.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-sm">
+          <GraduationCap className="w-4 h-4 text-primary" />
+          Few-Shot Examples
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          Promote reviewed steps to <Link to="/examples" className="underline">examples</Link> shown to the model when it validates similar steps.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {drafts.map((draft, index) => (
+          <div key={`${draft.source?.stepNo}-${index}`} className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0 text-xs">
+                <span className="font-medium">Step {draft.source?.stepNo}</span>
+                <span className="ml-2 text-muted-foreground">{draft.testStep.split('\n')[0]}</span>
+              </div>
+              <div className="flex flex-shrink-0 items-center gap-2">
+                {isPromoted(draft) && <Badge variant="secondary" className="text-xs">Promoted</Badge>}
+                {editing !== index && (
+                  <Button variant="outline" size="sm" onClick={() => setEditing(index)}>
+                    Review and promote
+                  </Button>
+                )}
+              </div>
+            </div>
+            {editing === index && (
+              <FewShotExampleEditor
+                idPrefix={`promote-${index}`}
+                initial={draft}
+                saveLabel="Save example"
+                onSave={handlePromote}
+                onCancel={() => setEditing(null)}
+              />
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
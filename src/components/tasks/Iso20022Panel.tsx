@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, FileCode } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { findIso20022Messages, STATUS_REASON_CODES } from '@/lib/iso20022';
+
+interface Iso20022PanelProps {
+  logContent: string;
+}
+
+// Statuses that mean the payment went through
+const SUCCESS_STATUSES = ['ACCP', 'ACSC', 'ACSP', 'ACTC', 'ACWC', 'BOOK'];
+
+/**
+ * Expandable panel listing the ISO 20022 (pain/pacs/camt) messages found in an EPS log
+ * Each message expands to its transactions with identifiers, amounts and status reasons
+ */
+export const Iso20022Panel: React.FC<Iso20022PanelProps> = ({ logContent }) => {
+  const messages = useMemo(() => findIso20022Messages(logContent), [logContent]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [expandedMessage, setExpandedMessage] = useState<number | null>(null);
+
+  if (messages.length === 0) {
+    return null;
+  }
+
+  const statusBadge = (status: string) => (
+    <Badge
+      variant="outline"
+      className={`text-xs ${SUCCESS_STATUSES.includes(status) ? 'bg-success/10 text-success border-success/20' : 'bg-destructive/10 text-destructive border-destructive/20'}`}
+    >
+      {status}
+    </Badge>
+  );
+
+  return (
+    <div>
+      <Button
+        variant="ghost"
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 text-sm"
+      >
+        {isOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        <FileCode className="w-4 h-4" />
+        ISO 20022 Messages ({messages.length})
+      </Button>
+      {isOpen && (
+        <div className="mt-2 space-y-2">
+          {messages.map((message, index) => (
+            <div key={`${message.lineNumber}-${index}`} className="rounded-lg border bg-muted/20">
+              <button
+                type="button"
+                onClick={() => setExpandedMessage(expandedMessage === index ? null : index)}
+                className="w-full flex items-center justify-between gap-2 px-3 py-2 text-left text-xs"
+              >
+                <span className="flex items-center gap-2">
+                  <Badge variant="secondary" className="text-xs font-mono">{message.messageType}</Badge>
+                  <span className="font-medium">{message.description}</span>
+                  <span className="text-muted-foreground">line {message.lineNumber}</span>
+                </span>
+                {message.groupStatus && statusBadge(message.groupStatus)}
+              </button>
+              {expandedMessage === index && (
+                <div className="px-3 pb-3 space-y-2">
+                  <div className="text-xs text-muted-foreground font-mono">
+                    MsgId: {message.messageId || 'n/a'}
+                    {message.creationDateTime && <> | CreDtTm: {message.creationDateTime}</>}
+                  </div>
+                  {message.errors.length > 0 && (
+                    <p className="text-xs text-destructive">{message.errors.join('; ')}</p>
+                  )}
+                  {message.transactions.length > 0 && (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="text-xs">End-to-end ID</TableHead>
+                          <TableHead className="text-xs">Amount</TableHead>
+                          <TableHead className="text-xs">Parties</TableHead>
+                          <TableHead className="text-xs">Status</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {message.transactions.map((tx, txIndex) => (
+                          <TableRow key={txIndex}>
+                            <TableCell className="text-xs font-mono py-1 break-all">
+                              {tx.endToEndId || tx.originalEndToEndId || '-'}
+                              {tx.originalEndToEndId && <span className="ml-1 font-sans text-muted-foreground">(original)</span>}
+                            </TableCell>
+                            <TableCell className="text-xs font-mono py-1">
+                              {tx.amount ? `${tx.amount} ${tx.currency || ''}` : '-'}
+                              {tx.creditDebitIndicator && <span className="ml-1 font-sans text-muted-foreground">{tx.creditDebitIndicator}</span>}
+                            </TableCell>
+                            <TableCell className="text-xs py-1">
+                              {[tx.debtorName || tx.debtorAgent, tx.creditorName || tx.creditorAgent].some(Boolean)
+                                ? `${tx.debtorName || tx.debtorAgent || '?'} → ${tx.creditorName || tx.creditorAgent || '?'}`
+                                : '-'}
+                            </TableCell>
+                            <TableCell className="text-xs py-1">
+                              {tx.status && statusBadge(tx.status)}
+                              {tx.statusReasonCode && (
+                                <span className="ml-1 text-muted-foreground">
+                                  {tx.statusReasonCode}
+                                  {STATUS_REASON_CODES[tx.statusReasonCode] && `: ${STATUS_REASON_CODES[tx.statusReasonCode]}`}
+                                </span>
+                              )}
+                              {tx.statusReasonInfo && (
+                                <span className="block text-muted-foreground">{tx.statusReasonInfo}</span>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, Binary } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { findIso8583Messages } from '@/lib/iso8583';
+
+interface Iso8583PanelProps {
+  logContent: string;
+}
+
+/**
+ * Expandable panel listing the ISO 8583 messages decoded from an EPS log
+ * Each message expands to its MTI, bitmaps and named data elements
+ */
+export const Iso8583Panel: React.FC<Iso8583PanelProps> = ({ logContent }) => {
+  const messages = useMemo(() => findIso8583Messages(logContent), [logContent]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [expandedMessage, setExpandedMessage] = useState<number | null>(null);
+
+  if (messages.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <Button
+        variant="ghost"
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 text-sm"
+      >
+        {isOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        <Binary className="w-4 h-4" />
+        ISO 8583 Messages ({messages.length})
+      </Button>
+      {isOpen && (
+        <div className="mt-2 space-y-2">
+          {messages.map((message, index) => (
+            <div key={`${message.lineNumber}-${index}`} className="rounded-lg border bg-muted/20">
+              <button
+                type="button"
+                onClick={() => setExpandedMessage(expandedMessage === index ? null : index)}
+                className="w-full flex items-center justify-between gap-2 px-3 py-2 text-left text-xs"
+              >
+                <span className="flex items-center gap-2">
+                  <Badge variant="secondary" className="text-xs font-mono">{message.mti}</Badge>
+                  <span className="font-medium">{message.mtiDescription}</span>
+                  <span className="text-muted-foreground">line {message.lineNumber}</span>
+                </span>
+                {message.responseCode && (
+                  <Badge
+                    variant="outline"
+                    className={`text-xs ${message.responseCode === '00' ? 'bg-success/10 text-success border-success/20' : 'bg-destructive/10 text-destructive border-destructive/20'}`}
+                  >
+                    RC {message.responseCode}: {message.responseDescription}
+                  </Badge>
+                )}
+              </button>
+              {expandedMessage === index && (
+                <div className="px-3 pb-3 space-y-2">
+                  <div className="text-xs text-muted-foreground font-mono">
+                    Primary bitmap: {message.primaryBitmap}
+                    {message.secondaryBitmap && <> | Secondary bitmap: {message.secondaryBitmap}</>}
+                    {message.source === 'fields' && ' (derived from listed fields)'}
+                  </div>
+                  {message.errors.length > 0 && (
+                    <p className="text-xs text-destructive">{message.errors.join('; ')}</p>
+                  )}
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-12 text-xs">DE</TableHead>
+                        <TableHead className="text-xs">Name</TableHead>
+                        <TableHead className="text-xs">Value</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {message.fields.map(field => (
+                        <TableRow key={field.id}>
+                          <TableCell className="text-xs font-mono py-1">{field.id}</TableCell>
+                          <TableCell className="text-xs py-1">{field.name}</TableCell>
+                          <TableCell className="text-xs font-mono py-1 break-all">
+                            {field.value}
+                            {field.description && (
+                              <span className="ml-1 font-sans text-muted-foreground">({field.description})</span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,214 @@
+import React, { useDeferredValue, useEffect, useId, useMemo, useRef, useState } from 'react';
+import { Search } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { buildLogViewLines, filterLogLines, getLogFacets } from '@/lib/logView';
+import { LogLevel } from '@/types/log';
+
+// Rows have a fixed height so only the visible window has to be rendered
+const ROW_HEIGHT = 20;
+const OVERSCAN_ROWS = 30;
+const ALL_SERVICES = '__all__';
+
+const LEVEL_STYLES: Partial<Record<LogLevel, string>> = {
+  WARN: 'text-warning',
+  ERROR: 'text-destructive',
+  FATAL: 'text-destructive font-semibold'
+};
+
+export interface LogFocusRequest {
+  lineNumber: number;
+  requestId: number; // Changes on every request so the same line can be focused again
+}
+
+interface LogViewerProps {
+  logContent: string;
+  evidence?: Map<number, number[]>; // Log line -> steps citing it
+  focus?: LogFocusRequest;
+  className?: string; // Height of the scroll area, e.g. 'h-96'
+}
+
+// Splits a line into plain and highlighted parts for the current search
+function highlightMatches(text: string, matcher: RegExp | null): React.ReactNode {
+  if (!matcher) return text;
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  matcher.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = matcher.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      matcher.lastIndex++;
+      continue;
+    }
+    parts.push(text.slice(last, match.index));
+    parts.push(<mark key={match.index} className="bg-warning/40 text-foreground rounded-sm">{match[0]}</mark>);
+    last = match.index + match[0].length;
+  }
+  parts.push(text.slice(last));
+  return parts;
+}
+
+/**
+ * Virtualized viewer for large EPS logs
+ * Line numbers, literal or regex search, level and service filters from the log parser,
+ * and highlighting of the lines cited as evidence; `focus` scrolls to a line
+ */
+export const LogViewer: React.FC<LogViewerProps> = ({ logContent, evidence, focus, className = 'h-96' }) => {
+  const lines = useMemo(() => buildLogViewLines(logContent), [logContent]);
+  const facets = useMemo(() => getLogFacets(lines), [lines]);
+  const evidenceLines = useMemo(() => evidence || new Map<number, number[]>(), [evidence]);
+
+  const [search, setSearch] = useState('');
+  const [regex, setRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [levels, setLevels] = useState<LogLevel[]>([]);
+  const [service, setService] = useState<string | undefined>(undefined);
+  const [evidenceOnly, setEvidenceOnly] = useState(false);
+  const deferredSearch = useDeferredValue(search);
+  const id = useId();
+
+  const filtered = useMemo(
+    () => filterLogLines(lines, { search: deferredSearch, regex, caseSensitive, levels, service, evidenceOnly }, evidenceLines),
+    [lines, deferredSearch, regex, caseSensitive, levels, service, evidenceOnly, evidenceLines]
+  );
+  // Based on the deferred search, so it matches what `filtered` was built from
+  const filtersActive = !!deferredSearch || levels.length > 0 || !!service || evidenceOnly;
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(400);
+  const [focusedLine, setFocusedLine] = useState<number | null>(null);
+  const [pendingFocus, setPendingFocus] = useState<number | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (focus) setPendingFocus(focus.lineNumber);
+  }, [focus]);
+
+  // Scroll to a requested line, clearing the filters first when they hide it
+  useEffect(() => {
+    if (pendingFocus === null) return;
+    const index = filtered.lines.findIndex(line => line.lineNumber === pendingFocus);
+    if (index < 0) {
+      if (filtersActive) {
+        setSearch('');
+        setLevels([]);
+        setService(undefined);
+        setEvidenceOnly(false);
+      } else {
+        setPendingFocus(null);
+      }
+      return;
+    }
+    console.log('LogViewer: Scrolling to line', { lineNumber: pendingFocus });
+    if (containerRef.current) {
+      containerRef.current.scrollTop = Math.max(0, index * ROW_HEIGHT - viewportHeight / 3);
+    }
+    setFocusedLine(pendingFocus);
+    setPendingFocus(null);
+  }, [pendingFocus, filtered, filtersActive, viewportHeight]);
+
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const end = Math.min(filtered.lines.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN_ROWS);
+  const gutterWidth = `${String(lines.length).length + 1}ch`;
+
+  return (
+    <div className="space-y-2">
+      {/* Search and filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="relative flex-1 min-w-48">
+          <Search className="absolute left-2 top-2.5 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={regex ? 'Regular expression' : 'Search the log'}
+            className="h-9 pl-8 font-mono text-xs"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id={`${id}-regex`} checked={regex} onCheckedChange={setRegex} />
+          <Label htmlFor={`${id}-regex`} className="text-xs">Regex</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id={`${id}-case`} checked={caseSensitive} onCheckedChange={setCaseSensitive} />
+          <Label htmlFor={`${id}-case`} className="text-xs">Match case</Label>
+        </div>
+        {evidenceLines.size > 0 && (
+          <div className="flex items-center gap-2">
+            <Switch id={`${id}-evidence`} checked={evidenceOnly} onCheckedChange={setEvidenceOnly} />
+            <Label htmlFor={`${id}-evidence`} className="text-xs">Evidence only</Label>
+          </div>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        {facets.levels.length > 1 && (
+          <ToggleGroup type="multiple" size="sm" value={levels} onValueChange={(value) => setLevels(value as LogLevel[])}>
+            {facets.levels.map(level => (
+              <ToggleGroupItem key={level} value={level} className="h-7 px-2 text-xs">
+                {level}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        )}
+        {facets.services.length > 0 && (
+          <Select value={service || ALL_SERVICES} onValueChange={(value) => setService(value === ALL_SERVICES ? undefined : value)}>
+            <SelectTrigger className="h-8 w-48 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_SERVICES}>All services</SelectItem>
+              {facets.services.map(name => <SelectItem key={name} value={name}>{name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        )}
+        <span className="text-xs text-muted-foreground">
+          {filtered.lines.length.toLocaleString()} of {lines.length.toLocaleString()} lines
+        </span>
+        {filtered.error && <span className="text-xs text-destructive">{filtered.error}</span>}
+      </div>
+
+      {/* Virtualized lines */}
+      <div
+        ref={containerRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className={`${className} overflow-auto rounded-lg border bg-muted/20 font-mono text-xs`}
+      >
+        <div className="relative min-w-full w-max" style={{ height: filtered.lines.length * ROW_HEIGHT }}>
+          <div className="absolute left-0 right-0" style={{ top: start * ROW_HEIGHT }}>
+            {filtered.lines.slice(start, end).map(line => {
+              const steps = evidenceLines.get(line.lineNumber);
+              const rowStyle = line.lineNumber === focusedLine
+                ? 'bg-warning/20'
+                : steps ? 'bg-primary/10 border-l-2 border-primary' : 'border-l-2 border-transparent';
+              return (
+                <div key={line.lineNumber} className={`flex items-center whitespace-pre ${rowStyle}`} style={{ height: ROW_HEIGHT }}>
+                  <span className="flex-shrink-0 pr-3 text-right text-muted-foreground select-none" style={{ width: gutterWidth }}>
+                    {line.lineNumber}
+                  </span>
+                  {steps && (
+                    <span className="flex-shrink-0 mr-2 px-1 rounded bg-primary/20 text-primary text-[10px] select-none" title="Cited as evidence">
+                      S{steps.join(',S')}
+                    </span>
+                  )}
+                  <span className={`pr-4 ${LEVEL_STYLES[line.level] || 'text-foreground/80'}`}>
+                    {highlightMatches(line.text, filtered.matcher)}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
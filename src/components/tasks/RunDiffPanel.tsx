@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ChevronDown, ChevronUp, Flag } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { formatLatency } from '@/lib/correlation';
+import { describePromptTemplateRef } from '@/lib/promptTemplates';
+import { BASELINE_STATUS_LABELS, STEP_CHANGE_LABELS } from '@/lib/runDiff';
+import { BaselineStatus, RunDiff, StepChange } from '@/types/baseline';
+
+const BASELINE_STATUS_STYLES: Record<BaselineStatus, string> = {
+  unchanged: 'bg-muted text-muted-foreground',
+  regressed: 'bg-destructive/10 text-destructive border-destructive/20',
+  improved: 'bg-success/10 text-success border-success/20',
+  changed: 'bg-warning/10 text-warning border-warning/20'
+};
+
+const STEP_CHANGE_STYLES: Record<StepChange, string> = {
+  unchanged: 'bg-muted text-muted-foreground',
+  regressed: 'bg-destructive/10 text-destructive border-destructive/20',
+  fixed: 'bg-success/10 text-success border-success/20',
+  changed: 'bg-warning/10 text-warning border-warning/20',
+  added: 'bg-warning/10 text-warning border-warning/20',
+  removed: 'bg-destructive/10 text-destructive border-destructive/20'
+};
+
+// "+1.2 s" / "-300 ms"; undefined when either side has no timestamped evidence
+const formatTimingDelta = (before?: number, after?: number) => {
+  if (before === undefined || after === undefined || before === after) return undefined;
+  return `${after > before ? '+' : '-'}${formatLatency(Math.abs(after - before))}`;
+};
+
+interface RunDiffPanelProps {
+  diff: RunDiff;
+}
+
+/**
+ * Comparison of a run against the baseline run of its test case
+ * Lists per-step verdict changes, evidence records cited in only one of the runs,
+ * and how much earlier or later each step's evidence appeared in the log
+ */
+export const RunDiffPanel: React.FC<RunDiffPanelProps> = ({ diff }) => {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const isDifferent = (step: RunDiff['steps'][number]) =>
+    step.change !== 'unchanged' || step.newEvidence.length > 0 || step.missingEvidence.length > 0;
+  const unchangedCount = diff.steps.filter(step => !isDifferent(step)).length;
+  const visibleSteps = showUnchanged ? diff.steps : diff.steps.filter(isDifferent);
+  const spanDelta = formatTimingDelta(diff.baselineSpanMs, diff.spanMs);
+  const promptChanged = diff.baselinePromptTemplate && diff.promptTemplate &&
+    (diff.baselinePromptTemplate.id !== diff.promptTemplate.id || diff.baselinePromptTemplate.version !== diff.promptTemplate.version);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-sm">
+          <Flag className="w-4 h-4 text-primary" />
+          Baseline Comparison
+        </CardTitle>
+        <div className="space-y-2 text-xs">
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="outline" className={`text-xs ${BASELINE_STATUS_STYLES[diff.status]}`}>
+              {BASELINE_STATUS_LABELS[diff.status]}
+            </Badge>
+            <span className="text-muted-foreground">
+              {diff.baselineVerdict} → {diff.verdict}
+            </span>
+          </div>
+          <div className="text-muted-foreground">
+            Baseline
+            {diff.baselineRunId ? (
+              <Link to={`/history/${diff.baselineRunId}`} className="mx-1 underline">
+                {diff.baselineStartedAt ? new Date(diff.baselineStartedAt).toLocaleString() : diff.baselineRunId}
+              </Link>
+            ) : ' '}
+            · {diff.changedSteps} step(s) changed · evidence differs on {diff.evidenceChanges} step(s)
+          </div>
+          {diff.spanMs !== undefined && (
+            <div className="text-muted-foreground">
+              Evidence spans {formatLatency(diff.spanMs)}
+              {spanDelta && <> ({spanDelta} vs baseline)</>}
+            </div>
+          )}
+          {promptChanged && (
+            <div className="text-warning">
+              Prompt changed: {describePromptTemplateRef(diff.baselinePromptTemplate)} → {describePromptTemplateRef(diff.promptTemplate)}
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {visibleSteps.length === 0 && (
+          <p className="text-xs text-muted-foreground">Every step has the same verdict and evidence as the baseline.</p>
+        )}
+        {visibleSteps.map(step => {
+          const timingDelta = formatTimingDelta(step.baselineOffsetMs, step.offsetMs);
+          return (
+            <div key={step.key} className="rounded-lg border bg-muted/20 p-2 space-y-1">
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <Badge variant="outline" className={`text-xs ${STEP_CHANGE_STYLES[step.change]}`}>
+                  {STEP_CHANGE_LABELS[step.change]}
+                </Badge>
+                <span className="font-mono text-muted-foreground">
+                  {step.baselineVerdict || '-'} → {step.verdict || '-'}
+                </span>
+                {timingDelta && <span className="text-muted-foreground">evidence {timingDelta}</span>}
+              </div>
+              <p className="text-xs font-medium">{step.description}</p>
+              {step.missingEvidence.map(text => (
+                <pre key={`-${text}`} className="text-xs font-mono whitespace-pre-wrap break-all text-destructive">- {text}</pre>
+              ))}
+              {step.newEvidence.map(text => (
+                <pre key={`+${text}`} className="text-xs font-mono whitespace-pre-wrap break-all text-success">+ {text}</pre>
+              ))}
+            </div>
+          );
+        })}
+        {unchangedCount > 0 && (
+          <Button variant="ghost" size="sm" onClick={() => setShowUnchanged(!showUnchanged)} className="flex items-center gap-2 text-xs">
+            {showUnchanged ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+            {showUnchanged ? 'Hide' : 'Show'} {unchangedCount} unchanged step(s)
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,34 +1,91 @@
-import React, { useState } from 'react';
-import { CheckCircle, FileText, Clock, Award, ChevronDown, ChevronUp, Copy } from 'lucide-react';
+import React, { useMemo, useRef, useState } from 'react';
+import { CheckCircle, FileText, Clock, Award, ChevronDown, ChevronUp, Copy, Layers, Download, Crosshair } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Button } from '@/components/ui/button';
-import { Task } from '@/types/chat';
+import { CheckedVerdict, Task } from '@/types/chat';
+import { ValidationRun } from '@/types/history';
 import { useToast } from '@/hooks/use-toast';
+import { sha256Hex } from '@/lib/hash';
+import { describeRedactionSummary, redactSensitiveData } from '@/lib/redaction';
+import { buildJUnitXml, buildResultDocument, buildRunResult, buildStoredRunResult, downloadTextFile } from '@/lib/resultExport';
+import { getEvidenceLines, getStepEvidenceLines } from '@/lib/logView';
+import { findTaskPromptTemplate } from '@/lib/promptTemplates';
+import { diffRuns } from '@/lib/runDiff';
+import { getSettings } from '@/lib/settings';
+import { combineTaskVerdicts, formatStepVotes, getStepVerdict, getTaskVerdict, getTaskVerdictSource, VERDICT_SOURCE_LABELS } from '@/lib/validationResult';
+import { describeVoter } from '@/lib/voting';
+import { AssertionOutcome } from '@/types/assertion';
+import { Iso8583Panel } from './Iso8583Panel';
+import { Iso20022Panel } from './Iso20022Panel';
+import { LogFocusRequest, LogViewer } from './LogViewer';
+import { RunDiffPanel } from './RunDiffPanel';
+
+// Unverified verdicts cite evidence that is not in the log, so they are neither a pass nor a proven failure
+const verdictBadgeClass = (verdict?: CheckedVerdict) => {
+  if (verdict === 'PASS') return 'bg-success/10 text-success border-success/20';
+  if (verdict === 'UNVERIFIED') return 'bg-warning/10 text-warning border-warning/20';
+  return 'bg-destructive/10 text-destructive border-destructive/20';
+};
+
+// Share of voting samples that agreed with a step's verdict
+const confidenceBadgeClass = (confidence: number) => {
+  if (confidence >= 0.8) return 'bg-success/10 text-success border-success/20';
+  if (confidence >= 0.6) return 'bg-warning/10 text-warning border-warning/20';
+  return 'bg-destructive/10 text-destructive border-destructive/20';
+};
+
+const ASSERTION_OUTCOME_STYLES: Record<AssertionOutcome, string> = {
+  PASS: 'bg-success/10 text-success border-success/20',
+  FAIL: 'bg-destructive/10 text-destructive border-destructive/20',
+  INCONCLUSIVE: 'bg-warning/10 text-warning border-warning/20'
+};
 
 interface ShowCompletionAndJustificationProps {
   tasks: Task[];
   fileName: string;
   completionTimestamp: Date;
-  onStartNewTask: () => void;
+  onStartNewTask?: () => void; // Omitted for read-only views of past runs
+  run?: ValidationRun; // Stored run, whose model and hashes are used for JSON and JUnit exports
+  baseline?: ValidationRun; // Baseline run of the same test case, compared against these results
 }
 
 /**
- * Component to display completed EPS validation task with detailed justification
- * Shows PASS/FAIL result, reasoning, evidence, and raw log/test case content
+ * Component to display completed EPS validation tasks with detailed justification
+ * Shows the combined PASS/FAIL result, per-step verdicts, reasoning, evidence, and raw log/test case content
  */
 export const ShowCompletionAndJustification: React.FC<ShowCompletionAndJustificationProps> = ({
   tasks,
   fileName,
   completionTimestamp,
-  onStartNewTask
+  onStartNewTask,
+  run,
+  baseline
 }) => {
   const { toast } = useToast();
   const completedTasks = tasks.filter(task => task.completed);
   const totalProcessingTime = completionTimestamp.getTime() - tasks[0]?.completedAt?.getTime() || 0;
   const [showLogContent, setShowLogContent] = useState(false);
   const [showTestCaseContent, setShowTestCaseContent] = useState(false);
+  const [logFocus, setLogFocus] = useState<LogFocusRequest | undefined>(undefined);
+  const logViewerRef = useRef<HTMLDivElement>(null);
+  const evidenceLines = useMemo(() => getEvidenceLines(tasks), [tasks]);
+  const baselineDiff = useMemo(() => {
+    if (!baseline || baseline.id === run?.id) return undefined;
+    const current = buildRunResult({
+      tasks: tasks.filter(t => t.completed),
+      logFile: fileName,
+      completedAt: completionTimestamp,
+      startedAt: run?.startedAt,
+      runId: run?.id,
+      promptTemplate: run?.promptTemplate
+    });
+    return diffRuns(buildStoredRunResult(baseline), current, {
+      baseline: baseline.epsLogContent,
+      current: tasks[0]?.epsLogContent || ''
+    });
+  }, [baseline, run, tasks, fileName, completionTimestamp]);
 
   // Log completion display
   React.useEffect(() => {
@@ -41,21 +98,25 @@ export const ShowCompletionAndJustification: React.FC<ShowCompletionAndJustifica
     });
   }, [tasks, fileName, completionTimestamp]);
 
-  // Extract result from justification (assuming model outputs "Overall Result: PASS/FAIL")
+  // Tasks are validated per test step; the test case fails if any step fails
   const task = completedTasks[0];
-  const overallResult = task?.justification?.match(/Overall Result:\s*(PASS|FAIL)/i)?.[1] || 'Unknown';
-  const reasoningAndEvidence = task?.justification?.split('Reasoning and Evidence:')[1]?.trim() || task?.justification || 'No justification provided';
+  const overallResult = combineTaskVerdicts(completedTasks) || 'Unknown';
+  const getReasoningAndEvidence = (t: Task) =>
+    t.justification?.split('Reasoning and Evidence:')[1]?.trim() || t.justification || 'No justification provided';
+  const describeSource = (t: Task) => getTaskVerdictSource(t) ? VERDICT_SOURCE_LABELS[getTaskVerdictSource(t)] : 'None';
+  const describeTasks = (heading: string) => completedTasks
+    .map(t => `${heading}${t.description}\n\n**Result:** ${getTaskVerdict(t) || (t.incomplete ? 'Incomplete' : 'Unknown')}\n\n**Verdict Source:** ${describeSource(t)}\n\n**Reasoning and Evidence:**\n${getReasoningAndEvidence(t)}`)
+    .join('\n\n');
 
   // Handle export results as .md
+  // The log is re-redacted on export so a report never carries card data, even for unredacted task content
   const handleExportResults = () => {
-    const content = `# EPS Validation Results\n\n**File:** ${fileName}\n**Completed At:** ${completionTimestamp.toLocaleString()}\n\n## Task: ${task?.description}\n\n**Overall Result:** ${overallResult}\n\n**Reasoning and Evidence:**\n${reasoningAndEvidence}\n\n**Raw EPS Log Content:**\n${task?.epsLogContent || 'N/A'}\n\n**Test Case Content:**\n${task?.testCaseContent || 'N/A'}`;
-    const blob = new Blob([content], { type: 'text/markdown' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `eps_validation_${fileName}_${Date.now()}.md`;
-    link.click();
-    URL.revokeObjectURL(url);
+    const customPatterns = getSettings().redactionPatterns;
+    const exportedLog = task?.epsLogContent ? redactSensitiveData(task.epsLogContent, customPatterns).content : 'N/A';
+    const exportedTestCase = task?.testCaseContent ? redactSensitiveData(task.testCaseContent, customPatterns).content : 'N/A';
+    const redactionNote = task?.redaction ? `\n**Redaction:** ${describeRedactionSummary(task.redaction)}\n` : '';
+    const content = `# EPS Validation Results\n\n**File:** ${fileName}\n**Completed At:** ${completionTimestamp.toLocaleString()}\n\n**Overall Result:** ${overallResult}\n\n${describeTasks('## Task: ')}\n${redactionNote}\n**EPS Log Content (redacted):**\n${exportedLog}\n\n**Test Case Content:**\n${exportedTestCase}`;
+    downloadTextFile(content, `eps_validation_${fileName}_${Date.now()}.md`, 'text/markdown');
     console.log('ShowCompletionAndJustification: Exported results', { fileName });
     toast({
       title: 'Results Exported',
@@ -63,9 +124,50 @@ export const ShowCompletionAndJustification: React.FC<ShowCompletionAndJustifica
     });
   };
 
+  // Handle export as versioned JSON or JUnit XML for CI and test management tools
+  // Live runs are not stored yet, so the model comes from the current settings and the hashes are computed here
+  const handleExportStructured = async (format: 'json' | 'junit') => {
+    const settings = getSettings();
+    const result = buildRunResult({
+      tasks: completedTasks,
+      logFile: fileName,
+      completedAt: completionTimestamp,
+      startedAt: run?.startedAt,
+      runId: run?.id,
+      provider: run?.provider || settings.provider,
+      model: run?.model || settings.model,
+      promptTemplate: run?.promptTemplate || findTaskPromptTemplate(completedTasks),
+      logHash: run?.logHash || (task?.epsLogContent ? await sha256Hex(task.epsLogContent) : undefined),
+      testCaseHash: run?.testCaseHash || (task?.testCaseContent ? await sha256Hex(task.testCaseContent) : undefined),
+      redaction: run?.redaction || task?.redaction
+    });
+    const resultDocument = buildResultDocument([result]);
+    if (format === 'junit') {
+      downloadTextFile(buildJUnitXml(resultDocument), `eps_validation_${fileName}_${Date.now()}.xml`, 'application/xml');
+    } else {
+      downloadTextFile(JSON.stringify(resultDocument, null, 2), `eps_validation_${fileName}_${Date.now()}.json`, 'application/json');
+    }
+    console.log('ShowCompletionAndJustification: Exported structured results', { fileName, format, stepCount: result.steps.length });
+    toast({
+      title: 'Results Exported',
+      description: format === 'junit' ? 'Validation results saved as JUnit XML.' : 'Validation results saved as JSON.',
+    });
+  };
+
+  // Open the log viewer at the first line a step cites as evidence
+  const handleShowEvidence = (lineNumber: number) => {
+    console.log('ShowCompletionAndJustification: Showing evidence in log', { fileName, lineNumber });
+    setShowLogContent(true);
+    setLogFocus({ lineNumber, requestId: Date.now() });
+    requestAnimationFrame(() => logViewerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' }));
+  };
+
   // Handle copy to clipboard
   const handleCopyResults = () => {
-    const content = `EPS Validation Results\nFile: ${fileName}\nCompleted At: ${completionTimestamp.toLocaleString()}\nTask: ${task?.description}\nOverall Result: ${overallResult}\nReasoning and Evidence:\n${reasoningAndEvidence}`;
+    const taskLines = completedTasks
+      .map(t => `Task: ${t.description}\nResult: ${getTaskVerdict(t) || (t.incomplete ? 'Incomplete' : 'Unknown')}\nVerdict Source: ${describeSource(t)}\nReasoning and Evidence:\n${getReasoningAndEvidence(t)}`)
+      .join('\n\n');
+    const content = `EPS Validation Results\nFile: ${fileName}\nCompleted At: ${completionTimestamp.toLocaleString()}\nOverall Result: ${overallResult}\n\n${taskLines}`;
     navigator.clipboard.writeText(content);
     console.log('ShowCompletionAndJustification: Copied results to clipboard', { fileName });
     toast({
@@ -92,13 +194,16 @@ export const ShowCompletionAndJustification: React.FC<ShowCompletionAndJustifica
               <Clock className="w-4 h-4 text-muted-foreground" />
               <span>Completed at {completionTimestamp.toLocaleString()}</span>
             </div>
-            <Badge variant="default" className={overallResult === 'PASS' ? 'bg-success hover:bg-success/90' : 'bg-destructive hover:bg-destructive/90'}>
+            <Badge variant="default" className={overallResult === 'PASS' ? 'bg-success hover:bg-success/90' : overallResult === 'UNVERIFIED' ? 'bg-warning hover:bg-warning/90' : 'bg-destructive hover:bg-destructive/90'}>
               Result: {overallResult}
             </Badge>
           </div>
         </CardHeader>
       </Card>
 
+      {/* Verdict and evidence changes against the test case's baseline run */}
+      {baselineDiff && <RunDiffPanel diff={baselineDiff} />}
+
       {/* Detailed Task Results */}
       <Card>
         <CardHeader>
@@ -139,56 +244,161 @@ export const ShowCompletionAndJustification: React.FC<ShowCompletionAndJustifica
                   <div className="ml-8 mb-4">
                     <div className="bg-muted/50 rounded-lg p-4 border-l-4 border-success">
                       <div className="flex items-center gap-2 mb-2">
-                        <Badge variant="outline" className={`text-xs ${overallResult === 'PASS' ? 'bg-success/10 text-success border-success/20' : 'bg-destructive/10 text-destructive border-destructive/20'}`}>
-                          Result: {overallResult}
+                        <Badge variant="outline" className={`text-xs ${verdictBadgeClass(getTaskVerdict(task))}`}>
+                          Result: {getTaskVerdict(task) || 'Unknown'}
                         </Badge>
+                        {getTaskVerdictSource(task) && (
+                          <Badge variant="secondary" className="text-xs" title={getTaskVerdictSource(task) === 'rule' ? 'Checked by the step\'s assertions; the model was not consulted' : 'Judged by the model'}>
+                            {VERDICT_SOURCE_LABELS[getTaskVerdictSource(task)]}
+                          </Badge>
+                        )}
+                        {task.validationResult?.voting && (
+                          <Badge
+                            variant="secondary"
+                            className="text-xs"
+                            title={task.validationResult.voting.samples
+                              .map(sample => `${describeVoter(sample)}: ${sample.verdict || sample.error}`)
+                              .join('\n')}
+                          >
+                            Voted from {task.validationResult.voting.samples.length} samples
+                          </Badge>
+                        )}
+                        {task.incomplete && (
+                          <Badge variant="outline" className="text-xs bg-warning/10 text-warning border-warning/20">
+                            Incomplete
+                          </Badge>
+                        )}
                       </div>
-                      <p className="text-sm text-foreground/90 leading-relaxed whitespace-pre-wrap">
-                        {reasoningAndEvidence}
-                      </p>
+                      {task.validationResult ? (
+                        <div className="space-y-3">
+                          <p className="text-sm text-foreground/90 leading-relaxed whitespace-pre-wrap">
+                            {task.validationResult.reasoningAndEvidence}
+                          </p>
+                          {task.validationResult.citations?.some(citation => citation.lineNumbers.length === 0) && (
+                            <p className="text-xs text-warning">
+                              Not found in log: {task.validationResult.citations.filter(citation => citation.lineNumbers.length === 0).map(citation => citation.text).join(', ')}
+                            </p>
+                          )}
+                          {task.validationResult.steps.map(step => (
+                            <div key={step.stepNo} className="space-y-1">
+                              <div className="flex items-center gap-2">
+                                <Badge
+                                  variant="outline"
+                                  className={`text-xs ${verdictBadgeClass(getStepVerdict(step))}`}
+                                  title={!step.unverified ? undefined : step.assertions
+                                    ? 'No assertion failed, but at least one could not be evaluated'
+                                    : `The model said ${step.verdict}, but none of its evidence was found in the log`}
+                                >
+                                  Step {step.stepNo}: {getStepVerdict(step)}
+                                </Badge>
+                                {step.votes && (
+                                  <Badge variant="outline" className={`text-xs ${confidenceBadgeClass(step.votes.confidence)}`} title={formatStepVotes(step.votes)}>
+                                    Confidence {Math.round(step.votes.confidence * 100)}%
+                                  </Badge>
+                                )}
+                                <span className="text-sm font-medium">{step.expectedAction}</span>
+                                {getStepEvidenceLines(step.citations).length > 0 && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-6 px-2 text-xs gap-1"
+                                    onClick={() => handleShowEvidence(getStepEvidenceLines(step.citations)[0])}
+                                    title="Scroll the log viewer to this step's evidence"
+                                  >
+                                    <Crosshair className="w-3 h-3" />
+                                    Show in log
+                                  </Button>
+                                )}
+                                {step.chunkIndexes && step.chunkIndexes.length > 0 && (
+                                  <span className="text-xs text-muted-foreground">
+                                    (chunk {step.chunkIndexes.map(i => i + 1).join(', ')})
+                                  </span>
+                                )}
+                              </div>
+                              {step.assertions ? (
+                                <div className="space-y-1">
+                                  {step.assertions.map((assertion, assertionIndex) => (
+                                    <div key={assertionIndex} className="flex items-start gap-2 text-xs">
+                                      <Badge variant="outline" className={`flex-shrink-0 text-[10px] ${ASSERTION_OUTCOME_STYLES[assertion.outcome]}`}>
+                                        {assertion.outcome}
+                                      </Badge>
+                                      <div>
+                                        <code className="font-mono">{assertion.text}</code>
+                                        <p className="text-muted-foreground">{assertion.detail}</p>
+                                      </div>
+                                    </div>
+                                  ))}
+                                </div>
+                              ) : (
+                                <p className="text-xs text-foreground/80 whitespace-pre-wrap">{step.reasoning}</p>
+                              )}
+                              {step.citations ? (
+                                step.citations.length > 0 ? (
+                                  <div className="text-xs bg-muted/40 rounded p-2 space-y-1">
+                                    {step.citations.map((citation, citationIndex) => (
+                                      <div key={citationIndex} className="flex items-start gap-2">
+                                        {citation.lineNumbers.length > 0 ? (
+                                          <span className="flex-shrink-0 text-muted-foreground">
+                                            L{citation.lineNumbers.slice(0, 3).join(', L')}{citation.lineNumbers.length > 3 ? '...' : ''}
+                                          </span>
+                                        ) : (
+                                          <Badge variant="outline" className="flex-shrink-0 text-[10px] bg-destructive/10 text-destructive border-destructive/20">
+                                            Not in log
+                                          </Badge>
+                                        )}
+                                        <pre className={`whitespace-pre-wrap ${citation.lineNumbers.length === 0 ? 'line-through text-muted-foreground' : ''}`}>
+                                          {citation.text}
+                                        </pre>
+                                      </div>
+                                    ))}
+                                  </div>
+                                ) : (
+                                  <p className="text-xs text-muted-foreground italic">No log lines cited</p>
+                                )
+                              ) : step.citedLogLines.length > 0 ? (
+                                <pre className="text-xs bg-muted/40 rounded p-2 whitespace-pre-wrap">
+                                  {step.citedLogLines.join('\n')}
+                                </pre>
+                              ) : (
+                                <p className="text-xs text-muted-foreground italic">No log lines cited</p>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="text-sm text-foreground/90 leading-relaxed whitespace-pre-wrap">
+                          {getReasoningAndEvidence(task)}
+                        </p>
+                      )}
                     </div>
                   </div>
                 )}
 
-                {/* Collapsible Raw EPS Log Content */}
-                {task.epsLogContent && (
-                  <div className="ml-8 mb-4">
-                    <Button
-                      variant="ghost"
-                      onClick={() => setShowLogContent(!showLogContent)}
-                      className="flex items-center gap-2 text-sm"
-                    >
-                      {showLogContent ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
-                      Raw EPS Log Content
-                    </Button>
-                    {showLogContent && (
-                      <div className="mt-2 p-4 bg-muted/20 rounded-lg max-h-64 overflow-y-auto">
-                        <pre className="text-xs text-foreground/80 whitespace-pre-wrap">
-                          {task.epsLogContent}
-                        </pre>
-                      </div>
-                    )}
-                  </div>
-                )}
-
-                {/* Collapsible Test Case Content */}
-                {task.testCaseContent && (
-                  <div className="ml-8 mb-4">
-                    <Button
-                      variant="ghost"
-                      onClick={() => setShowTestCaseContent(!showTestCaseContent)}
-                      className="flex items-center gap-2 text-sm"
-                    >
-                      {showTestCaseContent ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
-                      Test Case Content
-                    </Button>
-                    {showTestCaseContent && (
-                      <div className="mt-2 p-4 bg-muted/20 rounded-lg max-h-64 overflow-y-auto">
-                        <pre className="text-xs text-foreground/80 whitespace-pre-wrap">
-                          {task.testCaseContent}
-                        </pre>
-                      </div>
-                    )}
+                {/* Log chunks consulted during chunked validation */}
+                {task.chunksConsulted && task.chunksConsulted.length > 0 && (
+                  <div className="ml-8 mb-4 space-y-2">
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                      <Layers className="w-4 h-4 text-muted-foreground" />
+                      Log chunks consulted ({task.chunksConsulted.length})
+                    </div>
+                    <div className="space-y-1">
+                      {task.chunksConsulted.map(chunk => (
+                        <div key={chunk.index} className="flex items-center justify-between text-xs bg-muted/20 rounded px-2 py-1">
+                          <span>
+                            Chunk {chunk.index + 1}: lines {chunk.startLine}-{chunk.endLine}
+                          </span>
+                          {chunk.error ? (
+                            <span className="text-destructive">Findings unusable</span>
+                          ) : (
+                            <span className="text-muted-foreground">
+                              {chunk.stepsWithEvidence.length > 0
+                                ? `Evidence for step ${chunk.stepsWithEvidence.join(', ')}`
+                                : 'No evidence'}
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
                   </div>
                 )}
 
@@ -198,6 +408,54 @@ export const ShowCompletionAndJustification: React.FC<ShowCompletionAndJustifica
                 )}
               </div>
             ))}
+
+            {/* Decoded ISO 8583 / ISO 20022 messages, shared by all step tasks */}
+            {task?.epsLogContent && (
+              <div className="ml-8 mb-4">
+                <Iso8583Panel logContent={task.epsLogContent} />
+                <Iso20022Panel logContent={task.epsLogContent} />
+              </div>
+            )}
+
+            {/* Collapsible EPS log viewer with evidence highlighting */}
+            {task?.epsLogContent && (
+              <div ref={logViewerRef} className="ml-8 mb-4">
+                <Button
+                  variant="ghost"
+                  onClick={() => setShowLogContent(!showLogContent)}
+                  className="flex items-center gap-2 text-sm"
+                >
+                  {showLogContent ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                  EPS Log
+                </Button>
+                {showLogContent && (
+                  <div className="mt-2">
+                    <LogViewer logContent={task.epsLogContent} evidence={evidenceLines} focus={logFocus} />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Collapsible Test Case Content */}
+            {task?.testCaseContent && (
+              <div className="ml-8 mb-4">
+                <Button
+                  variant="ghost"
+                  onClick={() => setShowTestCaseContent(!showTestCaseContent)}
+                  className="flex items-center gap-2 text-sm"
+                >
+                  {showTestCaseContent ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                  Test Case Content
+                </Button>
+                {showTestCaseContent && (
+                  <div className="mt-2 p-4 bg-muted/20 rounded-lg max-h-64 overflow-y-auto">
+                    <pre className="text-xs text-foreground/80 whitespace-pre-wrap">
+                      {task.testCaseContent}
+                    </pre>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -215,10 +473,22 @@ export const ShowCompletionAndJustification: React.FC<ShowCompletionAndJustifica
             </div>
             <div>
               <span className="text-muted-foreground">Result:</span>
-              <span className={`ml-2 font-medium ${overallResult === 'PASS' ? 'text-success' : 'text-destructive'}`}>
+              <span className={`ml-2 font-medium ${overallResult === 'PASS' ? 'text-success' : overallResult === 'UNVERIFIED' ? 'text-warning' : 'text-destructive'}`}>
                 {overallResult}
               </span>
             </div>
+            <div>
+              <span className="text-muted-foreground">Passed:</span>
+              <span className="ml-2 font-medium">
+                {completedTasks.filter(t => getTaskVerdict(t) === 'PASS').length}/{tasks.length}
+              </span>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Failed:</span>
+              <span className="ml-2 font-medium">
+                {completedTasks.filter(t => getTaskVerdict(t) === 'FAIL').length}
+              </span>
+            </div>
             <div>
               <span className="text-muted-foreground">Started:</span>
               <span className="ml-2 font-medium">
@@ -237,9 +507,11 @@ export const ShowCompletionAndJustification: React.FC<ShowCompletionAndJustifica
 
       {/* Action Buttons */}
       <div className="flex gap-3 pt-4">
-        <Button onClick={onStartNewTask} className="flex-1">
-          Start New Validation
-        </Button>
+        {onStartNewTask && (
+          <Button onClick={onStartNewTask} className="flex-1">
+            Start New Validation
+          </Button>
+        )}
         <Button variant="outline" onClick={handleCopyResults}>
           <Copy className="w-4 h-4 mr-2" />
           Copy Results
@@ -247,6 +519,14 @@ export const ShowCompletionAndJustification: React.FC<ShowCompletionAndJustifica
         <Button variant="outline" onClick={handleExportResults}>
           Export as Markdown
         </Button>
+        <Button variant="outline" onClick={() => handleExportStructured('junit')}>
+          <Download className="w-4 h-4 mr-2" />
+          JUnit XML
+        </Button>
+        <Button variant="outline" onClick={() => handleExportStructured('json')}>
+          <Download className="w-4 h-4 mr-2" />
+          JSON
+        </Button>
       </div>
     </div>
   );
@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Task } from '@/types/chat';
+import { getTaskVerdict, getTaskVerdictSource, VERDICT_SOURCE_LABELS } from '@/lib/validationResult';
 
 interface ShowListOfTasksProps {
   tasks: Task[];
@@ -13,8 +14,8 @@ interface ShowListOfTasksProps {
 }
 
 /**
- * Component to display the EPS validation task with progress status
- * Shows loading state and test case snippet during validation
+ * Component to display the EPS validation tasks (one per test step) with progress status
+ * Shows loading state, per-step verdicts and test case snippets during validation
  */
 export const ShowListOfTasks: React.FC<ShowListOfTasksProps> = ({
   tasks,
@@ -61,9 +62,11 @@ export const ShowListOfTasks: React.FC<ShowListOfTasksProps> = ({
         
         {/* Progress bar */}
         <div className="space-y-2">
-          <Progress value={isLoading ? undefined : progressPercentage} className="w-full" />
+          <Progress value={progressPercentage} className="w-full" />
           <div className="text-xs text-muted-foreground text-center">
-            {isLoading ? 'Validating...' : `${Math.round(progressPercentage)}% Complete`}
+            {isLoading
+              ? `Validating task ${Math.min(completedCount + 1, totalTasks)} of ${totalTasks}...`
+              : `${Math.round(progressPercentage)}% Complete`}
           </div>
         </div>
       </CardHeader>
@@ -86,12 +89,12 @@ export const ShowListOfTasks: React.FC<ShowListOfTasksProps> = ({
                     : 'bg-task-pending border-task-pending-foreground/20'
                 }`}
               >
-                {/* Task status icon */}
+                {/* Task status icon; only the first pending task is being validated */}
                 <div className="flex-shrink-0 mt-0.5">
                   {task.completed ? (
                     <CheckCircle2 className="w-5 h-5 text-success" />
                   ) : (
-                    isLoading ? (
+                    isLoading && tasks.findIndex(t => !t.completed) === index ? (
                       <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
                     ) : (
                       <div className="w-5 h-5 rounded-full border-2 border-muted-foreground/30" />
@@ -110,20 +113,43 @@ export const ShowListOfTasks: React.FC<ShowListOfTasksProps> = ({
                         Completed at {task.completedAt.toLocaleTimeString()}
                       </span>
                     )}
+                    {getTaskVerdict(task) && (
+                      <Badge
+                        variant="outline"
+                        className={`text-xs ${getTaskVerdict(task) === 'PASS' ? 'bg-success/10 text-success border-success/20' : getTaskVerdict(task) === 'UNVERIFIED' ? 'bg-warning/10 text-warning border-warning/20' : 'bg-destructive/10 text-destructive border-destructive/20'}`}
+                      >
+                        {getTaskVerdict(task)}
+                      </Badge>
+                    )}
+                    {getTaskVerdictSource(task) && (
+                      <Badge variant="secondary" className="text-xs">
+                        {VERDICT_SOURCE_LABELS[getTaskVerdictSource(task)]}
+                      </Badge>
+                    )}
+                    {!task.completed && task.step?.assertions?.length > 0 && (
+                      <Badge variant="secondary" className="text-xs">
+                        {task.step.assertions.length} assertion(s)
+                      </Badge>
+                    )}
+                    {task.incomplete && (
+                      <Badge variant="outline" className="text-xs text-warning border-warning/30">
+                        Incomplete
+                      </Badge>
+                    )}
                   </div>
                   
                   <p className={`text-sm ${task.completed ? 'line-through opacity-75' : ''}`}>
                     {task.description}
                   </p>
                   
-                  {/* Show test case snippet */}
-                  {task.testCaseContent && (
+                  {/* Show the step as written, or a snippet of the whole test case */}
+                  {(task.step || task.testCaseContent) && (
                     <div className="mt-2 p-2 bg-muted/20 rounded border-l-2 border-primary">
                       <p className="text-xs text-primary-foreground font-medium">
                         Test Case Snippet:
                       </p>
                       <p className="text-xs text-foreground/80 whitespace-pre-wrap">
-                        {truncateContent(task.testCaseContent)}
+                        {truncateContent(task.step ? task.step.raw : task.testCaseContent)}
                       </p>
                     </div>
                   )}
@@ -0,0 +1,140 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { deleteChatSession, listChatSessions, saveChatSession } from "@/lib/historyStore";
+import { AppState } from "@/types/chat";
+import { ChatSession } from "@/types/history";
+
+export const DEFAULT_SESSION_TITLE = "New chat";
+
+// Delay before changed sessions are written to history, so streamed tokens are batched
+const SESSION_SAVE_DELAY_MS = 1000;
+
+type SessionUpdate = Partial<ChatSession> | ((session: ChatSession) => Partial<ChatSession>);
+
+function createChatSession(): ChatSession {
+  const now = new Date();
+  return {
+    id: `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    title: DEFAULT_SESSION_TITLE,
+    messages: [],
+    appState: AppState.CHATTING,
+    tasks: [],
+    completedTasksCount: 0,
+    currentFile: "",
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+/**
+ * Prepares a stored session for display after a reload.
+ * Replies and validations cut off by the reload are marked incomplete.
+ */
+function restoreChatSession(stored: ChatSession): ChatSession {
+  const session: ChatSession = { ...createChatSession(), ...stored };
+  const messages = session.messages.map(m => (m.isStreaming ? { ...m, isStreaming: false, isIncomplete: true } : m));
+  if (session.appState !== AppState.TASK_MODE) {
+    return { ...session, messages };
+  }
+  return {
+    ...session,
+    messages,
+    appState: AppState.TASKS_COMPLETED,
+    tasks: session.tasks.map(task =>
+      task.completed
+        ? task
+        : { ...task, completed: true, incomplete: true, justification: "Not validated: the page was reloaded during validation.", completedAt: session.updatedAt }
+    ),
+    completedTasksCount: session.tasks.length,
+    completionTimestamp: session.updatedAt
+  };
+}
+
+/**
+ * Manages named chat sessions, each with its own messages, tasks and app state.
+ * Sessions are restored from IndexedDB on mount and saved back whenever they change.
+ */
+export function useChatSessions() {
+  const [sessions, setSessions] = useState<ChatSession[]>(() => [createChatSession()]);
+  const [activeSessionId, setActiveSessionId] = useState(() => sessions[0].id);
+  const sessionsRef = useRef(sessions);
+  sessionsRef.current = sessions;
+  // Last saved version of each session, to only write the ones that changed
+  const savedRef = useRef(new Map<string, ChatSession>());
+
+  useEffect(() => {
+    listChatSessions()
+      .then(stored => {
+        if (stored.length === 0) return;
+        console.log("useChatSessions: Restoring chat sessions", { sessionCount: stored.length });
+        const restored = stored.map(restoreChatSession);
+        stored.forEach((session, index) => savedRef.current.set(session.id, restored[index]));
+        // Replace the initial session unless it was used before the restore finished
+        const current = sessionsRef.current.filter(s => s.messages.length > 0);
+        setSessions([...current, ...restored.filter(s => !current.some(c => c.id === s.id))]);
+        if (current.length === 0) {
+          setActiveSessionId(restored[0].id);
+        }
+      })
+      .catch(error => console.error("useChatSessions: Failed to restore chat sessions", error));
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      sessions
+        .filter(session => session.messages.length > 0 && savedRef.current.get(session.id) !== session)
+        .forEach(session => {
+          savedRef.current.set(session.id, session);
+          saveChatSession(session).catch(error => console.error("useChatSessions: Failed to save chat session", error));
+        });
+    }, SESSION_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [sessions]);
+
+  const updateSession = useCallback((id: string, update: SessionUpdate) => {
+    setSessions(prev => prev.map(session =>
+      session.id === id
+        ? { ...session, ...(typeof update === "function" ? update(session) : update), updatedAt: new Date() }
+        : session
+    ));
+  }, []);
+
+  const createSession = useCallback(() => {
+    const session = createChatSession();
+    console.log("useChatSessions: Creating session", { sessionId: session.id });
+    setSessions(prev => [session, ...prev]);
+    setActiveSessionId(session.id);
+    return session;
+  }, []);
+
+  const switchSession = useCallback((id: string) => {
+    console.log("useChatSessions: Switching session", { sessionId: id });
+    setActiveSessionId(id);
+  }, []);
+
+  const renameSession = useCallback((id: string, title: string) => {
+    updateSession(id, { title: title.trim() || DEFAULT_SESSION_TITLE });
+  }, [updateSession]);
+
+  // Deleting the active session switches to the next one, or to a fresh session when none are left
+  const deleteSession = useCallback((id: string) => {
+    console.log("useChatSessions: Deleting session", { sessionId: id });
+    const remaining = sessionsRef.current.filter(session => session.id !== id);
+    const next = remaining.length > 0 ? remaining : [createChatSession()];
+    setSessions(next);
+    setActiveSessionId(activeId => (activeId === id || remaining.length === 0 ? next[0].id : activeId));
+    savedRef.current.delete(id);
+    deleteChatSession(id).catch(error => console.error("useChatSessions: Failed to delete chat session", error));
+  }, []);
+
+  const activeSession = sessions.find(session => session.id === activeSessionId) || sessions[0];
+
+  return {
+    sessions,
+    activeSession,
+    updateSession,
+    createSession,
+    switchSession,
+    renameSession,
+    deleteSession
+  };
+}
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from "react";
+import { getFewShotExamples, subscribeFewShotExamples } from "@/lib/fewShotExamples";
+
+/**
+ * Subscribes a component to the stored few-shot examples.
+ */
+export function useFewShotExamples() {
+  return useSyncExternalStore(subscribeFewShotExamples, getFewShotExamples, getFewShotExamples);
+}
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from "react";
+import { getPromptTemplates, subscribePromptTemplates } from "@/lib/promptTemplates";
+
+/**
+ * Subscribes a component to the stored prompt templates.
+ */
+export function usePromptTemplates() {
+  return useSyncExternalStore(subscribePromptTemplates, getPromptTemplates, getPromptTemplates);
+}
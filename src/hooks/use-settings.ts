@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from "react";
+import { getSettings, resetSettings, subscribeSettings, updateSettings } from "@/lib/settings";
+
+/**
+ * Subscribes a component to the persisted agent settings.
+ */
+export function useSettings() {
+  const settings = useSyncExternalStore(subscribeSettings, getSettings, getSettings);
+  return { settings, updateSettings, resetSettings };
+}
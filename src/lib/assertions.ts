@@ -0,0 +1,316 @@
+/**
+ * Assertion DSL for deterministic test step checks.
+ * Steps whose checks are mechanical ("response code 00", "0420 within 30s") carry assertions
+ * that are evaluated directly against parsed log records, so the model is only consulted for
+ * steps without them.
+ *
+ * Syntax, one assertion per line:
+ *   <selector> exists
+ *   <selector> <field> exists
+ *   <selector> <field> equals <value>        (or ==)
+ *   <selector> <field> matches /<regex>/<flags>   (or =~)
+ *   <selector> before <selector>
+ *   <selector> within <n> ms|s|min of <selector>
+ * A selector is a message type prefix (`0210`, `pacs.002`) or `*`, optionally followed by
+ * field filters: `0420[service=switch]`, `*[level=ERROR]`.
+ */
+import { parseLogTimestamp } from '@/lib/correlation';
+import { findIso8583Messages } from '@/lib/iso8583';
+import { parseEpsLog } from '@/lib/logParser';
+import { AssertionResult, RecordSelector, StepAssertion } from '@/types/assertion';
+import { StepValidation, ValidationResult } from '@/types/chat';
+import { TestStep } from '@/types/testCase';
+
+// A log record as assertions see it: fields keyed by normalised name
+interface AssertionRecord {
+  lineNumber: number;
+  endLineNumber: number;
+  raw: string;
+  timestamp?: string;
+  messageType?: string;
+  fields: Map<string, string>;
+}
+
+// Common names resolved to the fields EPS formats actually log
+const FIELD_ALIASES: Record<string, string[]> = {
+  responsecode: ['field39', 'rc', 'respcode', 'status'],
+  stan: ['field11', 'systemtraceauditnumber'],
+  rrn: ['field37', 'retrievalreferencenumber'],
+  currency: ['field49', 'ccy', 'currencycode'],
+  mti: ['messagetype']
+};
+
+const DURATION_UNITS: Record<string, number> = { ms: 1, s: 1000, sec: 1000, m: 60000, min: 60000 };
+
+// Evidence lines listed per assertion
+const MAX_LINES_PER_ASSERTION = 10;
+
+const normaliseKey = (key: string) => key.toLowerCase().replace(/[\s_-]/g, '');
+
+const unquote = (value: string) => value.trim().replace(/^"(.*)"$|^'(.*)'$/, (_, double, single) => double ?? single);
+
+/**
+ * Parses a record selector such as `0210`, `*` or `0420[service=switch, level=INFO]`.
+ * @returns The selector, or an error message.
+ */
+function parseSelector(text: string): { selector: RecordSelector | null; error?: string } {
+  const match = text.trim().match(/^([^\s[\]]*)(?:\[([^\]]*)\])?$/);
+  if (!match || (!match[1] && match[2] === undefined)) {
+    return { selector: null, error: `"${text.trim()}" is not a record selector (use a message type such as 0210, or * for any record)` };
+  }
+  const filters: RecordSelector['filters'] = [];
+  for (const part of (match[2] || '').split(',').filter(item => item.trim())) {
+    const filter = part.match(/^\s*([\w.-]+)\s*=\s*(.+?)\s*$/);
+    if (!filter) return { selector: null, error: `"${part.trim()}" in ${text.trim()} is not a field=value filter` };
+    filters.push({ field: filter[1], value: unquote(filter[2]) });
+  }
+  return {
+    selector: {
+      text: text.trim(),
+      messageType: match[1] && match[1] !== '*' ? match[1] : undefined,
+      filters
+    }
+  };
+}
+
+/**
+ * Parses one line of the assertion DSL.
+ * @returns The assertion, or null with a message describing the syntax error.
+ */
+export function parseAssertion(text: string): { assertion: StepAssertion | null; error?: string } {
+  const trimmed = text.trim();
+  const head = trimmed.match(/^(\S*?\[[^\]]*\]|\S+)\s*(.*)$/);
+  if (!head) return { assertion: null, error: 'Assertion is empty' };
+  const { selector, error } = parseSelector(head[1]);
+  if (!selector) return { assertion: null, error };
+  const rest = head[2].trim();
+  const base = { text: trimmed, selector };
+  let match: RegExpMatchArray | null;
+
+  if (/^exists$/i.test(rest)) {
+    return { assertion: { ...base, kind: 'exists' } };
+  }
+  if ((match = rest.match(/^before\s+(.+)$/i))) {
+    const other = parseSelector(match[1]);
+    return other.selector ? { assertion: { ...base, kind: 'before', other: other.selector } } : { assertion: null, error: other.error };
+  }
+  if ((match = rest.match(/^within\s+(\d+(?:\.\d+)?)\s*(ms|s|sec|m|min)\s+of\s+(.+)$/i))) {
+    const other = parseSelector(match[3]);
+    if (!other.selector) return { assertion: null, error: other.error };
+    return { assertion: { ...base, kind: 'within', other: other.selector, withinMs: Number(match[1]) * DURATION_UNITS[match[2].toLowerCase()] } };
+  }
+  if ((match = rest.match(/^([\w.-]+)\s+exists$/i))) {
+    return { assertion: { ...base, kind: 'exists', field: match[1] } };
+  }
+  if ((match = rest.match(/^([\w.-]+)\s+(?:equals|==)\s+(.+)$/i))) {
+    return { assertion: { ...base, kind: 'equals', field: match[1], value: unquote(match[2]) } };
+  }
+  if ((match = rest.match(/^([\w.-]+)\s+(?:matches|=~)\s+\/(.*)\/([a-z]*)$/i))) {
+    try {
+      return { assertion: { ...base, kind: 'matches', field: match[1], pattern: new RegExp(match[2], match[3]) } };
+    } catch (patternError) {
+      return { assertion: null, error: `Invalid regular expression in "${trimmed}": ${patternError instanceof Error ? patternError.message : patternError}` };
+    }
+  }
+  return {
+    assertion: null,
+    error: `"${trimmed}" is not a recognised assertion (expected exists, <field> equals, <field> matches, before or within)`
+  };
+}
+
+/**
+ * Turns a log into the records assertions are evaluated against.
+ * ISO 8583 messages add `field<N>` (and `de<N>`) values and their MTI to the record they appear in.
+ */
+function buildAssertionRecords(logContent: string): AssertionRecord[] {
+  const records: AssertionRecord[] = parseEpsLog(logContent).records.map(record => {
+    const fields = new Map<string, string>();
+    Object.entries(record.fields).forEach(([key, value]) => {
+      if (!fields.has(normaliseKey(key))) fields.set(normaliseKey(key), value);
+    });
+    const properties = { messageType: record.messageType, service: record.service, level: record.level, requestId: record.requestId, message: record.message, timestamp: record.timestamp };
+    Object.entries(properties).forEach(([key, value]) => {
+      if (value && !fields.has(normaliseKey(key))) fields.set(normaliseKey(key), value);
+    });
+    return { lineNumber: record.lineNumber, endLineNumber: record.endLineNumber, raw: record.raw, timestamp: record.timestamp, messageType: record.messageType, fields };
+  });
+
+  const recordByLine = new Map<number, AssertionRecord>();
+  records.forEach(record => {
+    for (let lineNumber = record.lineNumber; lineNumber <= record.endLineNumber; lineNumber++) recordByLine.set(lineNumber, record);
+  });
+  const lines = logContent.split(/\r?\n/);
+  findIso8583Messages(logContent).forEach(message => {
+    let record = recordByLine.get(message.lineNumber);
+    if (!record) {
+      // Messages on lines no log format parsed still count as records
+      record = {
+        lineNumber: message.lineNumber,
+        endLineNumber: message.endLineNumber,
+        raw: lines.slice(message.lineNumber - 1, message.endLineNumber).join('\n'),
+        fields: new Map()
+      };
+      records.push(record);
+    }
+    record.messageType = record.messageType || message.mti;
+    if (!record.fields.has('mti')) record.fields.set('mti', message.mti);
+    message.fields.forEach(field => {
+      [`field${field.id}`, `de${field.id}`].forEach(key => {
+        if (!record.fields.has(key)) record.fields.set(key, field.value);
+      });
+    });
+  });
+  return records.sort((a, b) => a.lineNumber - b.lineNumber);
+}
+
+function getField(record: AssertionRecord, field: string): string | undefined {
+  const key = normaliseKey(field);
+  const direct = record.fields.get(key);
+  if (direct !== undefined) return direct;
+  const alias = (FIELD_ALIASES[key] || []).find(name => record.fields.has(name));
+  return alias ? record.fields.get(alias) : undefined;
+}
+
+// Numbers compare by value (1500 equals 1,500.00); anything else case-insensitively
+function valuesEqual(actual: string, expected: string): boolean {
+  const a = actual.trim().replace(/,/g, '');
+  const b = expected.trim().replace(/,/g, '');
+  if (/^-?\d+(\.\d+)?$/.test(a) && /^-?\d+(\.\d+)?$/.test(b)) return Number(a) === Number(b);
+  return actual.trim().toLowerCase() === expected.trim().toLowerCase();
+}
+
+function matchesSelector(record: AssertionRecord, selector: RecordSelector): boolean {
+  if (selector.messageType) {
+    const wanted = selector.messageType.toLowerCase();
+    const types = [record.messageType, record.fields.get('mti')].filter(Boolean).map(type => type.toLowerCase());
+    if (!types.some(type => type.startsWith(wanted))) return false;
+  }
+  return selector.filters.every(filter => {
+    const value = getField(record, filter.field);
+    return value !== undefined && valuesEqual(value, filter.value);
+  });
+}
+
+const lineList = (records: AssertionRecord[]) => records.slice(0, MAX_LINES_PER_ASSERTION).map(record => record.lineNumber);
+
+const describeLines = (records: AssertionRecord[]) =>
+  `line${records.length > 1 ? 's' : ''} ${lineList(records).join(', ')}${records.length > MAX_LINES_PER_ASSERTION ? ', ...' : ''}`;
+
+const preview = (value: string) => (value.length > 60 ? `${value.slice(0, 57)}...` : value);
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms} ms` : `${ms / 1000} s`);
+
+/**
+ * Evaluates one assertion against the log's records.
+ * Field checks pass when any selected record satisfies them; ordering and timing use the
+ * first matching record of each selector.
+ */
+function evaluateAssertion(assertion: StepAssertion, records: AssertionRecord[]): AssertionResult {
+  const { text, selector, field } = assertion;
+  const selected = records.filter(record => matchesSelector(record, selector));
+  const result = (outcome: AssertionResult['outcome'], detail: string, evidence: AssertionRecord[]): AssertionResult =>
+    ({ text, outcome, detail, lineNumbers: lineList(evidence) });
+
+  if (selected.length === 0) {
+    return result('FAIL', `No record matches ${selector.text}`, []);
+  }
+
+  switch (assertion.kind) {
+    case 'exists': {
+      if (!field) return result('PASS', `${selector.text} found on ${describeLines(selected)}`, selected);
+      const withField = selected.filter(record => getField(record, field) !== undefined);
+      return withField.length > 0
+        ? result('PASS', `${field} present on ${describeLines(withField)}`, withField)
+        : result('FAIL', `${selector.text} on ${describeLines(selected)} has no ${field}`, selected);
+    }
+    case 'equals':
+    case 'matches': {
+      const check = (value: string) => {
+        if (assertion.kind === 'equals') return valuesEqual(value, assertion.value);
+        assertion.pattern.lastIndex = 0;
+        return assertion.pattern.test(value);
+      };
+      const withField = selected.filter(record => getField(record, field) !== undefined);
+      const hits = withField.filter(record => check(getField(record, field)));
+      if (hits.length > 0) return result('PASS', `${field} is ${preview(getField(hits[0], field))} on ${describeLines(hits)}`, hits);
+      if (withField.length === 0) return result('FAIL', `${selector.text} on ${describeLines(selected)} has no ${field}`, selected);
+      const found = withField.slice(0, 5).map(record => `${preview(getField(record, field))} (line ${record.lineNumber})`).join(', ');
+      return result('FAIL', `${field} was ${found}`, withField);
+    }
+    case 'before': {
+      const first = selected[0];
+      const later = records.find(record => matchesSelector(record, assertion.other));
+      if (!later) return result('FAIL', `No record matches ${assertion.other.text}`, [first]);
+      const [firstTime, laterTime] = [parseLogTimestamp(first.timestamp), parseLogTimestamp(later.timestamp)];
+      // Timestamps decide when both records have one; otherwise log order does
+      const isBefore = firstTime !== undefined && laterTime !== undefined && firstTime !== laterTime
+        ? firstTime < laterTime
+        : first.lineNumber < later.lineNumber;
+      return result(
+        isBefore ? 'PASS' : 'FAIL',
+        `${selector.text} (line ${first.lineNumber}) ${isBefore ? 'comes before' : 'does not come before'} ${assertion.other.text} (line ${later.lineNumber})`,
+        [first, later]
+      );
+    }
+    case 'within': {
+      const start = records.find(record => matchesSelector(record, assertion.other));
+      if (!start) return result('FAIL', `No record matches ${assertion.other.text}`, []);
+      const end = selected.find(record => record.lineNumber >= start.lineNumber);
+      if (!end) return result('FAIL', `No ${selector.text} after ${assertion.other.text} (line ${start.lineNumber})`, [start]);
+      const [startTime, endTime] = [parseLogTimestamp(start.timestamp), parseLogTimestamp(end.timestamp)];
+      if (startTime === undefined || endTime === undefined) {
+        return result('INCONCLUSIVE', `Cannot time ${selector.text} (line ${end.lineNumber}) against ${assertion.other.text} (line ${start.lineNumber}): missing or unrecognised timestamp`, [start, end]);
+      }
+      const elapsed = endTime - startTime;
+      return result(
+        elapsed >= 0 && elapsed <= assertion.withinMs ? 'PASS' : 'FAIL',
+        `${selector.text} (line ${end.lineNumber}) came ${formatDuration(elapsed)} after ${assertion.other.text} (line ${start.lineNumber}); limit ${formatDuration(assertion.withinMs)}`,
+        [start, end]
+      );
+    }
+  }
+}
+
+/**
+ * Checks a step's assertions against the log without calling the model.
+ * Any failing assertion fails the step; an inconclusive one (e.g. no timestamps) leaves it UNVERIFIED.
+ * The records each assertion relied on are returned as verified citations.
+ * @returns A structured result with `source: 'rule'` and one step.
+ */
+export function evaluateStepAssertions(step: TestStep, logContent: string): ValidationResult {
+  const records = buildAssertionRecords(logContent);
+  const results: AssertionResult[] = step.assertions.filter(text => text.trim()).map(text => {
+    const { assertion, error } = parseAssertion(text);
+    return assertion ? evaluateAssertion(assertion, records) : { text, outcome: 'INCONCLUSIVE', detail: error, lineNumbers: [] };
+  });
+
+  const failed = results.some(r => r.outcome === 'FAIL');
+  const inconclusive = results.some(r => r.outcome === 'INCONCLUSIVE');
+  const lineNumbers = [...new Set(results.flatMap(r => r.lineNumbers))].sort((a, b) => a - b);
+  const lines = logContent.split(/\r?\n/);
+  const reasoning = results.map(r => `${r.outcome}: ${r.text} - ${r.detail}`).join('\n');
+
+  const stepResult: StepValidation = {
+    stepNo: step.stepNo,
+    expectedAction: step.action,
+    verdict: failed ? 'FAIL' : 'PASS',
+    citedLogLines: lineNumbers.map(lineNumber => lines[lineNumber - 1]),
+    reasoning,
+    citations: lineNumbers.map(lineNumber => ({ text: lines[lineNumber - 1], kind: 'excerpt', lineNumbers: [lineNumber] })),
+    unverified: !failed && inconclusive,
+    assertions: results
+  };
+
+  console.log('assertions: Step checked by rules', {
+    stepNo: step.stepNo,
+    assertionCount: results.length,
+    failed: results.filter(r => r.outcome === 'FAIL').length,
+    inconclusive: results.filter(r => r.outcome === 'INCONCLUSIVE').length
+  });
+  return {
+    overallResult: stepResult.verdict,
+    reasoningAndEvidence: `Step ${step.stepNo} checked by ${results.length} assertion(s) against the log; the model was not consulted.`,
+    steps: [stepResult],
+    source: 'rule'
+  };
+}
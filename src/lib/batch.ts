@@ -0,0 +1,146 @@
+/**
+ * Batch validation helpers.
+ * Pairs suite test cases with log files, runs a work queue with a concurrency limit
+ * and summarises the results for the whole suite.
+ */
+import { getTaskVerdict } from '@/lib/validationResult';
+import { BatchItem, BatchLogFile, BatchMapping, BatchMappingMode, BatchSummary, SuiteTestCase } from '@/types/batch';
+
+export const MAX_BATCH_CONCURRENCY = 8;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Checks whether a file name contains a test case ID.
+ * Separators are interchangeable ("TC-001" matches "tc_001.log" and "TC001.log") and the ID
+ * must not be part of a longer ID ("TC-1" does not match "TC-10.log").
+ */
+export function fileNameMatchesTestCase(fileName: string, testCaseId: string): boolean {
+  const parts = testCaseId.trim().split(/[\s_-]+/).filter(Boolean).map(escapeRegExp);
+  if (parts.length === 0) return false;
+  return new RegExp(`(?<![A-Za-z0-9])${parts.join('[\\s_-]?')}(?![0-9])`, 'i').test(fileName);
+}
+
+function createBatchItem(logFile: BatchLogFile, suiteTestCase: SuiteTestCase): BatchItem {
+  return {
+    id: `batch-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    logFile,
+    suiteTestCase,
+    status: 'queued',
+    tasks: [],
+    attempts: 0
+  };
+}
+
+/**
+ * Suggests a log file for each test case from the file names, for pre-filling the mapping table.
+ * @returns Suite key to log file name; test cases without a match are left out.
+ */
+export function suggestMappingTable(testCases: SuiteTestCase[], logFiles: BatchLogFile[]): Record<string, string> {
+  const table: Record<string, string> = {};
+  for (const suiteTestCase of testCases) {
+    const match = suiteTestCase.testCase.testCaseId && logFiles.find(file => fileNameMatchesTestCase(file.name, suiteTestCase.testCase.testCaseId));
+    if (match) table[suiteTestCase.key] = match.name;
+  }
+  return table;
+}
+
+/**
+ * Pairs test cases with log files.
+ * - filename: every log whose name contains the test case ID
+ * - table: the log chosen for each test case in the mapping table (suite key to file name)
+ * - all: every test case against every log
+ */
+export function buildBatchItems(
+  testCases: SuiteTestCase[],
+  logFiles: BatchLogFile[],
+  mode: BatchMappingMode,
+  table: Record<string, string> = {}
+): BatchMapping {
+  const items: BatchItem[] = [];
+  for (const suiteTestCase of testCases) {
+    let matches: BatchLogFile[];
+    if (mode === 'all') {
+      matches = logFiles;
+    } else if (mode === 'table') {
+      matches = logFiles.filter(file => file.name === table[suiteTestCase.key]);
+    } else {
+      const testCaseId = suiteTestCase.testCase.testCaseId;
+      matches = testCaseId ? logFiles.filter(file => fileNameMatchesTestCase(file.name, testCaseId)) : [];
+    }
+    matches.forEach(logFile => items.push(createBatchItem(logFile, suiteTestCase)));
+  }
+
+  const mappedLogs = new Set(items.map(item => item.logFile.name));
+  const mappedTestCases = new Set(items.map(item => item.suiteTestCase.key));
+  const mapping: BatchMapping = {
+    items,
+    unmappedTestCases: testCases.filter(tc => !mappedTestCases.has(tc.key)).map(tc => tc.key),
+    unmappedLogs: logFiles.filter(file => !mappedLogs.has(file.name)).map(file => file.name)
+  };
+  console.log('batch: Built batch items', {
+    mode,
+    itemCount: items.length,
+    unmappedTestCases: mapping.unmappedTestCases.length,
+    unmappedLogs: mapping.unmappedLogs.length
+  });
+  return mapping;
+}
+
+/**
+ * Whether an item should be offered for retry: it errored, was cancelled, or did not pass.
+ */
+export function isRetryable(item: BatchItem): boolean {
+  if (item.status === 'error' || item.status === 'cancelled') return true;
+  return item.status === 'done' && item.verdict !== 'PASS';
+}
+
+/**
+ * Runs a worker over items with at most `concurrency` in flight.
+ * Items not yet started when the signal aborts are skipped.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let next = 0;
+  const runners = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, async () => {
+    while (next < items.length && !signal?.aborted) {
+      const item = items[next++];
+      await worker(item);
+    }
+  });
+  await Promise.all(runners);
+}
+
+/**
+ * Summarises a batch: totals per outcome, pass rate over finished items and wall-clock duration.
+ */
+export function summarizeBatch(items: BatchItem[]): BatchSummary {
+  const summary: BatchSummary = { total: items.length, passed: 0, failed: 0, errors: 0, incomplete: 0, pending: 0, passRate: 0, durationMs: 0 };
+  for (const item of items) {
+    if (item.status === 'queued' || item.status === 'running') summary.pending++;
+    else if (item.status === 'error') summary.errors++;
+    else if (item.verdict === 'PASS') summary.passed++;
+    else if (item.verdict === 'FAIL') summary.failed++;
+    else summary.incomplete++;
+  }
+  const finished = summary.total - summary.pending;
+  summary.passRate = finished > 0 ? Math.round((summary.passed / finished) * 100) : 0;
+
+  const starts = items.filter(item => item.startedAt).map(item => item.startedAt.getTime());
+  const ends = items.filter(item => item.completedAt).map(item => item.completedAt.getTime());
+  summary.durationMs = starts.length > 0 && ends.length > 0 ? Math.max(...ends) - Math.min(...starts) : 0;
+  return summary;
+}
+
+/**
+ * Counts the steps of an item that passed.
+ */
+export function countPassedSteps(item: BatchItem): number {
+  return item.tasks.filter(task => getTaskVerdict(task) === 'PASS').length;
+}
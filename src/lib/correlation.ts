@@ -0,0 +1,308 @@
+/**
+ * Transaction correlation engine for EPS logs.
+ * Groups interleaved log records into transactions by shared identifiers (STAN, RRN,
+ * request ID, end-to-end ID), orders each transaction into a timeline with the latency
+ * between hops, and extracts a single transaction's records for validation.
+ */
+import { findIso20022Messages } from '@/lib/iso20022';
+import { findIso8583Messages } from '@/lib/iso8583';
+import { CorrelationKey, Transaction, TransactionHop, TransactionSelection } from '@/types/correlation';
+import { LogRecord, ParsedLog } from '@/types/log';
+
+export const CORRELATION_KEYS: CorrelationKey[] = ['stan', 'rrn', 'requestId', 'endToEndId'];
+
+export const CORRELATION_KEY_LABELS: Record<CorrelationKey, string> = {
+  stan: 'STAN',
+  rrn: 'RRN',
+  requestId: 'Request ID',
+  endToEndId: 'End-to-end ID'
+};
+
+// Parsed field names that carry each identifier
+const KEY_FIELDS: Record<Exclude<CorrelationKey, 'requestId'>, RegExp> = {
+  stan: /^(stan|system[_-]?trace([_-]?audit)?([_-]?(no|number))?|trace[_-]?audit[_-]?(no|number)|de0?11|f0?11|field[_-]?0?11)$/i,
+  rrn: /^(rrn|retrieval[_-]?ref(erence)?([_-]?(no|number))?|de37|f37|field[_-]?37)$/i,
+  endToEndId: /^(end[_-]?to[_-]?end[_-]?id|e2e[_-]?id|(orgnl|original)[_-]?end[_-]?to[_-]?end[_-]?id)$/i
+};
+
+// Identifiers written as prose ("STAN 123456", "RRN: 401512345678")
+const KEY_TEXT_PATTERNS: Partial<Record<CorrelationKey, RegExp>> = {
+  stan: /\bSTAN\s*[:=#]?\s*(\d{6})\b/gi,
+  rrn: /\bRRN\s*[:=#]?\s*([A-Za-z0-9]{12})\b/gi
+};
+
+// Values that are placeholders rather than identifiers
+const IGNORED_VALUES = /^(0+|null|none|n\/a|-|notprovided)$/i;
+
+// Request and end-to-end IDs share one namespace: the same ID is often logged as a request ID
+// on one hop and an end-to-end ID on the next. STANs and RRNs only match their own key
+const LINK_SCOPES: Record<CorrelationKey, string> = {
+  stan: 'stan',
+  rrn: 'rrn',
+  requestId: 'id',
+  endToEndId: 'id'
+};
+
+// STANs are six digits that wrap and repeat across terminals, so a STAN only links records
+// this close in time to the previous record carrying it
+const STAN_LINK_WINDOW_MS = 5 * 60 * 1000;
+
+/**
+ * Converts a log timestamp to milliseconds for latency arithmetic.
+ * Dates without a zone are read as UTC and time-only stamps as milliseconds since midnight,
+ * so differences are correct within one log even though the absolute values are not.
+ * @returns Milliseconds, or undefined when the timestamp is not in a recognised format.
+ */
+export function parseLogTimestamp(timestamp: string | undefined): number | undefined {
+  if (!timestamp) return undefined;
+  const match = timestamp.trim().match(/^(?:(\d{4})-(\d{2})-(\d{2})[T\s]|(\d{2})[/-](\d{2})[/-](\d{4})\s+)?(\d{2}):(\d{2}):(\d{2})(?:[.,](\d+))?\s*(Z|[+-]\d{2}:?\d{2})?$/);
+  if (!match) return undefined;
+  const [, year, month, day, dayFirst, monthSecond, yearLast, hours, minutes, seconds, fraction, zone] = match;
+  const ms = fraction ? Math.round(Number(`0.${fraction}`) * 1000) : 0;
+  const time = ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000 + ms;
+  const date = year
+    ? Date.UTC(Number(year), Number(month) - 1, Number(day))
+    : yearLast ? Date.UTC(Number(yearLast), Number(monthSecond) - 1, Number(dayFirst)) : 0;
+  let offset = 0;
+  if (zone && zone !== 'Z') {
+    const [, sign, zoneHours, zoneMinutes] = zone.match(/([+-])(\d{2}):?(\d{2})/);
+    offset = (sign === '-' ? -1 : 1) * (Number(zoneHours) * 60 + Number(zoneMinutes)) * 60000;
+  }
+  return date + time - offset;
+}
+
+/**
+ * Formats a latency for display, e.g. "850 ms", "2.4 s", "3 min 5 s", "15 h 40 min".
+ */
+export function formatLatency(ms: number): string {
+  if (ms < 1000) return `${ms} ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(ms < 10000 ? 1 : 0)} s`;
+  if (ms < 3600000) return `${Math.floor(ms / 60000)} min ${Math.floor((ms % 60000) / 1000)} s`;
+  return `${Math.floor(ms / 3600000)} h ${Math.floor((ms % 3600000) / 60000)} min`;
+}
+
+/**
+ * Describes a transaction by its identifiers, e.g. "STAN 123456 · RRN 401512345678".
+ */
+export function describeTransactionKeys(keys: Partial<Record<CorrelationKey, string[]>>): string {
+  return CORRELATION_KEYS
+    .filter(key => keys[key]?.length)
+    .map(key => `${CORRELATION_KEY_LABELS[key]} ${keys[key].join('/')}`)
+    .join(' · ');
+}
+
+// Index of the record containing each physical line
+function buildLineIndex(records: LogRecord[]): Map<number, number> {
+  const index = new Map<number, number>();
+  records.forEach((record, recordIndex) => {
+    for (let lineNumber = record.lineNumber; lineNumber <= record.endLineNumber; lineNumber++) {
+      index.set(lineNumber, recordIndex);
+    }
+  });
+  return index;
+}
+
+/**
+ * Groups parsed log records into transactions.
+ * Each timeline is ordered by timestamp, so a hop logged late is placed where it happened and
+ * latencies are never negative; hops without a timestamp keep their place after the previous hop.
+ * Records sharing any enabled identifier value end up in the same transaction, so an
+ * authorisation keyed by STAN and RRN links to a capture that only carries the RRN.
+ * A shared STAN only links records within a few minutes of each other whose RRNs, when
+ * both carry one, agree.
+ * Identifiers come from parsed fields, decoded ISO 8583 fields 11 and 37, ISO 20022
+ * end-to-end IDs and labelled values in the message text.
+ * @param content - The log content the records were parsed from.
+ * @param parsedLog - Result of parseEpsLog for the same content.
+ * @param keys - Identifiers to correlate on.
+ * @returns Transactions with more than one hop, in order of first appearance.
+ */
+export function correlateTransactions(content: string, parsedLog: ParsedLog, keys: CorrelationKey[] = CORRELATION_KEYS): Transaction[] {
+  const records = parsedLog.records;
+  const enabled = new Set(keys);
+  const recordKeys: Partial<Record<CorrelationKey, Set<string>>>[] = records.map(() => ({}));
+  const lineIndex = buildLineIndex(records);
+
+  const addKey = (recordIndex: number | undefined, key: CorrelationKey, value: string | undefined) => {
+    const trimmed = value?.trim();
+    if (recordIndex === undefined || !enabled.has(key) || !trimmed || IGNORED_VALUES.test(trimmed)) return;
+    const values = recordKeys[recordIndex][key] || (recordKeys[recordIndex][key] = new Set());
+    values.add(trimmed);
+  };
+
+  records.forEach((record, recordIndex) => {
+    addKey(recordIndex, 'requestId', record.requestId);
+    Object.entries(record.fields).forEach(([field, value]) => {
+      (Object.keys(KEY_FIELDS) as (keyof typeof KEY_FIELDS)[]).forEach(key => {
+        if (KEY_FIELDS[key].test(field)) addKey(recordIndex, key, value);
+      });
+    });
+    (Object.keys(KEY_TEXT_PATTERNS) as CorrelationKey[]).forEach(key => {
+      for (const match of record.raw.matchAll(KEY_TEXT_PATTERNS[key])) addKey(recordIndex, key, match[1]);
+    });
+  });
+
+  if (enabled.has('stan') || enabled.has('rrn')) {
+    findIso8583Messages(content).forEach(message => {
+      const recordIndex = lineIndex.get(message.lineNumber);
+      addKey(recordIndex, 'stan', message.fields.find(field => field.id === 11)?.value);
+      addKey(recordIndex, 'rrn', message.fields.find(field => field.id === 37)?.value);
+    });
+  }
+  if (enabled.has('endToEndId')) {
+    findIso20022Messages(content).forEach(message => {
+      const recordIndex = lineIndex.get(message.lineNumber);
+      message.transactions.forEach(tx => {
+        addKey(recordIndex, 'endToEndId', tx.endToEndId);
+        addKey(recordIndex, 'endToEndId', tx.originalEndToEndId);
+      });
+    });
+  }
+
+  // Union-find over records
+  const parent = records.map((_, recordIndex) => recordIndex);
+  const find = (recordIndex: number): number => {
+    while (parent[recordIndex] !== recordIndex) {
+      parent[recordIndex] = parent[parent[recordIndex]];
+      recordIndex = parent[recordIndex];
+    }
+    return recordIndex;
+  };
+  const times = records.map(record => parseLogTimestamp(record.timestamp));
+  // Different RRNs on both records mean a reused STAN, not the same transaction
+  const canLinkByStan = (a: number, b: number): boolean => {
+    const rrnsA = recordKeys[a].rrn;
+    const rrnsB = recordKeys[b].rrn;
+    if (rrnsA && rrnsB && ![...rrnsA].some(rrn => rrnsB.has(rrn))) return false;
+    return times[a] === undefined || times[b] === undefined || Math.abs(times[b] - times[a]) <= STAN_LINK_WINDOW_MS;
+  };
+  const firstRecordByValue = new Map<string, number>();
+  const lastRecordByStan = new Map<string, number>();
+  recordKeys.forEach((found, recordIndex) => {
+    (Object.entries(found) as [CorrelationKey, Set<string>][]).forEach(([key, values]) => values.forEach(value => {
+      if (key === 'stan') {
+        const previous = lastRecordByStan.get(value);
+        if (previous !== undefined && canLinkByStan(previous, recordIndex)) parent[find(recordIndex)] = find(previous);
+        lastRecordByStan.set(value, recordIndex);
+        return;
+      }
+      const scopedValue = `${LINK_SCOPES[key]}:${value}`;
+      const first = firstRecordByValue.get(scopedValue);
+      if (first === undefined) {
+        firstRecordByValue.set(scopedValue, recordIndex);
+      } else {
+        parent[find(recordIndex)] = find(first);
+      }
+    }));
+  });
+
+  const groups = new Map<number, number[]>();
+  recordKeys.forEach((found, recordIndex) => {
+    if (Object.keys(found).length === 0) return;
+    const root = find(recordIndex);
+    const members = groups.get(root) || [];
+    members.push(recordIndex);
+    groups.set(root, members);
+  });
+
+  // Hops without a timestamp sort as if logged at the time of the previous timestamped hop
+  const sortTimes = new Map<number, number>();
+  const byTime = (members: number[]): number[] => {
+    let previous = -Infinity;
+    members.forEach(recordIndex => {
+      previous = times[recordIndex] ?? previous;
+      sortTimes.set(recordIndex, previous);
+    });
+    return [...members].sort((a, b) => sortTimes.get(a) - sortTimes.get(b) || a - b);
+  };
+
+  const transactions: Transaction[] = [];
+  [...groups.values()]
+    .filter(members => members.length > 1)
+    .sort((a, b) => a[0] - b[0])
+    .map(byTime)
+    .forEach((members, index) => {
+      const transactionKeys: Partial<Record<CorrelationKey, Set<string>>> = {};
+      let previousTime: number | undefined;
+      let firstTime: number | undefined;
+      let lastTime: number | undefined;
+      const hops: TransactionHop[] = members.map(recordIndex => {
+        const record = records[recordIndex];
+        const found = recordKeys[recordIndex];
+        Object.entries(found).forEach(([key, values]) => {
+          const merged = transactionKeys[key as CorrelationKey] || (transactionKeys[key as CorrelationKey] = new Set());
+          values.forEach(value => merged.add(value));
+        });
+        const time = times[recordIndex];
+        const latencyMs = time !== undefined && previousTime !== undefined ? time - previousTime : undefined;
+        if (time !== undefined) {
+          previousTime = time;
+          firstTime = firstTime ?? time;
+          lastTime = time;
+        }
+        return {
+          lineNumber: record.lineNumber,
+          endLineNumber: record.endLineNumber,
+          timestamp: record.timestamp,
+          level: record.level,
+          service: record.service,
+          messageType: record.messageType,
+          message: record.message,
+          keys: Object.fromEntries(Object.entries(found).map(([key, values]) => [key, [...values]])),
+          latencyMs
+        };
+      });
+      transactions.push({
+        id: `TXN-${index + 1}`,
+        keys: Object.fromEntries(Object.entries(transactionKeys).map(([key, values]) => [key, [...values]])),
+        hops,
+        firstLine: Math.min(...hops.map(hop => hop.lineNumber)),
+        lastLine: Math.max(...hops.map(hop => hop.endLineNumber)),
+        durationMs: firstTime !== undefined && lastTime !== firstTime ? lastTime - firstTime : undefined
+      });
+    });
+
+  console.log('correlation: Transactions correlated', {
+    recordCount: records.length,
+    keyedRecords: recordKeys.filter(found => Object.keys(found).length > 0).length,
+    transactionCount: transactions.length,
+    keys
+  });
+  return transactions;
+}
+
+/**
+ * Extracts the lines of one transaction's hops so a test case can be validated against it alone.
+ * Non-consecutive hops are separated by a marker naming the original line range that was left out.
+ * @param content - The full log content.
+ */
+export function buildTransactionLogContent(content: string, transaction: Transaction): string {
+  const lines = content.split(/\r?\n/);
+  const parts: string[] = [];
+  let previousEnd = 0;
+  // Hops are in time order; the extract keeps the log's line order
+  [...transaction.hops].sort((a, b) => a.lineNumber - b.lineNumber).forEach(hop => {
+    if (previousEnd > 0 && hop.lineNumber > previousEnd + 1) {
+      const skipped = hop.lineNumber - previousEnd - 1;
+      parts.push(skipped === 1
+        ? `... (line ${previousEnd + 1} belongs to other transactions) ...`
+        : `... (lines ${previousEnd + 1}-${hop.lineNumber - 1} belong to other transactions) ...`);
+    }
+    parts.push(...lines.slice(hop.lineNumber - 1, hop.endLineNumber));
+    previousEnd = hop.endLineNumber;
+  });
+  return parts.join('\n');
+}
+
+/**
+ * Summarises a transaction for storing with the run it was validated in.
+ */
+export function toTransactionSelection(transaction: Transaction): TransactionSelection {
+  return {
+    id: transaction.id,
+    label: describeTransactionKeys(transaction.keys),
+    keys: transaction.keys,
+    lineNumbers: transaction.hops.map(hop => hop.lineNumber).sort((a, b) => a - b),
+    hopCount: transaction.hops.length
+  };
+}
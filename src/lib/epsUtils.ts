@@ -2,6 +2,13 @@
  * Utility functions for EPS-specific tasks in the EPS Agent project.
  * Handles file reading, prompt construction, and content truncation for validation.
  */
+import { describeIso20022Messages, findIso20022Messages } from '@/lib/iso20022';
+import { describeIso8583Messages, findIso8583Messages } from '@/lib/iso8583';
+import { describeParsedLog, parseEpsLog } from '@/lib/logParser';
+import { renderPromptTemplate, resolvePromptTemplate } from '@/lib/promptTemplates';
+import { redactSensitiveData, RedactionResult } from '@/lib/redaction';
+import { getSettings } from '@/lib/settings';
+import { PromptTemplateRef } from '@/types/promptTemplate';
 
 /**
  * Reads a file's content as text using FileReader.
@@ -14,10 +21,10 @@ export async function readFileAsText(file: File): Promise<string> {
     const reader = new FileReader();
     reader.onload = (e) => {
       const content = e.target?.result as string;
+      // No content preview: the file may hold unredacted cardholder data
       console.log('epsUtils: File content read', { 
         fileName: file.name, 
-        contentLength: content.length,
-        contentPreview: content.substring(0, 100) + (content.length > 100 ? '...' : '')
+        contentLength: content.length
       });
       resolve(content);
     };
@@ -30,24 +37,157 @@ export async function readFileAsText(file: File): Promise<string> {
 }
 
 /**
- * Constructs the prompt for EPS log validation with Ollama.
- * @param epsLogContent - Raw EPS log content as a string.
- * @param testCaseContent - Test case content as a string (e.g., JSON or plain text).
- * @returns The formatted prompt string for the Ollama API.
+ * Reads a log file and redacts PANs, track data, PIN blocks, CVVs and custom patterns
+ * before the content is displayed, logged or sent anywhere.
+ * @param file - The file to read.
+ * @param customPatterns - Extra patterns to mask (defaults to the configured redaction patterns).
+ * @returns The redacted content and a summary of what was masked.
+ */
+export async function readRedactedFile(
+  file: File,
+  customPatterns: string[] = getSettings().redactionPatterns
+): Promise<RedactionResult> {
+  const content = await readFileAsText(file);
+  return redactSensitiveData(content, customPatterns);
+}
+
+/**
+ * Builds the structured overview of a log included in validation prompts:
+ * parser statistics plus the decoded view of any ISO 8583 and ISO 20022 messages.
+ * @param epsLogContent - Raw EPS log content (or one chunk of it).
+ * @param lineOffset - Added to line numbers when the content is a chunk of a larger log.
+ */
+export function buildLogOverview(epsLogContent: string, lineOffset: number = 0): string {
+  const sections = [describeParsedLog(parseEpsLog(epsLogContent))];
+  const isoMessages = findIso8583Messages(epsLogContent).map(message => ({
+    ...message,
+    lineNumber: message.lineNumber + lineOffset,
+    endLineNumber: message.endLineNumber + lineOffset
+  }));
+  if (isoMessages.length > 0) {
+    sections.push(`Decoded ISO 8583 messages (use these field values instead of reading bitmaps yourself):\n${describeIso8583Messages(isoMessages)}`);
+  }
+  const iso20022Messages = findIso20022Messages(epsLogContent).map(message => ({
+    ...message,
+    lineNumber: message.lineNumber + lineOffset,
+    endLineNumber: message.endLineNumber + lineOffset
+  }));
+  if (iso20022Messages.length > 0) {
+    sections.push(`Extracted ISO 20022 messages (identifiers, amounts and status reason codes):\n${describeIso20022Messages(iso20022Messages)}`);
+  }
+  return sections.join('\n');
+}
+
+/**
+ * Output instructions for the free-text validation format.
  */
-export function buildEpsValidationPrompt(epsLogContent: string, testCaseContent: string): string {
-  const prompt = `System: You are an EPS log validator. Parse and analyze the raw EPS log content: [${epsLogContent}]. Validate it against this test case: [${testCaseContent}]. For each test case step, verify the action in the log and cite specific log entries (e.g., timestamps, request IDs, service responses) as evidence. Output in this format: 
+const TEXT_OUTPUT_FORMAT = `Output in this format: 
 Overall Result: PASS or FAIL
 Reasoning and Evidence:
 - Step 1: [Action and verification details with specific log excerpts]
 - Step 2: [Details]
-...
-If the log or test case is malformed, note the issue but attempt validation. If no relevant log entries are found, indicate this explicitly.\nUser: Validate the test case against the EPS log now.`;
+...`;
+
+/**
+ * Output instructions for the structured JSON format (see VALIDATION_RESULT_JSON_SCHEMA).
+ */
+const JSON_OUTPUT_FORMAT = `Respond with a single JSON object and nothing else, in this shape:
+{"overallResult": "PASS" or "FAIL", "reasoningAndEvidence": "overall summary", "steps": [{"stepNo": 1, "expectedAction": "what the step requires", "verdict": "PASS" or "FAIL", "citedLogLines": ["exact log lines copied from the log"], "reasoning": "why the evidence satisfies or violates the step"}]}
+Include one entry in "steps" for every test case step. The overall result is FAIL if any step fails.
+Cited lines and identifiers are checked against the log; a step whose evidence is not in the log is marked unverified.`;
+
+/**
+ * Constructs the prompt for EPS log validation from a prompt template (see promptTemplates.ts).
+ * @param epsLogContent - Raw EPS log content as a string.
+ * @param testCaseContent - Test case content as a string (e.g., JSON or plain text).
+ * @param outputFormat - 'text' for the "Overall Result:" format, 'json' for structured output.
+ * @param logOverview - Optional summary of the parsed log (see describeParsedLog).
+ * @param fewShotExamples - Optional worked examples selected from the few-shot store (see formatFewShotExamples).
+ * @param promptTemplate - Template version to render; defaults to the active template.
+ * @returns The formatted prompt string for the model.
+ */
+export function buildEpsValidationPrompt(
+  epsLogContent: string,
+  testCaseContent: string,
+  outputFormat: 'text' | 'json' = 'text',
+  logOverview?: string,
+  fewShotExamples?: string,
+  promptTemplate?: PromptTemplateRef
+): string {
+  const formatInstructions = outputFormat === 'json' ? JSON_OUTPUT_FORMAT : TEXT_OUTPUT_FORMAT;
+  const { template, version } = resolvePromptTemplate(promptTemplate);
+  const prompt = renderPromptTemplate(version, {
+    log: epsLogContent,
+    testCase: testCaseContent,
+    logOverview: logOverview || 'none',
+    formatInstructions,
+    fewShotExamples: fewShotExamples || ''
+  });
   console.log('epsUtils: Built EPS validation prompt', {
     logLength: epsLogContent.length,
     testCaseLength: testCaseContent.length,
-    promptLength: prompt.length,
-    promptPreview: prompt.substring(0, 200) + (prompt.length > 200 ? '...' : '')
+    outputFormat,
+    hasLogOverview: !!logOverview,
+    hasFewShotExamples: !!fewShotExamples,
+    promptTemplate: template.id,
+    promptTemplateVersion: version.version,
+    promptLength: prompt.length
+  });
+  return prompt;
+}
+
+/**
+ * Output instructions for one chunk of a log validated in chunks (see CHUNK_FINDINGS_JSON_SCHEMA).
+ */
+function buildChunkOutputFormat(chunkNumber: number, totalChunks: number, startLine: number, endLine: number): string {
+  return `The EPS log is too large to read at once, so the log given is part ${chunkNumber} of ${totalChunks} (log lines ${startLine}-${endLine}). For each test case step, decide whether this part of the log contains evidence that the step succeeded (PASS), evidence that it failed or behaved differently than expected (FAIL), or no relevant entries (NO_EVIDENCE). Other parts of the log are checked separately, so use NO_EVIDENCE rather than FAIL when the step's entries are simply absent here. Cite the exact log lines you rely on.
+Respond with a single JSON object and nothing else, in this shape:
+{"findings": [{"stepNo": 1, "expectedAction": "what the step requires", "verdict": "PASS", "FAIL" or "NO_EVIDENCE", "citedLogLines": ["exact log lines copied from this part"], "reasoning": "short explanation"}]}
+Include one entry for every test case step.`;
+}
+
+/**
+ * Constructs the map-step prompt for chunked validation of a log larger than the model context.
+ * The chunk is rendered through the same prompt template as a whole log, with output instructions
+ * asking which test steps the chunk provides evidence for.
+ * @param chunkContent - One chunk of the EPS log.
+ * @param testCaseContent - Full test case content.
+ * @param chunkNumber - 1-based chunk number.
+ * @param totalChunks - Number of chunks the log was split into.
+ * @param startLine - First log line number in the chunk.
+ * @param endLine - Last log line number in the chunk.
+ * @param logOverview - Optional structured overview of the chunk (see buildLogOverview).
+ * @param fewShotExamples - Optional worked examples selected from the few-shot store (see formatFewShotExamples).
+ * @param promptTemplate - Template version to render; defaults to the active template.
+ * @returns The prompt asking which test steps the chunk provides evidence for.
+ */
+export function buildChunkEvidencePrompt(
+  chunkContent: string,
+  testCaseContent: string,
+  chunkNumber: number,
+  totalChunks: number,
+  startLine: number,
+  endLine: number,
+  logOverview?: string,
+  fewShotExamples?: string,
+  promptTemplate?: PromptTemplateRef
+): string {
+  const { template, version } = resolvePromptTemplate(promptTemplate);
+  const prompt = renderPromptTemplate(version, {
+    log: chunkContent,
+    testCase: testCaseContent,
+    logOverview: logOverview || 'none',
+    formatInstructions: buildChunkOutputFormat(chunkNumber, totalChunks, startLine, endLine),
+    fewShotExamples: fewShotExamples || ''
+  }, 'Report the evidence in this part of the log now.');
+  console.log('epsUtils: Built chunk evidence prompt', {
+    chunkNumber,
+    totalChunks,
+    chunkLength: chunkContent.length,
+    hasFewShotExamples: !!fewShotExamples,
+    promptTemplate: template.id,
+    promptTemplateVersion: version.version,
+    promptLength: prompt.length
   });
   return prompt;
 }
@@ -66,8 +206,7 @@ export function truncateContent(content: string, maxLength: number = 50000): str
   console.warn('epsUtils: Content truncated', {
     originalLength: content.length,
     maxLength,
-    truncatedLength: truncated.length,
-    truncatedPreview: truncated.substring(0, 100) + (truncated.length > 100 ? '...' : '')
+    truncatedLength: truncated.length
   });
   return truncated;
 }
\ No newline at end of file
@@ -0,0 +1,156 @@
+/**
+ * Evidence verification for structured validation results.
+ * Matches the log excerpts, quotes and identifiers (timestamps, STAN, RRN, request and
+ * end-to-end IDs) the model cites back to line numbers in the log it was given.
+ * Citations that cannot be found are treated as hallucinated.
+ */
+import { CitationCheck, StepValidation, ValidationResult } from '@/types/chat';
+
+// Shorter excerpts match almost any log line and prove nothing
+const MIN_EXCERPT_LENGTH = 4;
+
+const TIMESTAMP_PATTERN = /\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?/gi;
+const TIME_PATTERN = /\b\d{2}:\d{2}:\d{2}(?:[.,]\d+)?\b/g;
+const UUID_PATTERN = /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi;
+// Identifier value following a known label, e.g. "STAN=123456" or "RRN is 000111222333"
+const LABELLED_ID_PATTERN = /\b(?:STAN|RRN|UETR|InstrId|TxId|MsgId|(?:request|correlation|trace|transaction|txn|message|e2e|end[ _-]?to[ _-]?end)[ _-]?id)\b\s*(?:[=:#]|is\b|of\b)?\s*["'`]?([A-Za-z0-9][\w.:-]{3,})/gi;
+const QUOTE_PATTERN = /"([^"\n]+)"|“([^”\n]+)”|`([^`\n]+)`/g;
+
+/**
+ * Lowercases and collapses whitespace so excerpts match regardless of spacing;
+ * ISO 8601 timestamps are compared with a space instead of the "T" separator.
+ */
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/(\d{4}-\d{2}-\d{2})t(?=\d{2}:)/g, '$1 ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Strips line-number prefixes and wrapping quotes the model adds around excerpts
+function cleanExcerpt(excerpt: string): string {
+  return excerpt
+    .trim()
+    .replace(/^(?:line\s*\d+\s*[:-]|l\d+\s*[:-]|\[\s*line\s*\d+\s*\])\s*/i, '')
+    .replace(/^["'`“”]+|["'`“”]+$/g, '')
+    .trim();
+}
+
+class LogIndex {
+  private readonly lines: string[];
+
+  constructor(logContent: string) {
+    this.lines = logContent.split(/\r?\n/).map(normalize);
+  }
+
+  // 1-based lines containing every fragment
+  find(fragments: string[]): number[] {
+    const lineNumbers: number[] = [];
+    this.lines.forEach((line, index) => {
+      if (fragments.every(fragment => line.includes(fragment))) lineNumbers.push(index + 1);
+    });
+    return lineNumbers;
+  }
+}
+
+/**
+ * Checks one excerpt. Fragments separated by an ellipsis must appear on the same line;
+ * each line of a multi-line excerpt must be found for the excerpt to count.
+ * @returns Null when the excerpt is too short to check.
+ */
+function checkExcerpt(excerpt: string, log: LogIndex): CitationCheck | null {
+  const excerptLines = excerpt.split(/\r?\n/)
+    .map(line => cleanExcerpt(line).split(/\.{3}|…/).map(normalize).filter(fragment => fragment.length >= MIN_EXCERPT_LENGTH))
+    .filter(fragments => fragments.length > 0);
+  if (excerptLines.length === 0) return null;
+
+  const matches = excerptLines.map(fragments => log.find(fragments));
+  const lineNumbers = matches.every(found => found.length > 0) ? [...new Set(matches.flat())].sort((a, b) => a - b) : [];
+  return { text: excerpt.trim(), kind: 'excerpt', lineNumbers };
+}
+
+/**
+ * Finds identifiers in free text: timestamps, times of day, UUIDs and labelled IDs.
+ */
+function extractIdentifiers(text: string): string[] {
+  const identifiers: string[] = [];
+  const timestamps: string[] = text.match(TIMESTAMP_PATTERN) || [];
+  identifiers.push(...timestamps);
+  // Times already covered by a full timestamp are not checked twice
+  const withoutTimestamps = timestamps.reduce((rest, timestamp) => rest.split(timestamp).join(' '), text);
+  identifiers.push(...(withoutTimestamps.match(TIME_PATTERN) || []));
+  identifiers.push(...(text.match(UUID_PATTERN) || []));
+  for (const match of text.matchAll(LABELLED_ID_PATTERN)) {
+    const value = match[1].replace(/[.:-]+$/, '');
+    if (/\d/.test(value)) identifiers.push(value);
+  }
+  return identifiers;
+}
+
+/**
+ * Checks the quotes and identifiers in a piece of reasoning. Quotes and identifiers that
+ * come from the test case are expectations rather than evidence and are skipped.
+ */
+function checkReasoning(text: string, log: LogIndex, testCase: string): CitationCheck[] {
+  const checks: CitationCheck[] = [];
+  for (const match of text.matchAll(QUOTE_PATTERN)) {
+    const quote = match[1] || match[2] || match[3];
+    if (testCase.includes(normalize(quote))) continue;
+    const check = checkExcerpt(quote, log);
+    if (check) checks.push(check);
+  }
+  for (const identifier of extractIdentifiers(text)) {
+    const normalized = normalize(identifier);
+    if (testCase.includes(normalized)) continue;
+    checks.push({ text: identifier, kind: 'identifier', lineNumbers: log.find([normalized]) });
+  }
+  return checks;
+}
+
+function dedupeCitations(citations: CitationCheck[]): CitationCheck[] {
+  const seen = new Set<string>();
+  return citations.filter(citation => {
+    const key = `${citation.kind}:${normalize(citation.text)}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * A step is unverified when none of its citations exist in the log, or when it passes
+ * without citing anything. A failing step without citations stands: missing evidence is its reason.
+ */
+function verifyStep(step: StepValidation, log: LogIndex, testCase: string): StepValidation {
+  const citations = dedupeCitations([
+    ...step.citedLogLines.map(excerpt => checkExcerpt(excerpt, log)).filter(Boolean),
+    ...checkReasoning(step.reasoning, log, testCase)
+  ]);
+  const unverified = citations.length > 0
+    ? citations.every(citation => citation.lineNumbers.length === 0)
+    : step.verdict === 'PASS';
+  return { ...step, citations, unverified };
+}
+
+/**
+ * Checks every citation in a validation result against the log it was validated against.
+ * @param result - Parsed model output.
+ * @param logContent - The (redacted) log the model was given.
+ * @param testCaseContent - The test case, whose own values are not treated as log evidence.
+ * @returns A copy of the result with citation checks and unverified steps marked.
+ */
+export function verifyEvidence(result: ValidationResult, logContent: string, testCaseContent: string): ValidationResult {
+  const log = new LogIndex(logContent);
+  const testCase = normalize(testCaseContent);
+  const steps = result.steps.map(step => verifyStep(step, log, testCase));
+  const citations = dedupeCitations(checkReasoning(result.reasoningAndEvidence, log, testCase));
+
+  const hallucinated = [...steps.flatMap(step => step.citations), ...citations].filter(citation => citation.lineNumbers.length === 0);
+  console.log('EvidenceCheck: Citations verified', {
+    citationCount: steps.reduce((count, step) => count + step.citations.length, citations.length),
+    hallucinatedCount: hallucinated.length,
+    unverifiedSteps: steps.filter(step => step.unverified).map(step => step.stepNo)
+  });
+  return { ...result, steps, citations };
+}
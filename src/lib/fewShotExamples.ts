@@ -0,0 +1,259 @@
+/**
+ * Few-shot example store for the EPS Agent.
+ * Keeps curated (test step, log excerpt, correct verdict, justification) examples in local
+ * storage, drafts them from the steps of past runs for review, and picks the examples most
+ * similar to the step being validated for the prompt, within a character budget.
+ */
+import { getRunTasks } from '@/lib/historyStore';
+import { redactSensitiveData } from '@/lib/redaction';
+import { getSettings } from '@/lib/settings';
+import { Task } from '@/types/chat';
+import { FewShotExample, FewShotExampleDraft, SelectedFewShotExample } from '@/types/fewShot';
+import { ValidationRun } from '@/types/history';
+
+const STORAGE_KEY = 'eps-agent:few-shot-examples';
+
+// Cited lines kept when an example is drafted from a run step
+const MAX_EXCERPT_LINES = 8;
+
+// Examples scoring below this share too little wording with the step or log
+const MIN_SIMILARITY = 0.1;
+
+// Dates and times differ in every log and would make unrelated records look alike
+const TIMESTAMP_PATTERN = /\d{4}-\d{2}-\d{2}(?:[T\s]\d{2}:\d{2}(?::\d{2}(?:[.,]\d+)?)?)?|\d{2}:\d{2}:\d{2}(?:[.,]\d+)?/g;
+
+// The test step decides relevance; the log excerpt breaks ties between similar steps
+const STEP_WEIGHT = 0.7;
+const LOG_WEIGHT = 0.3;
+
+type FewShotExamplesListener = (examples: FewShotExample[]) => void;
+
+const listeners = new Set<FewShotExamplesListener>();
+let currentExamples: FewShotExample[] | null = null;
+
+function hasStorage(): boolean {
+  return typeof localStorage !== 'undefined';
+}
+
+function persist(examples: FewShotExample[]): FewShotExample[] {
+  currentExamples = examples;
+  if (hasStorage()) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(examples));
+  }
+  listeners.forEach(listener => listener(examples));
+  return examples;
+}
+
+// Excerpts may be edited by hand, so they are redacted again before they are stored
+function normaliseDraft(draft: FewShotExampleDraft): FewShotExampleDraft {
+  return {
+    ...draft,
+    testStep: draft.testStep.trim(),
+    logExcerpt: redactSensitiveData(draft.logExcerpt.trim(), getSettings().redactionPatterns).content,
+    justification: draft.justification.trim()
+  };
+}
+
+/**
+ * Returns every stored example, oldest first, reading local storage on first access.
+ * Corrupt stored examples are ignored.
+ */
+export function getFewShotExamples(): FewShotExample[] {
+  if (currentExamples) return currentExamples;
+
+  let stored: FewShotExample[] = [];
+  if (hasStorage()) {
+    try {
+      stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    } catch (error) {
+      console.warn('fewShotExamples: Ignoring corrupt stored examples', error);
+    }
+  }
+  currentExamples = stored.map(example => ({ ...example, createdAt: new Date(example.createdAt) }));
+  return currentExamples;
+}
+
+/**
+ * Adds an example to the store.
+ * @throws Error when the test step or log excerpt is empty.
+ */
+export function addFewShotExample(draft: FewShotExampleDraft): FewShotExample {
+  const normalised = normaliseDraft(draft);
+  if (!normalised.testStep || !normalised.logExcerpt) throw new Error('An example needs a test step and a log excerpt');
+  const example: FewShotExample = {
+    ...normalised,
+    id: `example-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    createdAt: new Date()
+  };
+  persist([...getFewShotExamples(), example]);
+  console.log('fewShotExamples: Example added', { exampleId: example.id, verdict: example.verdict, runId: example.source?.runId });
+  return example;
+}
+
+/**
+ * Replaces the content of a stored example, keeping its ID, source and creation time.
+ * @throws Error when the test step or log excerpt is empty.
+ */
+export function updateFewShotExample(id: string, draft: FewShotExampleDraft): FewShotExample {
+  const normalised = normaliseDraft(draft);
+  if (!normalised.testStep || !normalised.logExcerpt) throw new Error('An example needs a test step and a log excerpt');
+  const examples = getFewShotExamples();
+  const existing = examples.find(example => example.id === id);
+  if (!existing) throw new Error(`Example ${id} does not exist`);
+  const updated: FewShotExample = { ...existing, ...normalised, source: existing.source };
+  persist(examples.map(example => (example.id === id ? updated : example)));
+  console.log('fewShotExamples: Example updated', { exampleId: id, verdict: updated.verdict });
+  return updated;
+}
+
+/**
+ * Removes an example from the store.
+ */
+export function deleteFewShotExample(id: string): void {
+  persist(getFewShotExamples().filter(example => example.id !== id));
+  console.log('fewShotExamples: Example deleted', { exampleId: id });
+}
+
+/**
+ * Registers a listener for example changes.
+ * @returns A function that removes the listener.
+ */
+export function subscribeFewShotExamples(listener: FewShotExamplesListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Drafts one example per validated step of a run, for a reviewer to correct and promote.
+ * The excerpt is the log lines the step's checked citations were found on, falling back to
+ * the excerpts the model quoted; the verdict and justification are the model's.
+ */
+export function buildFewShotExampleDrafts(run: ValidationRun): FewShotExampleDraft[] {
+  const logLines = run.epsLogContent.split(/\r?\n/);
+  return getRunTasks(run).flatMap(task => (task.validationResult?.steps || []).map(step => {
+    const lineNumbers = [...new Set((step.citations || []).flatMap(citation => citation.lineNumbers))].sort((a, b) => a - b);
+    const excerpt = lineNumbers.length > 0
+      ? lineNumbers.slice(0, MAX_EXCERPT_LINES).map(lineNumber => logLines[lineNumber - 1]).filter(line => line !== undefined)
+      : step.citedLogLines.slice(0, MAX_EXCERPT_LINES);
+    return {
+      testStep: task.step
+        ? [task.step.action, task.step.expectedResult && `Expected result: ${task.step.expectedResult}`].filter(Boolean).join('\n')
+        : step.expectedAction || task.description,
+      logExcerpt: excerpt.join('\n'),
+      verdict: step.verdict,
+      justification: step.reasoning,
+      source: { runId: run.id, stepNo: task.step?.stepNo ?? step.stepNo, fileName: run.fileName }
+    };
+  }));
+}
+
+/**
+ * Describes the examples a run's prompts carried, e.g. "3 examples in 2 of 4 steps".
+ * Undefined when no task recorded its examples (runs saved before they were recorded).
+ */
+export function describeTaskFewShotExamples(tasks: Task[]): string | undefined {
+  const recorded = tasks.filter(task => task.fewShotExampleIds);
+  if (recorded.length === 0) return undefined;
+  const withExamples = recorded.filter(task => task.fewShotExampleIds.length > 0);
+  if (withExamples.length === 0) return 'None injected';
+  const exampleCount = new Set(withExamples.flatMap(task => task.fewShotExampleIds)).size;
+  return `${exampleCount} example(s) in ${withExamples.length} of ${tasks.length} step(s)`;
+}
+
+// Lowercased words; timestamps and long digit runs (amounts, STANs) are dropped so only the
+// wording, message types and response codes count
+function tokenize(text: string): Set<string> {
+  return new Set((text.toLowerCase().replace(TIMESTAMP_PATTERN, ' ').match(/[a-z0-9_.]+/g) || [])
+    .map(token => token.replace(/^\.+|\.+$/g, ''))
+    .filter(token => token.length >= 2 && !/\d{5,}/.test(token)));
+}
+
+function countShared(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  a.forEach(token => {
+    if (b.has(token)) shared++;
+  });
+  return shared;
+}
+
+// Similarity (0-1): word overlap (Jaccard) of the test steps, plus the share of the
+// example's log words found in the log. Examples for an unrelated step score 0 whatever their log
+function scoreExample(example: FewShotExample, stepTokens: Set<string>, logTokens: Set<string>): number {
+  const exampleStep = tokenize(example.testStep);
+  const sharedStep = countShared(exampleStep, stepTokens);
+  if (sharedStep === 0) return 0;
+  const union = exampleStep.size + stepTokens.size - sharedStep;
+  const exampleLog = tokenize(example.logExcerpt);
+  const stepScore = union > 0 ? sharedStep / union : 0;
+  const logScore = exampleLog.size > 0 ? countShared(exampleLog, logTokens) / exampleLog.size : 0;
+  return STEP_WEIGHT * stepScore + LOG_WEIGHT * logScore;
+}
+
+/**
+ * Formats one example as it appears in the prompt.
+ */
+export function formatFewShotExample(example: FewShotExample, index: number): string {
+  return [
+    `Example ${index + 1}:`,
+    `Test step: ${example.testStep}`,
+    'Log excerpt:',
+    example.logExcerpt,
+    `Correct verdict: ${example.verdict}`,
+    `Justification: ${example.justification}`
+  ].join('\n');
+}
+
+/**
+ * Formats selected examples for the {{fewShotExamples}} placeholder; empty when none were selected.
+ */
+export function formatFewShotExamples(selected: SelectedFewShotExample[]): string {
+  return selected.map(({ example }, index) => formatFewShotExample(example, index)).join('\n\n');
+}
+
+/**
+ * Picks the examples most similar to the step being validated.
+ * Examples are taken in order of similarity while their formatted text fits in `maxLength`;
+ * an example too long for the remaining budget is skipped in favour of shorter ones.
+ * @param examples - Candidate examples.
+ * @param testStep - The step (or whole test case) being validated.
+ * @param log - The log content sent with the prompt.
+ * @param maxExamples - Maximum number of examples; 0 selects none.
+ * @param maxLength - Character budget for the formatted examples.
+ */
+export function selectFewShotExamples(
+  examples: FewShotExample[],
+  testStep: string,
+  log: string,
+  maxExamples: number,
+  maxLength: number
+): SelectedFewShotExample[] {
+  if (maxExamples <= 0 || maxLength <= 0 || examples.length === 0) return [];
+
+  const stepTokens = tokenize(testStep);
+  const logTokens = tokenize(log);
+  const ranked = examples
+    .map(example => ({ example, score: scoreExample(example, stepTokens, logTokens) }))
+    .filter(candidate => candidate.score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score);
+
+  const selected: SelectedFewShotExample[] = [];
+  let remaining = maxLength;
+  for (const candidate of ranked) {
+    if (selected.length >= maxExamples) break;
+    // Includes the blank line that separates examples
+    const length = formatFewShotExample(candidate.example, selected.length).length + 2;
+    if (length > remaining) continue;
+    selected.push(candidate);
+    remaining -= length;
+  }
+
+  console.log('fewShotExamples: Examples selected', {
+    candidates: examples.length,
+    similar: ranked.length,
+    selected: selected.map(({ example, score }) => ({ exampleId: example.id, score: Number(score.toFixed(2)) })),
+    budget: maxLength
+  });
+  return selected;
+}
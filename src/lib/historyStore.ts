@@ -0,0 +1,272 @@
+/**
+ * Persistent history for the EPS Agent.
+ * Stores validation runs and chat sessions in IndexedDB so they survive a browser refresh.
+ */
+import { EpsConfirmationData, Task } from '@/types/chat';
+import { ChatSession, RunFilter, RunVerdict, ValidationRun } from '@/types/history';
+import { sha256Hex } from '@/lib/hash';
+import { findTaskPromptTemplate } from '@/lib/promptTemplates';
+import { redactSensitiveData } from '@/lib/redaction';
+import { getSettings } from '@/lib/settings';
+import { combineTaskVerdicts } from '@/lib/validationResult';
+
+const DB_NAME = 'eps-agent';
+const DB_VERSION = 1;
+const RUNS_STORE = 'runs';
+const SESSIONS_STORE = 'sessions';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Opens the history database, creating or upgrading its object stores on first use.
+ * @throws Error if IndexedDB is not available (e.g. private browsing in some browsers).
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (databasePromise) return databasePromise;
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this browser'));
+  }
+
+  databasePromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      console.log('historyStore: Upgrading database', { version: DB_VERSION });
+      if (!db.objectStoreNames.contains(RUNS_STORE)) {
+        const runs = db.createObjectStore(RUNS_STORE, { keyPath: 'id' });
+        runs.createIndex('startedAt', 'startedAt');
+      }
+      if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+        const sessions = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        sessions.createIndex('updatedAt', 'updatedAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      databasePromise = null;
+      reject(request.error);
+    };
+  });
+  return databasePromise;
+}
+
+// Runs a single request against an object store and waits for its transaction to commit
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const committed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  const result = await requestToPromise(operation(transaction.objectStore(storeName)));
+  await committed;
+  return result;
+}
+
+/**
+ * Derives the verdict of a run: FAIL if any task failed, INCOMPLETE if it was stopped,
+ * PASS when every task passed and UNKNOWN otherwise.
+ */
+export function getRunVerdict(tasks: Task[]): RunVerdict {
+  const verdict = combineTaskVerdicts(tasks);
+  if (verdict === 'FAIL') return 'FAIL';
+  if (tasks.some(task => task.incomplete)) return 'INCOMPLETE';
+  return verdict || 'UNKNOWN';
+}
+
+/**
+ * Builds the history record for a finished validation run.
+ * Hashes the inputs and records the provider and model from the current settings.
+ * @param data - The confirmed log and test case the run validated.
+ * @param tasks - Finished tasks, with prompts, raw responses and parsed verdicts.
+ */
+export async function createValidationRun(
+  data: EpsConfirmationData,
+  tasks: Task[],
+  startedAt: Date,
+  sessionId?: string
+): Promise<ValidationRun> {
+  const settings = getSettings();
+  const [logHash, testCaseHash] = await Promise.all([
+    sha256Hex(data.epsLogContent),
+    sha256Hex(data.testCaseContent)
+  ]);
+  return {
+    id: `run-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    sessionId,
+    fileName: data.pathToFile,
+    testCaseId: data.testCase?.testCaseId || undefined,
+    testCaseTitle: data.testCase?.title || undefined,
+    epsLogContent: data.epsLogContent,
+    testCaseContent: data.testCaseContent,
+    logHash,
+    testCaseHash,
+    provider: settings.provider,
+    model: settings.model,
+    promptTemplate: findTaskPromptTemplate(tasks),
+    tasks: tasks.map(task => ({ ...task, epsLogContent: undefined, testCaseContent: undefined })),
+    verdict: getRunVerdict(tasks),
+    redaction: data.redaction,
+    transaction: data.transaction,
+    startedAt,
+    completedAt: new Date()
+  };
+}
+
+/**
+ * Restores a run's tasks with the log and test case content the results panel expects.
+ */
+export function getRunTasks(run: ValidationRun): Task[] {
+  return run.tasks.map(task => ({
+    ...task,
+    epsLogContent: run.epsLogContent,
+    testCaseContent: run.testCaseContent,
+    redaction: run.redaction
+  }));
+}
+
+/**
+ * Applies history filters to a list of runs.
+ */
+export function filterRuns(runs: ValidationRun[], filter: RunFilter): ValidationRun[] {
+  const fileName = filter.fileName?.trim().toLowerCase();
+  const testCaseId = filter.testCaseId?.trim().toLowerCase();
+  return runs.filter(run =>
+    (!filter.verdict || run.verdict === filter.verdict) &&
+    (!fileName || run.fileName.toLowerCase().includes(fileName)) &&
+    (!testCaseId || (run.testCaseId || '').toLowerCase().includes(testCaseId)) &&
+    (!filter.from || run.startedAt >= filter.from) &&
+    (!filter.to || run.startedAt < filter.to)
+  );
+}
+
+/**
+ * Whether two runs validated the same test case: the same test case ID, or the same
+ * test case content when it has no ID.
+ */
+export function isSameTestCase(a: ValidationRun, b: ValidationRun): boolean {
+  return a.testCaseId ? a.testCaseId === b.testCaseId : !b.testCaseId && a.testCaseHash === b.testCaseHash;
+}
+
+/**
+ * Finds the baseline a run is compared against.
+ * @returns The baseline run of the same test case, or undefined if there is none or it is the run itself.
+ */
+export function findBaselineRun(runs: ValidationRun[], run: ValidationRun): ValidationRun | undefined {
+  return runs.find(other => other.isBaseline && other.id !== run.id && isSameTestCase(other, run));
+}
+
+/**
+ * Saves (or replaces) a validation run.
+ */
+export async function saveRun(run: ValidationRun): Promise<void> {
+  await withStore(RUNS_STORE, 'readwrite', store => store.put(run));
+  console.log('historyStore: Run saved', { runId: run.id, fileName: run.fileName, verdict: run.verdict, taskCount: run.tasks.length });
+}
+
+/**
+ * Loads a single run.
+ * @returns The run, or undefined if it does not exist.
+ */
+export async function getRun(id: string): Promise<ValidationRun | undefined> {
+  return withStore<ValidationRun | undefined>(RUNS_STORE, 'readonly', store => store.get(id));
+}
+
+/**
+ * Lists runs, newest first, optionally filtered.
+ */
+export async function listRuns(filter: RunFilter = {}): Promise<ValidationRun[]> {
+  const runs = await withStore<ValidationRun[]>(RUNS_STORE, 'readonly', store => store.index('startedAt').getAll());
+  return filterRuns(runs.reverse(), filter);
+}
+
+/**
+ * Loads the baseline of a run's test case.
+ */
+export async function getBaselineRun(run: ValidationRun): Promise<ValidationRun | undefined> {
+  return findBaselineRun(await listRuns(), run);
+}
+
+/**
+ * Marks a run as the baseline of its test case, or clears the mark.
+ * A test case has one baseline, so marking a run unmarks the previous baseline.
+ * @returns The updated run.
+ */
+export async function setRunBaseline(run: ValidationRun, isBaseline: boolean): Promise<ValidationRun> {
+  if (isBaseline) {
+    const previous = (await listRuns()).filter(other => other.isBaseline && other.id !== run.id && isSameTestCase(other, run));
+    for (const other of previous) {
+      await saveRun({ ...other, isBaseline: false });
+    }
+  }
+  const updated = { ...run, isBaseline };
+  await saveRun(updated);
+  console.log('historyStore: Run baseline updated', { runId: run.id, testCaseId: run.testCaseId, isBaseline });
+  return updated;
+}
+
+/**
+ * Deletes a run.
+ */
+export async function deleteRun(id: string): Promise<void> {
+  await withStore(RUNS_STORE, 'readwrite', store => store.delete(id));
+  console.log('historyStore: Run deleted', { runId: id });
+}
+
+/**
+ * Saves (or replaces) a chat session.
+ * User messages are redacted first: a test case pasted into the chat can carry card data.
+ * Every task of a session validates the same log and test case, so they are stored once
+ * on the session rather than with each task, as runs do.
+ */
+export async function saveChatSession(session: ChatSession): Promise<void> {
+  const customPatterns = getSettings().redactionPatterns;
+  const messages = session.messages.map(message =>
+    message.role === 'user' ? { ...message, content: redactSensitiveData(message.content, customPatterns).content } : message
+  );
+  const contentTask = session.tasks.find(task => task.epsLogContent !== undefined);
+  await withStore(SESSIONS_STORE, 'readwrite', store => store.put({
+    ...session,
+    title: redactSensitiveData(session.title, customPatterns).content,
+    messages,
+    tasks: session.tasks.map(task => ({ ...task, epsLogContent: undefined, testCaseContent: undefined })),
+    epsLogContent: contentTask?.epsLogContent,
+    testCaseContent: contentTask?.testCaseContent
+  }));
+}
+
+/**
+ * Lists chat sessions, most recently updated first, with the shared log and test case
+ * restored to their tasks. Sessions saved with the content on each task are read as they are.
+ */
+export async function listChatSessions(): Promise<ChatSession[]> {
+  const sessions = await withStore<ChatSession[]>(SESSIONS_STORE, 'readonly', store => store.index('updatedAt').getAll());
+  return sessions.reverse().map(({ epsLogContent, testCaseContent, ...session }) => ({
+    ...session,
+    tasks: session.tasks.map(task => ({
+      ...task,
+      epsLogContent: task.epsLogContent ?? epsLogContent,
+      testCaseContent: task.testCaseContent ?? testCaseContent
+    }))
+  }));
+}
+
+/**
+ * Deletes a chat session. Validation runs started from it stay in the run history.
+ */
+export async function deleteChatSession(id: string): Promise<void> {
+  await withStore(SESSIONS_STORE, 'readwrite', store => store.delete(id));
+  console.log('historyStore: Chat session deleted', { sessionId: id });
+}
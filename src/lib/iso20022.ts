@@ -0,0 +1,312 @@
+/**
+ * ISO 20022 (pain/pacs/camt) message support for EPS logs.
+ * Finds XML documents embedded in or uploaded as logs and extracts message IDs,
+ * end-to-end IDs, amounts, agents and status reason codes into structured records.
+ */
+import { Iso20022Message, Iso20022Transaction, LogLineFormat } from '@/types/log';
+import { findElement, findElements, parseXml, textAt, XmlElement } from '@/lib/xmlTree';
+
+const MESSAGE_DESCRIPTIONS: Record<string, string> = {
+  'pain.001': 'Customer Credit Transfer Initiation',
+  'pain.002': 'Customer Payment Status Report',
+  'pain.008': 'Customer Direct Debit Initiation',
+  'pacs.002': 'FI to FI Payment Status Report',
+  'pacs.003': 'FI to FI Customer Direct Debit',
+  'pacs.004': 'Payment Return',
+  'pacs.008': 'FI to FI Customer Credit Transfer',
+  'pacs.009': 'Financial Institution Credit Transfer',
+  'pacs.028': 'FI to FI Payment Status Request',
+  'camt.052': 'Bank to Customer Account Report',
+  'camt.053': 'Bank to Customer Statement',
+  'camt.054': 'Bank to Customer Debit Credit Notification',
+  'camt.056': 'FI to FI Payment Cancellation Request',
+  'camt.029': 'Resolution of Investigation'
+};
+
+export const STATUS_REASON_CODES: Record<string, string> = {
+  AC01: 'Incorrect account number',
+  AC04: 'Closed account number',
+  AC06: 'Blocked account',
+  AG01: 'Transaction forbidden',
+  AM04: 'Insufficient funds',
+  AM05: 'Duplication',
+  BE04: 'Missing creditor address',
+  DUPL: 'Duplicate payment',
+  FF01: 'Invalid file format',
+  MS03: 'Reason not specified',
+  NARR: 'Narrative',
+  RC01: 'Bank identifier incorrect',
+  RR04: 'Regulatory reason',
+  TM01: 'Cut-off time exceeded'
+};
+
+// Document root with an ISO 20022 namespace, optionally prefixed (<ns2:Document ...>)
+// Upper bound on the lines scanned for a closing </Document> tag
+const MAX_DOCUMENT_LINES = 5000;
+
+const DOCUMENT_START = /<([\w.-]+:)?Document\b[^>]*urn:iso:std:iso:20022:tech:xsd:([a-z]{4}\.\d{3}\.\d{3}\.\d{2})[^>]*>/g;
+
+function agentId(agent: XmlElement | undefined): string | undefined {
+  return textAt(agent, '//BICFI') || textAt(agent, '//BIC') || textAt(agent, '//MmbId');
+}
+
+function amountOf(element: XmlElement | undefined): { amount?: string; currency?: string } {
+  return element ? { amount: element.text || undefined, currency: element.attributes.Ccy } : {};
+}
+
+function statusReason(element: XmlElement | undefined): Pick<Iso20022Transaction, 'statusReasonCode' | 'statusReasonInfo'> {
+  const reason = findElement(element, 'StsRsnInf');
+  return {
+    statusReasonCode: textAt(reason, 'Rsn/Cd') || textAt(reason, 'Rsn/Prtry'),
+    statusReasonInfo: findElements(reason, 'AddtlInf').map(e => e.text).join(' ') || undefined
+  };
+}
+
+// Credit transfer style transactions (pacs.008, pacs.009, pain.001, pacs.003)
+function extractCreditTransfer(tx: XmlElement): Iso20022Transaction {
+  return {
+    endToEndId: textAt(tx, 'PmtId/EndToEndId'),
+    instructionId: textAt(tx, 'PmtId/InstrId'),
+    transactionId: textAt(tx, 'PmtId/TxId'),
+    uetr: textAt(tx, 'PmtId/UETR'),
+    ...amountOf(findElement(tx, 'IntrBkSttlmAmt') || findElement(tx, 'Amt/InstdAmt') || findElement(tx, 'InstdAmt')),
+    debtorName: textAt(tx, 'Dbtr/Nm'),
+    debtorAgent: agentId(findElement(tx, 'DbtrAgt')),
+    creditorName: textAt(tx, 'Cdtr/Nm'),
+    creditorAgent: agentId(findElement(tx, 'CdtrAgt'))
+  };
+}
+
+// Status report transactions (pacs.002, pain.002)
+function extractStatus(tx: XmlElement): Iso20022Transaction {
+  return {
+    originalEndToEndId: textAt(tx, 'OrgnlEndToEndId'),
+    instructionId: textAt(tx, 'OrgnlInstrId'),
+    transactionId: textAt(tx, 'OrgnlTxId'),
+    uetr: textAt(tx, 'OrgnlUETR'),
+    status: textAt(tx, 'TxSts'),
+    ...statusReason(tx),
+    ...amountOf(findElement(tx, 'OrgnlTxRef/IntrBkSttlmAmt') || findElement(tx, 'OrgnlTxRef/Amt/InstdAmt'))
+  };
+}
+
+// Payment return transactions (pacs.004)
+function extractReturn(tx: XmlElement): Iso20022Transaction {
+  const reason = findElement(tx, 'RtrRsnInf');
+  return {
+    originalEndToEndId: textAt(tx, 'OrgnlEndToEndId'),
+    transactionId: textAt(tx, 'RtrId'),
+    uetr: textAt(tx, 'OrgnlUETR'),
+    ...amountOf(findElement(tx, 'RtrdIntrBkSttlmAmt')),
+    status: 'RETURNED',
+    statusReasonCode: textAt(reason, 'Rsn/Cd') || textAt(reason, 'Rsn/Prtry'),
+    statusReasonInfo: textAt(reason, 'AddtlInf')
+  };
+}
+
+// Notification/statement entries (camt.052, camt.053, camt.054)
+function extractEntries(statement: XmlElement): Iso20022Transaction[] {
+  return findElements(statement, 'Ntry').flatMap(entry => {
+    const entryAmount = amountOf(findElement(entry, 'Amt'));
+    const base: Iso20022Transaction = {
+      ...entryAmount,
+      creditDebitIndicator: textAt(entry, 'CdtDbtInd'),
+      status: textAt(entry, 'Sts/Cd') || textAt(entry, 'Sts')
+    };
+    const details = findElements(entry, 'NtryDtls/TxDtls');
+    if (details.length === 0) return [base];
+    return details.map(tx => ({
+      ...base,
+      ...(findElement(tx, 'Amt') ? amountOf(findElement(tx, 'Amt')) : {}),
+      endToEndId: textAt(tx, 'Refs/EndToEndId'),
+      instructionId: textAt(tx, 'Refs/InstrId'),
+      transactionId: textAt(tx, 'Refs/TxId'),
+      uetr: textAt(tx, 'Refs/UETR'),
+      debtorName: textAt(tx, 'RltdPties/Dbtr/Nm') || textAt(tx, 'RltdPties/Dbtr/Pty/Nm'),
+      creditorName: textAt(tx, 'RltdPties/Cdtr/Nm') || textAt(tx, 'RltdPties/Cdtr/Pty/Nm'),
+      debtorAgent: agentId(findElement(tx, 'RltdAgts/DbtrAgt')),
+      creditorAgent: agentId(findElement(tx, 'RltdAgts/CdtrAgt'))
+    }));
+  });
+}
+
+/**
+ * Extracts the structured view of one ISO 20022 document.
+ * @param xml - The `<Document>` XML.
+ * @param messageType - Identifier from the namespace, e.g. pacs.008.001.08.
+ */
+export function decodeIso20022Document(xml: string, messageType: string): Omit<Iso20022Message, 'lineNumber' | 'endLineNumber'> {
+  const messageFamily = messageType.split('.').slice(0, 2).join('.');
+  const base = {
+    messageType,
+    messageFamily,
+    description: MESSAGE_DESCRIPTIONS[messageFamily] || 'ISO 20022 message'
+  };
+
+  const document = parseXml(xml);
+  if (!document) {
+    return { ...base, transactions: [], errors: ['Document is not well-formed XML'] };
+  }
+  // The single child of <Document> is the message body (FIToFICstmrCdtTrf, FIToFIPmtStsRpt, ...)
+  const body = document.children[0];
+  const header = findElement(body, 'GrpHdr');
+
+  let transactions: Iso20022Transaction[];
+  switch (messageFamily) {
+    case 'pacs.002':
+    case 'pain.002':
+      transactions = [
+        ...findElements(body, 'TxInfAndSts'),
+        ...findElements(body, 'OrgnlPmtInfAndSts/TxInfAndSts')
+      ].map(extractStatus);
+      break;
+    case 'pacs.004':
+      transactions = findElements(body, 'TxInf').map(extractReturn);
+      break;
+    case 'camt.052':
+    case 'camt.053':
+    case 'camt.054':
+      transactions = [
+        ...findElements(body, 'Ntfctn'),
+        ...findElements(body, 'Stmt'),
+        ...findElements(body, 'Rpt')
+      ].flatMap(extractEntries);
+      break;
+    default:
+      transactions = [
+        ...findElements(body, 'CdtTrfTxInf'),
+        ...findElements(body, 'PmtInf/CdtTrfTxInf'),
+        ...findElements(body, 'DrctDbtTxInf'),
+        ...findElements(body, 'PmtInf/DrctDbtTxInf')
+      ].map(extractCreditTransfer);
+  }
+
+  const groupStatus = textAt(body, 'OrgnlGrpInfAndSts/GrpSts');
+  return {
+    ...base,
+    messageId: textAt(header, 'MsgId'),
+    creationDateTime: textAt(header, 'CreDtTm'),
+    groupStatus,
+    transactions,
+    errors: transactions.length === 0 && !groupStatus ? ['No transactions found in document'] : []
+  };
+}
+
+function lineAt(content: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset; i++) {
+    if (content.charCodeAt(i) === 10) line++;
+  }
+  return line;
+}
+
+/**
+ * Finds and decodes every ISO 20022 document in a log or uploaded XML file.
+ * @param content - Raw EPS log content.
+ */
+export function findIso20022Messages(content: string): Iso20022Message[] {
+  const messages: Iso20022Message[] = [];
+  DOCUMENT_START.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = DOCUMENT_START.exec(content)) !== null) {
+    const closing = `</${match[1] || ''}Document>`;
+    const closeIndex = content.indexOf(closing, match.index);
+    const startLine = lineAt(content, match.index);
+    if (closeIndex < 0) {
+      messages.push({
+        lineNumber: startLine,
+        endLineNumber: startLine,
+        messageType: match[2],
+        messageFamily: match[2].split('.').slice(0, 2).join('.'),
+        description: 'Truncated ISO 20022 message',
+        transactions: [],
+        errors: ['Closing </Document> tag not found']
+      });
+      continue;
+    }
+    const end = closeIndex + closing.length;
+    messages.push({
+      ...decodeIso20022Document(content.slice(match.index, end), match[2]),
+      lineNumber: startLine,
+      endLineNumber: startLine + (content.slice(match.index, end).match(/\n/g)?.length || 0)
+    });
+    DOCUMENT_START.lastIndex = end;
+  }
+
+  console.log('iso20022: Scanned content for ISO 20022 messages', {
+    messageCount: messages.length,
+    types: [...new Set(messages.map(m => m.messageType))]
+  });
+  return messages;
+}
+
+/**
+ * Log line format that turns a multi-line ISO 20022 document into a single record,
+ * exposing the first transaction's identifiers, amount and status as fields.
+ */
+export const iso20022Format: LogLineFormat = {
+  id: 'iso20022',
+  label: 'ISO 20022 XML',
+  parse(lines, index) {
+    const first = lines[index].trim();
+    if (!first.startsWith('<?xml') && !/^<([\w.-]+:)?Document\b/.test(first)) return null;
+
+    const body = lines.slice(index, index + MAX_DOCUMENT_LINES).join('\n');
+    const rootMatch = body.match(/^\s*(?:<\?xml[^>]*\?>\s*)?<([\w.-]+:)?Document\b[^>]*urn:iso:std:iso:20022:tech:xsd:([a-z]{4}\.\d{3}\.\d{3}\.\d{2})[^>]*>/);
+    if (!rootMatch) return null;
+    const closing = `</${rootMatch[1] || ''}Document>`;
+    const closeIndex = body.indexOf(closing);
+    if (closeIndex < 0) return null;
+
+    const xml = body.slice(0, closeIndex + closing.length);
+    const message = decodeIso20022Document(xml, rootMatch[2]);
+    const consumed = xml.split('\n').length;
+
+    const fields: Record<string, string> = {};
+    const transaction = message.transactions[0] || {};
+    Object.entries(transaction).forEach(([key, value]) => {
+      if (value) fields[key] = value;
+    });
+    if (message.messageId) fields.messageId = message.messageId;
+    if (message.groupStatus) fields.groupStatus = message.groupStatus;
+
+    return {
+      record: {
+        raw: lines.slice(index, index + consumed).join('\n'),
+        timestamp: message.creationDateTime,
+        level: message.errors.length > 0 ? 'WARN' : 'INFO',
+        requestId: transaction.endToEndId || transaction.originalEndToEndId || message.messageId,
+        messageType: message.messageType,
+        message: `${message.description} (${message.transactions.length} transaction(s))`,
+        fields
+      },
+      consumed
+    };
+  }
+};
+
+/**
+ * Renders decoded ISO 20022 messages as compact text for the validation prompt.
+ * @param messages - Messages from findIso20022Messages.
+ * @param maxMessages - Maximum number of messages listed.
+ */
+export function describeIso20022Messages(messages: Iso20022Message[], maxMessages: number = 30): string {
+  const listed = messages.slice(0, maxMessages).map(message => {
+    const transactions = message.transactions.map(tx => Object.entries(tx)
+      .filter(([, value]) => value)
+      .map(([key, value]) => `${key}=${value}`)
+      .join(', '));
+    const header = [
+      `Line ${message.lineNumber}: ${message.messageType} (${message.description})`,
+      message.messageId && `MsgId=${message.messageId}`,
+      message.creationDateTime && `CreDtTm=${message.creationDateTime}`,
+      message.groupStatus && `GrpSts=${message.groupStatus}`
+    ].filter(Boolean).join(', ');
+    return [header, ...transactions.map(tx => `  - ${tx}`)].join('\n');
+  });
+  if (messages.length > maxMessages) {
+    listed.push(`... ${messages.length - maxMessages} more ISO 20022 messages`);
+  }
+  return listed.join('\n');
+}
@@ -0,0 +1,551 @@
+/**
+ * ISO 8583 (1987) message decoder for EPS log entries.
+ * Recognises raw ASCII messages, hex byte dumps and bracketed field dumps inside a log,
+ * and expands the MTI, primary/secondary bitmap and data elements with their names.
+ */
+import { DecodedIso8583Message, Iso8583Field } from '@/types/log';
+
+type FieldKind = 'fixed' | 'llvar' | 'lllvar';
+
+interface FieldSpec {
+  name: string;
+  kind: FieldKind;
+  length: number; // Characters for text fields, bits for binary fields, maximum for variable fields
+  binary?: boolean;
+}
+
+const fixed = (name: string, length: number): FieldSpec => ({ name, kind: 'fixed', length });
+const bits = (name: string, length: number): FieldSpec => ({ name, kind: 'fixed', length, binary: true });
+const llvar = (name: string, length: number): FieldSpec => ({ name, kind: 'llvar', length });
+const lllvar = (name: string, length: number): FieldSpec => ({ name, kind: 'lllvar', length });
+
+// ISO 8583:1987 data element definitions
+const FIELD_SPECS: Record<number, FieldSpec> = {
+  1: bits('Secondary bitmap', 64),
+  2: llvar('Primary account number (PAN)', 19),
+  3: fixed('Processing code', 6),
+  4: fixed('Amount, transaction', 12),
+  5: fixed('Amount, settlement', 12),
+  6: fixed('Amount, cardholder billing', 12),
+  7: fixed('Transmission date & time', 10),
+  8: fixed('Amount, cardholder billing fee', 8),
+  9: fixed('Conversion rate, settlement', 8),
+  10: fixed('Conversion rate, cardholder billing', 8),
+  11: fixed('System trace audit number (STAN)', 6),
+  12: fixed('Local transaction time', 6),
+  13: fixed('Local transaction date', 4),
+  14: fixed('Expiration date', 4),
+  15: fixed('Settlement date', 4),
+  16: fixed('Currency conversion date', 4),
+  17: fixed('Capture date', 4),
+  18: fixed('Merchant type', 4),
+  19: fixed('Acquiring institution country code', 3),
+  20: fixed('PAN extended country code', 3),
+  21: fixed('Forwarding institution country code', 3),
+  22: fixed('POS entry mode', 3),
+  23: fixed('Card sequence number', 3),
+  24: fixed('Network international identifier (NII)', 3),
+  25: fixed('POS condition code', 2),
+  26: fixed('POS capture code', 2),
+  27: fixed('Authorizing identification response length', 1),
+  28: fixed('Amount, transaction fee', 9),
+  29: fixed('Amount, settlement fee', 9),
+  30: fixed('Amount, transaction processing fee', 9),
+  31: fixed('Amount, settlement processing fee', 9),
+  32: llvar('Acquiring institution identification code', 11),
+  33: llvar('Forwarding institution identification code', 11),
+  34: llvar('Primary account number, extended', 28),
+  35: llvar('Track 2 data', 37),
+  36: lllvar('Track 3 data', 104),
+  37: fixed('Retrieval reference number (RRN)', 12),
+  38: fixed('Authorization identification response', 6),
+  39: fixed('Response code', 2),
+  40: fixed('Service restriction code', 3),
+  41: fixed('Card acceptor terminal identification', 8),
+  42: fixed('Card acceptor identification code', 15),
+  43: fixed('Card acceptor name/location', 40),
+  44: llvar('Additional response data', 25),
+  45: llvar('Track 1 data', 76),
+  46: lllvar('Additional data (ISO)', 999),
+  47: lllvar('Additional data (national)', 999),
+  48: lllvar('Additional data (private)', 999),
+  49: fixed('Currency code, transaction', 3),
+  50: fixed('Currency code, settlement', 3),
+  51: fixed('Currency code, cardholder billing', 3),
+  52: bits('Personal identification number (PIN) data', 64),
+  53: fixed('Security related control information', 16),
+  54: lllvar('Additional amounts', 120),
+  55: lllvar('ICC data (EMV)', 999),
+  56: lllvar('Reserved (ISO)', 999),
+  57: lllvar('Reserved (national)', 999),
+  58: lllvar('Reserved (national)', 999),
+  59: lllvar('Reserved (national)', 999),
+  60: lllvar('Reserved (private)', 999),
+  61: lllvar('Reserved (private)', 999),
+  62: lllvar('Reserved (private)', 999),
+  63: lllvar('Reserved (private)', 999),
+  64: bits('Message authentication code (MAC)', 64),
+  65: bits('Extended bitmap indicator', 8),
+  66: fixed('Settlement code', 1),
+  67: fixed('Extended payment code', 2),
+  68: fixed('Receiving institution country code', 3),
+  69: fixed('Settlement institution country code', 3),
+  70: fixed('Network management information code', 3),
+  71: fixed('Message number', 4),
+  72: fixed('Message number, last', 4),
+  73: fixed('Action date', 6),
+  74: fixed('Number of credits', 10),
+  75: fixed('Credits, reversal number', 10),
+  76: fixed('Number of debits', 10),
+  77: fixed('Debits, reversal number', 10),
+  78: fixed('Transfer number', 10),
+  79: fixed('Transfer, reversal number', 10),
+  80: fixed('Number of inquiries', 10),
+  81: fixed('Number of authorizations', 10),
+  82: fixed('Credits, processing fee amount', 12),
+  83: fixed('Credits, transaction fee amount', 12),
+  84: fixed('Debits, processing fee amount', 12),
+  85: fixed('Debits, transaction fee amount', 12),
+  86: fixed('Total amount of credits', 16),
+  87: fixed('Credits, reversal amount', 16),
+  88: fixed('Total amount of debits', 16),
+  89: fixed('Debits, reversal amount', 16),
+  90: fixed('Original data elements', 42),
+  91: fixed('File update code', 1),
+  92: fixed('File security code', 2),
+  93: fixed('Response indicator', 5),
+  94: fixed('Service indicator', 7),
+  95: fixed('Replacement amounts', 42),
+  96: bits('Message security code', 64),
+  97: fixed('Net settlement amount', 17),
+  98: fixed('Payee', 25),
+  99: llvar('Settlement institution identification code', 11),
+  100: llvar('Receiving institution identification code', 11),
+  101: llvar('File name', 17),
+  102: llvar('Account identification 1', 28),
+  103: llvar('Account identification 2', 28),
+  104: lllvar('Transaction description', 100),
+  128: bits('Message authentication code (MAC)', 64)
+};
+for (let id = 105; id <= 127; id++) {
+  FIELD_SPECS[id] = lllvar(id <= 111 ? 'Reserved (ISO)' : id <= 119 ? 'Reserved (national)' : 'Reserved (private)', 999);
+}
+
+const MTI_NAMES: Record<string, string> = {
+  '0100': 'Authorization Request',
+  '0110': 'Authorization Response',
+  '0120': 'Authorization Advice',
+  '0130': 'Authorization Advice Response',
+  '0200': 'Financial Transaction Request',
+  '0210': 'Financial Transaction Response',
+  '0220': 'Financial Transaction Advice',
+  '0230': 'Financial Transaction Advice Response',
+  '0400': 'Reversal Request',
+  '0410': 'Reversal Response',
+  '0420': 'Reversal Advice',
+  '0421': 'Reversal Advice Repeat',
+  '0430': 'Reversal Advice Response',
+  '0500': 'Reconciliation Request',
+  '0510': 'Reconciliation Response',
+  '0800': 'Network Management Request',
+  '0810': 'Network Management Response'
+};
+
+const MESSAGE_CLASSES: Record<string, string> = {
+  '1': 'Authorization',
+  '2': 'Financial',
+  '3': 'File Action',
+  '4': 'Reversal/Chargeback',
+  '5': 'Reconciliation',
+  '6': 'Administrative',
+  '7': 'Fee Collection',
+  '8': 'Network Management'
+};
+
+const MESSAGE_FUNCTIONS: Record<string, string> = {
+  '0': 'Request',
+  '1': 'Response',
+  '2': 'Advice',
+  '3': 'Advice Response',
+  '4': 'Notification',
+  '5': 'Notification Acknowledgement'
+};
+
+export const RESPONSE_CODES: Record<string, string> = {
+  '00': 'Approved',
+  '01': 'Refer to card issuer',
+  '03': 'Invalid merchant',
+  '04': 'Pick up card',
+  '05': 'Do not honour',
+  '06': 'Error',
+  '12': 'Invalid transaction',
+  '13': 'Invalid amount',
+  '14': 'Invalid card number',
+  '15': 'No such issuer',
+  '30': 'Format error',
+  '41': 'Lost card, pick up',
+  '43': 'Stolen card, pick up',
+  '51': 'Insufficient funds',
+  '54': 'Expired card',
+  '55': 'Incorrect PIN',
+  '57': 'Transaction not permitted to cardholder',
+  '58': 'Transaction not permitted to terminal',
+  '61': 'Exceeds withdrawal amount limit',
+  '62': 'Restricted card',
+  '65': 'Exceeds withdrawal frequency limit',
+  '68': 'Response received too late',
+  '75': 'Allowable number of PIN tries exceeded',
+  '91': 'Issuer or switch inoperative',
+  '92': 'Financial institution cannot be found for routing',
+  '94': 'Duplicate transmission',
+  '96': 'System malfunction'
+};
+
+const PROCESSING_TYPES: Record<string, string> = {
+  '00': 'Purchase',
+  '01': 'Cash withdrawal',
+  '09': 'Purchase with cashback',
+  '20': 'Refund',
+  '21': 'Deposit',
+  '31': 'Balance inquiry',
+  '40': 'Transfer'
+};
+
+const CURRENCIES: Record<string, string> = {
+  '404': 'KES',
+  '566': 'NGN',
+  '710': 'ZAR',
+  '800': 'UGX',
+  '826': 'GBP',
+  '834': 'TZS',
+  '840': 'USD',
+  '978': 'EUR'
+};
+
+const NETWORK_CODES: Record<string, string> = {
+  '001': 'Sign-on',
+  '002': 'Sign-off',
+  '101': 'Key change',
+  '201': 'Cutover',
+  '301': 'Echo test'
+};
+
+/**
+ * Describes an MTI, e.g. "0200" -> "Financial Transaction Request".
+ */
+export function describeMti(mti: string): string {
+  if (MTI_NAMES[mti]) return MTI_NAMES[mti];
+  const messageClass = MESSAGE_CLASSES[mti[1]] || `Class ${mti[1]}`;
+  const messageFunction = MESSAGE_FUNCTIONS[mti[2]] || `Function ${mti[2]}`;
+  return `${messageClass} ${messageFunction}`;
+}
+
+/**
+ * Adds a human-readable description for data elements whose codes have a known meaning.
+ */
+function describeField(id: number, value: string): string | undefined {
+  switch (id) {
+    case 3:
+      return PROCESSING_TYPES[value.slice(0, 2)];
+    case 4:
+    case 5:
+    case 6:
+      return /^\d+$/.test(value) ? `${(parseInt(value, 10) / 100).toFixed(2)} assuming 2 decimals` : undefined;
+    case 39:
+      return RESPONSE_CODES[value] || 'Unknown response code';
+    case 49:
+    case 50:
+    case 51:
+      return CURRENCIES[value];
+    case 70:
+      return NETWORK_CODES[value];
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Expands a bitmap given as hex into the list of present field numbers.
+ * @param hex - 16 hex characters (64 bits).
+ * @param offset - 0 for the primary bitmap, 64 for the secondary bitmap.
+ */
+export function bitmapToFields(hex: string, offset: number = 0): number[] {
+  const present: number[] = [];
+  hex.split('').forEach((char, charIndex) => {
+    const nibble = parseInt(char, 16);
+    for (let bit = 0; bit < 4; bit++) {
+      if (nibble & (8 >> bit)) present.push(offset + charIndex * 4 + bit + 1);
+    }
+  });
+  return present;
+}
+
+/**
+ * Builds the hex bitmap for a set of fields (used for field dumps that do not print one).
+ */
+function fieldsToBitmap(fields: number[], offset: number): string {
+  const nibbles = new Array(16).fill(0);
+  fields.filter(id => id > offset && id <= offset + 64).forEach(id => {
+    const bit = id - offset - 1;
+    nibbles[Math.floor(bit / 4)] |= 8 >> (bit % 4);
+  });
+  return nibbles.map(n => n.toString(16).toUpperCase()).join('');
+}
+
+function buildField(id: number, value: string): Iso8583Field {
+  return {
+    id,
+    name: FIELD_SPECS[id]?.name || `Field ${id}`,
+    value,
+    description: describeField(id, value)
+  };
+}
+
+function finishMessage(
+  base: Pick<DecodedIso8583Message, 'lineNumber' | 'endLineNumber' | 'source' | 'mti' | 'primaryBitmap' | 'secondaryBitmap'>,
+  fields: Iso8583Field[],
+  errors: string[]
+): DecodedIso8583Message {
+  const responseCode = fields.find(f => f.id === 39)?.value;
+  return {
+    ...base,
+    mtiDescription: describeMti(base.mti),
+    presentFields: fields.map(f => f.id),
+    fields,
+    responseCode,
+    responseDescription: responseCode ? RESPONSE_CODES[responseCode] || 'Unknown response code' : undefined,
+    errors
+  };
+}
+
+// Sequential reader over a raw message, either ASCII text or bytes from a hex dump
+interface MessageReader {
+  remaining(): number;
+  takeText(length: number): string | null;
+  takeBinary(bytes: number): string | null; // Returned as upper-case hex
+}
+
+function asciiReader(text: string): MessageReader {
+  let pos = 0;
+  return {
+    remaining: () => text.length - pos,
+    takeText(length) {
+      if (pos + length > text.length) return null;
+      const value = text.slice(pos, pos + length);
+      pos += length;
+      return value;
+    },
+    // Binary fields are printed as hex in ASCII messages: two characters per byte
+    takeBinary(bytes) {
+      const value = this.takeText(bytes * 2);
+      return value === null ? null : value.toUpperCase();
+    }
+  };
+}
+
+function byteReader(data: number[]): MessageReader {
+  let pos = 0;
+  return {
+    remaining: () => data.length - pos,
+    takeText(length) {
+      if (pos + length > data.length) return null;
+      const value = String.fromCharCode(...data.slice(pos, pos + length));
+      pos += length;
+      return value;
+    },
+    takeBinary(bytes) {
+      if (pos + bytes > data.length) return null;
+      const value = data.slice(pos, pos + bytes).map(b => b.toString(16).padStart(2, '0')).join('').toUpperCase();
+      pos += bytes;
+      return value;
+    }
+  };
+}
+
+/**
+ * Decodes a message from a reader. Returns null when the data does not start with a valid MTI and bitmap.
+ */
+function decodeFromReader(reader: MessageReader, source: 'ascii' | 'hex'): DecodedIso8583Message | null {
+  const mti = reader.takeText(4);
+  if (!mti || !/^0[1-9]\d{2}$/.test(mti)) return null;
+  const primaryBitmap = reader.takeBinary(8);
+  if (!primaryBitmap || !/^[0-9A-F]{16}$/.test(primaryBitmap)) return null;
+
+  const errors: string[] = [];
+  let present = bitmapToFields(primaryBitmap);
+  let secondaryBitmap: string | undefined;
+  if (present.includes(1)) {
+    secondaryBitmap = reader.takeBinary(8) || undefined;
+    if (!secondaryBitmap || !/^[0-9A-F]{16}$/.test(secondaryBitmap)) return null;
+    present = [...present, ...bitmapToFields(secondaryBitmap, 64)];
+  }
+
+  const fields: Iso8583Field[] = [];
+  for (const id of present.filter(n => n !== 1)) {
+    const spec = FIELD_SPECS[id];
+    if (!spec) {
+      errors.push(`Field ${id} has no known definition; decoding stopped`);
+      break;
+    }
+    let value: string | null;
+    if (spec.kind === 'fixed') {
+      value = spec.binary ? reader.takeBinary(spec.length / 8) : reader.takeText(spec.length);
+    } else {
+      const prefix = reader.takeText(spec.kind === 'llvar' ? 2 : 3);
+      if (!prefix || !/^\d+$/.test(prefix) || parseInt(prefix, 10) > spec.length) {
+        errors.push(`Field ${id} has an invalid length prefix "${prefix ?? ''}"`);
+        break;
+      }
+      value = reader.takeText(parseInt(prefix, 10));
+    }
+    if (value === null) {
+      errors.push(`Field ${id} is truncated`);
+      break;
+    }
+    fields.push(buildField(id, value));
+  }
+  if (errors.length === 0 && reader.remaining() > 0) {
+    errors.push(`${reader.remaining()} unexpected trailing ${source === 'hex' ? 'bytes' : 'characters'}`);
+  }
+
+  return finishMessage({ lineNumber: 0, endLineNumber: 0, source, mti, primaryBitmap, secondaryBitmap }, fields, errors);
+}
+
+/**
+ * Decodes a single raw ISO 8583 message.
+ * Accepts ASCII messages ("0200" + hex bitmap + fields) or hex byte dumps of the same.
+ * @returns The decoded message, or null when the input is not an ISO 8583 message.
+ */
+export function decodeIso8583(raw: string): DecodedIso8583Message | null {
+  const compact = raw.replace(/\s+/g, '');
+  // A hex dump of an ASCII MTI starts with "303x303x"
+  if (/^(3[0-9]){4}([0-9A-Fa-f]{2})+$/.test(compact)) {
+    const bytes = compact.match(/../g)!.map(pair => parseInt(pair, 16));
+    const decoded = decodeFromReader(byteReader(bytes), 'hex');
+    if (decoded) return decoded;
+  }
+  return decodeFromReader(asciiReader(compact), 'ascii');
+}
+
+// "MTI: 0200", "msgType=[0100]", jPOS <field id="0" value="0200"/>
+const MTI_HEADER = /(?:\bMTI|\bmsg[_\s-]?type|\bmessage\s*type)\s*[:=]?\s*\[?\s*(0\d{3})\s*\]?|<field\s+id="0"\s+value="(0\d{3})"/i;
+// "[002] [4111...]", "F39=[00]", "DE039: 00", "Field 39: [00]", jPOS <field id="39" value="00"/>
+const FIELD_PATTERNS: RegExp[] = [
+  /(?:\[|\b(?:F|DE|Field|BIT)\s*)0*(\d{1,3})\]?\s*[:=]?\s*\[([^\]]*)\]/gi,
+  /\b(?:F|DE)0*(\d{1,3})\s*[:=]\s*([^\s,;[\]]+)/gi,
+  /<field\s+id="(\d{1,3})"\s+value="([^"]*)"/gi
+];
+// "0000: 30 32 30 30 72 38 ..." with optional offset and ASCII gutter
+const HEX_DUMP_LINE = /^\s*(?:[0-9A-Fa-f]{4,8}[:\s]\s*)?((?:[0-9A-Fa-f]{2}\s){3,}[0-9A-Fa-f]{2})\b/;
+
+function extractFields(line: string): Map<number, string> {
+  const found = new Map<number, string>();
+  for (const pattern of FIELD_PATTERNS) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(line)) !== null) {
+      const id = parseInt(match[1], 10);
+      if (id >= 1 && id <= 128 && !found.has(id)) found.set(id, match[2].trim());
+    }
+  }
+  found.delete(0);
+  return found;
+}
+
+/**
+ * Finds and decodes every ISO 8583 message in an EPS log.
+ * @param content - Raw EPS log content.
+ * @returns Decoded messages in log order with their line numbers.
+ */
+export function findIso8583Messages(content: string): DecodedIso8583Message[] {
+  const lines = content.split(/\r?\n/);
+  const messages: DecodedIso8583Message[] = [];
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    // Bracketed field dump: MTI header followed by field lines (or fields on the same line)
+    const header = line.match(MTI_HEADER);
+    if (header) {
+      const mti = header[1] || header[2];
+      const fieldValues = extractFields(line.replace(header[0], ''));
+      let end = i;
+      while (end + 1 < lines.length && !MTI_HEADER.test(lines[end + 1])) {
+        const next = extractFields(lines[end + 1]);
+        if (next.size === 0) break;
+        next.forEach((value, id) => {
+          if (!fieldValues.has(id)) fieldValues.set(id, value);
+        });
+        end++;
+      }
+      if (fieldValues.size > 0) {
+        const ids = [...fieldValues.keys()].sort((a, b) => a - b);
+        const hasSecondary = ids.some(id => id > 64);
+        const fields = ids.filter(id => id !== 1).map(id => buildField(id, fieldValues.get(id)!));
+        messages.push(finishMessage({
+          lineNumber: i + 1,
+          endLineNumber: end + 1,
+          source: 'fields',
+          mti,
+          primaryBitmap: fieldsToBitmap(hasSecondary ? [1, ...ids] : ids, 0),
+          secondaryBitmap: hasSecondary ? fieldsToBitmap(ids, 64) : undefined
+        }, fields, []));
+        i = end + 1;
+        continue;
+      }
+    }
+
+    // Hex dump block spanning consecutive lines
+    if (HEX_DUMP_LINE.test(line)) {
+      let end = i;
+      let hex = '';
+      while (end < lines.length) {
+        const dump = lines[end].match(HEX_DUMP_LINE);
+        if (!dump) break;
+        hex += dump[1];
+        end++;
+      }
+      const decoded = decodeIso8583(hex);
+      if (decoded && decoded.source === 'hex') {
+        messages.push({ ...decoded, lineNumber: i + 1, endLineNumber: end });
+        i = end;
+        continue;
+      }
+    }
+
+    // Raw messages embedded as a single token
+    for (const token of line.match(/\b0[1-9]\d{2}[0-9A-Fa-f]{16}\S{4,}|\b(?:3[0-9]){4}[0-9A-Fa-f]{32,}/g) || []) {
+      const decoded = decodeIso8583(token);
+      if (decoded && decoded.errors.length === 0) {
+        messages.push({ ...decoded, lineNumber: i + 1, endLineNumber: i + 1 });
+      }
+    }
+    i++;
+  }
+
+  console.log('iso8583: Scanned log for ISO 8583 messages', {
+    lineCount: lines.length,
+    messageCount: messages.length,
+    mtis: [...new Set(messages.map(m => m.mti))]
+  });
+  return messages;
+}
+
+/**
+ * Renders decoded messages as compact text for the validation prompt.
+ * @param messages - Messages from findIso8583Messages.
+ * @param maxMessages - Maximum number of messages listed.
+ */
+export function describeIso8583Messages(messages: DecodedIso8583Message[], maxMessages: number = 30): string {
+  const listed = messages.slice(0, maxMessages).map(message => {
+    const fields = message.fields
+      .map(f => `F${f.id} ${f.name}=${f.value}${f.description ? ` (${f.description})` : ''}`)
+      .join('; ');
+    return `Line ${message.lineNumber}: MTI ${message.mti} (${message.mtiDescription}), bitmap ${message.primaryBitmap}${message.secondaryBitmap ? `/${message.secondaryBitmap}` : ''}: ${fields}`;
+  });
+  if (messages.length > maxMessages) {
+    listed.push(`... ${messages.length - maxMessages} more ISO 8583 messages`);
+  }
+  return listed.join('\n');
+}
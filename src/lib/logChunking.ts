@@ -0,0 +1,158 @@
+/**
+ * Chunking utilities for validating EPS logs larger than the model context.
+ * Splits logs on record boundaries and merges per-chunk step findings into one verdict.
+ */
+import { ChunkFinding, LogChunkReport, StepValidation, ValidationResult } from '@/types/chat';
+
+export interface LogChunk {
+  index: number;
+  startLine: number; // 1-based, inclusive
+  endLine: number; // 1-based, inclusive
+  content: string;
+}
+
+// Lines that start a new log record; anything else (stack traces, hex dumps,
+// multi-line XML) is a continuation of the previous record
+const RECORD_START_PATTERNS: RegExp[] = [
+  /^\[?\d{4}-\d{2}-\d{2}[T\s]\d{2}:\d{2}/, // ISO date-time
+  /^\[?\d{2}[/-]\d{2}[/-]\d{2,4}[\s,]+\d{2}:\d{2}/, // dd/mm/yyyy hh:mm
+  /^\[?\d{2}:\d{2}:\d{2}/, // time only
+  /^\s*\{/, // JSON lines
+  /^<\?xml/, // start of an XML document
+  /^-{3,}|^={3,}/ // separator lines between transactions
+];
+
+function isRecordStart(line: string): boolean {
+  return RECORD_START_PATTERNS.some(pattern => pattern.test(line));
+}
+
+/**
+ * Splits a log into chunks of at most `maxChunkLength` characters without cutting records.
+ * A single record longer than the limit is split on line boundaries.
+ * @param log - Raw EPS log content.
+ * @param maxChunkLength - Maximum characters per chunk.
+ */
+export function splitLogIntoChunks(log: string, maxChunkLength: number): LogChunk[] {
+  const lines = log.split(/\r?\n/);
+
+  // Group lines into records
+  const records: { startLine: number; lines: string[] }[] = [];
+  lines.forEach((line, i) => {
+    if (records.length === 0 || isRecordStart(line)) {
+      records.push({ startLine: i + 1, lines: [line] });
+    } else {
+      records[records.length - 1].lines.push(line);
+    }
+  });
+
+  const chunks: LogChunk[] = [];
+  let current: { startLine: number; lines: string[]; length: number } | null = null;
+
+  const flush = () => {
+    if (current && current.lines.length > 0) {
+      chunks.push({
+        index: chunks.length,
+        startLine: current.startLine,
+        endLine: current.startLine + current.lines.length - 1,
+        content: current.lines.join('\n')
+      });
+    }
+    current = null;
+  };
+
+  const addLine = (line: string, lineNo: number) => {
+    if (current && current.length + line.length + 1 > maxChunkLength) flush();
+    if (!current) current = { startLine: lineNo, lines: [], length: 0 };
+    current.lines.push(line);
+    current.length += line.length + 1;
+  };
+
+  for (const record of records) {
+    const recordLength = record.lines.reduce((sum, line) => sum + line.length + 1, 0);
+    if (current && current.length + recordLength > maxChunkLength) flush();
+    record.lines.forEach((line, offset) => addLine(line, record.startLine + offset));
+  }
+  flush();
+
+  console.log('logChunking: Split log into chunks', {
+    logLength: log.length,
+    lineCount: lines.length,
+    recordCount: records.length,
+    chunkCount: chunks.length,
+    maxChunkLength
+  });
+  return chunks;
+}
+
+/**
+ * Merges per-chunk step findings into a final verdict.
+ * A step fails if any chunk contradicts it, passes if any chunk supports it,
+ * and fails with "no evidence" if no consulted chunk mentions it.
+ * @param findingsByChunk - Findings for each chunk, indexed like the chunk reports.
+ * @param expectedSteps - Step numbers the test case defines (steps never reported still appear).
+ * @param unusableChunks - Indexes of chunks whose findings could not be used; a step without
+ *   evidence notes that these chunks may hold it.
+ */
+export function mergeChunkFindings(findingsByChunk: ChunkFinding[][], expectedSteps: number[] = [], unusableChunks: number[] = []): ValidationResult {
+  const byStep = new Map<number, { finding: ChunkFinding; chunkIndex: number }[]>();
+  expectedSteps.forEach(stepNo => byStep.set(stepNo, []));
+  findingsByChunk.forEach((findings, chunkIndex) => {
+    findings.forEach(finding => {
+      if (!byStep.has(finding.stepNo)) byStep.set(finding.stepNo, []);
+      byStep.get(finding.stepNo)!.push({ finding, chunkIndex });
+    });
+  });
+
+  const steps: StepValidation[] = [...byStep.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([stepNo, entries]) => {
+      const failing = entries.filter(e => e.finding.verdict === 'FAIL');
+      const passing = entries.filter(e => e.finding.verdict === 'PASS');
+      const decisive = failing.length > 0 ? failing : passing;
+      const expectedAction = entries.find(e => e.finding.expectedAction)?.finding.expectedAction || `Step ${stepNo}`;
+
+      if (decisive.length === 0) {
+        return {
+          stepNo,
+          expectedAction,
+          verdict: 'FAIL' as const,
+          citedLogLines: [],
+          reasoning: unusableChunks.length > 0
+            ? `No evidence for this step was found in the usable log chunks; chunk(s) ${unusableChunks.map(index => index + 1).join(', ')} returned unusable findings and may hold it.`
+            : 'No evidence for this step was found in any log chunk.',
+          chunkIndexes: []
+        };
+      }
+      return {
+        stepNo,
+        expectedAction,
+        verdict: failing.length > 0 ? 'FAIL' as const : 'PASS' as const,
+        citedLogLines: decisive.flatMap(e => e.finding.citedLogLines),
+        reasoning: decisive.map(e => `[Chunk ${e.chunkIndex + 1}] ${e.finding.reasoning}`).join('\n'),
+        chunkIndexes: [...new Set(decisive.map(e => e.chunkIndex))]
+      };
+    });
+
+  const failedSteps = steps.filter(step => step.verdict === 'FAIL');
+  return {
+    overallResult: failedSteps.length === 0 && steps.length > 0 ? 'PASS' : 'FAIL',
+    reasoningAndEvidence: steps.length === 0
+      ? 'No test case steps could be matched against the log.'
+      : `Merged findings from ${findingsByChunk.length} log chunks: ${steps.length - failedSteps.length} of ${steps.length} steps passed.`,
+    steps
+  };
+}
+
+/**
+ * Builds the per-chunk report shown in the UI.
+ */
+export function buildChunkReport(chunk: LogChunk, findings: ChunkFinding[], error?: string): LogChunkReport {
+  return {
+    index: chunk.index,
+    startLine: chunk.startLine,
+    endLine: chunk.endLine,
+    length: chunk.content.length,
+    stepsWithEvidence: findings.filter(f => f.verdict !== 'NO_EVIDENCE').map(f => f.stepNo),
+    error
+  };
+}
@@ -0,0 +1,295 @@
+/**
+ * Deterministic EPS log parser.
+ * Turns raw logs into typed records using pluggable line formats
+ * (plain text, JSON lines, ISO 20022 and generic XML) and reports lines no format could parse.
+ */
+import { iso20022Format } from '@/lib/iso20022';
+import { LogLevel, LogLineFormat, LogRecord, ParsedLog, ParsedRecordFields, UnparsedLine } from '@/types/log';
+
+const LEVEL_ALIASES: Record<string, LogLevel> = {
+  TRACE: 'TRACE',
+  DEBUG: 'DEBUG',
+  DBG: 'DEBUG',
+  INFO: 'INFO',
+  INF: 'INFO',
+  NOTICE: 'INFO',
+  WARN: 'WARN',
+  WARNING: 'WARN',
+  WRN: 'WARN',
+  ERROR: 'ERROR',
+  ERR: 'ERROR',
+  SEVERE: 'ERROR',
+  FATAL: 'FATAL',
+  CRITICAL: 'FATAL'
+};
+
+// Field names that carry a request/correlation identifier
+const REQUEST_ID_KEYS = /^(req(uest)?[_-]?id|rid|correlation[_-]?id|corr[_-]?id|trace[_-]?id|txn[_-]?id|transaction[_-]?id)$/i;
+// Field names that carry a message type
+const MESSAGE_TYPE_KEYS = /^(message[_-]?type|msg[_-]?type|mti|event[_-]?type|type)$/i;
+// A standalone ISO 8583 MTI in the message text ("Received 0200 request", "MTI 0210"). Only
+// version 0 (ISO 8583:1987) MTIs are recognised, so amounts and durations are not taken for one
+const MTI_PATTERN = /(?:^|[\s([])(0[1-9]\d[0-5])(?=$|[\s,;:)\]])/;
+
+/**
+ * Maps a level token from the log to a normalised LogLevel.
+ */
+export function normaliseLevel(value: string | undefined): LogLevel {
+  if (!value) return 'UNKNOWN';
+  return LEVEL_ALIASES[value.trim().toUpperCase()] || 'UNKNOWN';
+}
+
+function findField(fields: Record<string, string>, pattern: RegExp): string | undefined {
+  const key = Object.keys(fields).find(k => pattern.test(k));
+  return key ? fields[key] : undefined;
+}
+
+// Keyed message type fields win over an MTI found in the text
+function findMessageType(fields: Record<string, string>, message: string): string | undefined {
+  return findField(fields, MESSAGE_TYPE_KEYS) || message.match(MTI_PATTERN)?.[1];
+}
+
+/**
+ * Extracts `key=value` and `key: "value"` pairs from free text.
+ */
+export function extractKeyValues(text: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  const pattern = /([A-Za-z_][\w.-]*)\s*[=:]\s*("([^"]*)"|'([^']*)'|[^\s,;]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const key = match[1];
+    // Skip URL schemes ("http://host")
+    if (match[2].startsWith('//')) continue;
+    if (!(key in fields)) {
+      fields[key] = match[3] ?? match[4] ?? match[2];
+    }
+  }
+  return fields;
+}
+
+// Plain text: "2024-01-15 10:15:00.123 INFO [payment-service] message key=value"
+const TEXT_LINE_PATTERN = /^\[?(\d{4}-\d{2}-\d{2}[T\s]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?|\d{2}[/-]\d{2}[/-]\d{4}\s+\d{2}:\d{2}:\d{2}(?:[.,]\d+)?|\d{2}:\d{2}:\d{2}(?:[.,]\d+)?)\]?\s*[|-]?\s*\[?([A-Za-z]{3,8})\]?\s*[|-]?\s*(?:\[([^\]]+)\]|([\w.-]+):\s)?\s*(.*)$/;
+
+export const plainTextFormat: LogLineFormat = {
+  id: 'text',
+  label: 'Plain text',
+  parse(lines, index) {
+    const match = lines[index].match(TEXT_LINE_PATTERN);
+    if (!match || normaliseLevel(match[2]) === 'UNKNOWN') return null;
+
+    // Indented lines that follow (stack traces, hex dumps, field dumps) belong to this record
+    let consumed = 1;
+    while (index + consumed < lines.length && /^\s+\S/.test(lines[index + consumed])) {
+      consumed++;
+    }
+    const continuation = lines.slice(index + 1, index + consumed).join('\n');
+    const message = continuation ? `${match[5]}\n${continuation}` : match[5];
+    const fields = extractKeyValues(message);
+
+    return {
+      record: {
+        raw: lines.slice(index, index + consumed).join('\n'),
+        timestamp: match[1],
+        level: normaliseLevel(match[2]),
+        service: match[3] || match[4],
+        requestId: findField(fields, REQUEST_ID_KEYS) || message.match(/\b(req-[\w-]+)\b/i)?.[1],
+        messageType: findMessageType(fields, message),
+        message,
+        fields
+      },
+      consumed
+    };
+  }
+};
+
+export const jsonLinesFormat: LogLineFormat = {
+  id: 'jsonl',
+  label: 'JSON lines',
+  parse(lines, index) {
+    const line = lines[index].trim();
+    if (!line.startsWith('{') || !line.endsWith('}')) return null;
+
+    let data: Record<string, unknown>;
+    try {
+      data = JSON.parse(line);
+    } catch {
+      return null;
+    }
+
+    const fields: Record<string, string> = {};
+    Object.entries(data).forEach(([key, value]) => {
+      fields[key] = typeof value === 'string' ? value : JSON.stringify(value);
+    });
+    const pick = (...keys: string[]) => keys.map(k => fields[k]).find(v => v !== undefined);
+    const message = pick('message', 'msg', 'text') || '';
+
+    return {
+      record: {
+        raw: lines[index],
+        timestamp: pick('timestamp', '@timestamp', 'time', 'ts', 'datetime'),
+        level: normaliseLevel(pick('level', 'severity', 'lvl', 'loglevel')),
+        service: pick('service', 'logger', 'app', 'component', 'source'),
+        requestId: findField(fields, REQUEST_ID_KEYS),
+        messageType: findMessageType(fields, message),
+        message,
+        fields
+      },
+      consumed: 1
+    };
+  }
+};
+
+// Maximum lines scanned for the closing tag of a multi-line XML document
+const MAX_XML_LINES = 5000;
+
+export const xmlFormat: LogLineFormat = {
+  id: 'xml',
+  label: 'XML',
+  parse(lines, index) {
+    const first = lines[index].trim();
+    if (!first.startsWith('<') || first.startsWith('</')) return null;
+
+    // Skip the XML declaration to find the root element name
+    const body = lines.slice(index, index + MAX_XML_LINES).join('\n');
+    const rootMatch = body.match(/^\s*(?:<\?xml[^>]*\?>\s*)?<([A-Za-z_][\w:.-]*)[^>]*?(\/?)>/);
+    if (!rootMatch) return null;
+
+    const rootName = rootMatch[1];
+    let xml: string;
+    if (rootMatch[2] === '/') {
+      xml = rootMatch[0];
+    } else {
+      const closing = `</${rootName}>`;
+      const closeIndex = body.indexOf(closing);
+      if (closeIndex < 0) return null;
+      xml = body.slice(0, closeIndex + closing.length);
+    }
+    const consumed = xml.split('\n').length;
+
+    // Leaf elements become fields; repeated names are numbered (Amt, Amt[2], ...)
+    const fields: Record<string, string> = {};
+    const leafPattern = /<([A-Za-z_][\w:.-]*)(?:\s[^>]*)?>([^<]*)<\/\1>/g;
+    let match: RegExpExecArray | null;
+    while ((match = leafPattern.exec(xml)) !== null) {
+      const name = match[1].replace(/^\w+:/, '');
+      let key = name;
+      for (let n = 2; key in fields; n++) key = `${name}[${n}]`;
+      fields[key] = match[2].trim();
+    }
+    const namespace = xml.match(/xmlns(?::\w+)?="urn:iso:std:iso:20022:tech:xsd:([^"]+)"/)?.[1];
+
+    return {
+      record: {
+        raw: lines.slice(index, index + consumed).join('\n'),
+        timestamp: fields.CreDtTm || fields.Timestamp || fields.timestamp,
+        level: normaliseLevel(fields.Level || fields.level),
+        service: fields.Service || fields.service,
+        requestId: findField(fields, REQUEST_ID_KEYS) || fields.MsgId,
+        messageType: namespace || rootName.replace(/^\w+:/, ''),
+        message: `<${rootName}> document`,
+        fields
+      },
+      consumed
+    };
+  }
+};
+
+// Formats are tried in order; JSON and XML are more specific than plain text,
+// and ISO 20022 documents are recognised before falling back to generic XML
+const registeredFormats: LogLineFormat[] = [jsonLinesFormat, iso20022Format, xmlFormat, plainTextFormat];
+
+/**
+ * Registers an additional line format. Custom formats are tried before the built-in ones.
+ */
+export function registerLogFormat(format: LogLineFormat): void {
+  const existing = registeredFormats.findIndex(f => f.id === format.id);
+  if (existing >= 0) registeredFormats.splice(existing, 1);
+  registeredFormats.unshift(format);
+  console.log('logParser: Registered log format', { id: format.id, label: format.label });
+}
+
+/**
+ * Returns the registered line formats in the order they are tried.
+ */
+export function getLogFormats(): LogLineFormat[] {
+  return [...registeredFormats];
+}
+
+/**
+ * Parses an EPS log into structured records.
+ * Blank lines are skipped; lines no format recognises are reported in `unparsed`.
+ * @param content - Raw EPS log content.
+ * @param formats - Line formats to try (defaults to the registered formats).
+ */
+export function parseEpsLog(content: string, formats: LogLineFormat[] = registeredFormats): ParsedLog {
+  const lines = content.split(/\r?\n/);
+  const records: LogRecord[] = [];
+  const unparsed: UnparsedLine[] = [];
+  const recordsByFormat: Record<string, number> = {};
+
+  let index = 0;
+  while (index < lines.length) {
+    if (!lines[index].trim()) {
+      index++;
+      continue;
+    }
+
+    let parsed: { record: ParsedRecordFields; consumed: number } | null = null;
+    let format: LogLineFormat | undefined;
+    for (const candidate of formats) {
+      parsed = candidate.parse(lines, index);
+      if (parsed) {
+        format = candidate;
+        break;
+      }
+    }
+
+    if (!parsed) {
+      unparsed.push({ lineNumber: index + 1, text: lines[index] });
+      index++;
+      continue;
+    }
+
+    const consumed = Math.max(parsed.consumed, 1);
+    records.push({
+      ...parsed.record,
+      lineNumber: index + 1,
+      endLineNumber: index + consumed,
+      format: format!.id
+    });
+    recordsByFormat[format!.id] = (recordsByFormat[format!.id] || 0) + 1;
+    index += consumed;
+  }
+
+  console.log('logParser: Parsed EPS log', {
+    totalLines: lines.length,
+    recordCount: records.length,
+    unparsedCount: unparsed.length,
+    recordsByFormat
+  });
+  return { records, unparsed, totalLines: lines.length, recordsByFormat };
+}
+
+/**
+ * Builds a compact overview of a parsed log for the validation prompt:
+ * record counts, levels, services, message types and request IDs.
+ * @param parsed - Result of parseEpsLog.
+ * @param maxItems - Maximum distinct values listed per category.
+ */
+export function describeParsedLog(parsed: ParsedLog, maxItems: number = 20): string {
+  const count = (values: (string | undefined)[]) => {
+    const counts = new Map<string, number>();
+    values.filter(Boolean).forEach(v => counts.set(v!, (counts.get(v!) || 0) + 1));
+    const entries = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+    const listed = entries.slice(0, maxItems).map(([v, n]) => `${v} (${n})`).join(', ');
+    return entries.length > maxItems ? `${listed}, ... ${entries.length - maxItems} more` : listed || 'none';
+  };
+
+  return [
+    `Records: ${parsed.records.length} parsed from ${parsed.totalLines} lines, ${parsed.unparsed.length} unparseable lines`,
+    `Levels: ${count(parsed.records.map(r => r.level))}`,
+    `Services: ${count(parsed.records.map(r => r.service))}`,
+    `Message types: ${count(parsed.records.map(r => r.messageType))}`,
+    `Request IDs: ${count(parsed.records.map(r => r.requestId))}`
+  ].join('\n');
+}
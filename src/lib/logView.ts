@@ -0,0 +1,122 @@
+/**
+ * Line model for the log viewer.
+ * Splits a log into numbered lines tagged with the level and service of the parsed record
+ * they belong to, filters them by search, level and service, and maps cited evidence to lines.
+ */
+import { parseEpsLog } from '@/lib/logParser';
+import { CitationCheck, Task } from '@/types/chat';
+import { LogLevel } from '@/types/log';
+
+export interface LogViewLine {
+  lineNumber: number; // 1-based
+  text: string;
+  level: LogLevel;
+  service?: string;
+}
+
+export interface LogViewFilter {
+  search: string;
+  regex: boolean;
+  caseSensitive: boolean;
+  levels: LogLevel[]; // Empty shows every level
+  service?: string;
+  evidenceOnly: boolean;
+}
+
+export interface FilteredLogLines {
+  lines: LogViewLine[];
+  matcher: RegExp | null; // Global matcher for highlighting; null without a search
+  error?: string; // Set when the search is not a valid regular expression
+}
+
+/**
+ * Splits a log into lines; lines of a multi-line record share the record's level and service.
+ */
+export function buildLogViewLines(content: string): LogViewLine[] {
+  const parsed = parseEpsLog(content);
+  const lines: LogViewLine[] = content.split(/\r?\n/).map((text, index) => ({ lineNumber: index + 1, text, level: 'UNKNOWN' }));
+  for (const record of parsed.records) {
+    for (let lineNumber = record.lineNumber; lineNumber <= record.endLineNumber; lineNumber++) {
+      const line = lines[lineNumber - 1];
+      if (line) {
+        line.level = record.level;
+        line.service = record.service;
+      }
+    }
+  }
+  console.log('logView: Built log lines', { lineCount: lines.length, recordCount: parsed.records.length });
+  return lines;
+}
+
+/**
+ * Lists the levels and services present in a log, for the filter controls.
+ */
+export function getLogFacets(lines: LogViewLine[]): { levels: LogLevel[]; services: string[] } {
+  const levels = new Set<LogLevel>();
+  const services = new Set<string>();
+  for (const line of lines) {
+    levels.add(line.level);
+    if (line.service) services.add(line.service);
+  }
+  return { levels: [...levels], services: [...services].sort() };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Filters log lines. A plain search matches literally; with `regex` it is compiled as a
+ * regular expression, and an invalid expression returns every other filter's result with an error.
+ * @param evidence - Lines cited as evidence, used by `evidenceOnly`.
+ */
+export function filterLogLines(lines: LogViewLine[], filter: LogViewFilter, evidence: Map<number, number[]>): FilteredLogLines {
+  let matcher: RegExp | null = null;
+  let error: string | undefined;
+  if (filter.search) {
+    try {
+      matcher = new RegExp(filter.regex ? filter.search : escapeRegExp(filter.search), filter.caseSensitive ? 'g' : 'gi');
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'Invalid regular expression';
+    }
+  }
+
+  const filtered = lines.filter(line => {
+    if (filter.levels.length > 0 && !filter.levels.includes(line.level)) return false;
+    if (filter.service && line.service !== filter.service) return false;
+    if (filter.evidenceOnly && !evidence.has(line.lineNumber)) return false;
+    if (matcher) {
+      matcher.lastIndex = 0;
+      return matcher.test(line.text);
+    }
+    return true;
+  });
+  return { lines: filtered, matcher, error };
+}
+
+/**
+ * Maps each log line cited as verified evidence to the step numbers citing it.
+ */
+export function getEvidenceLines(tasks: Task[]): Map<number, number[]> {
+  const evidence = new Map<number, number[]>();
+  for (const task of tasks) {
+    for (const step of task.validationResult?.steps || []) {
+      const stepNo = task.step?.stepNo ?? step.stepNo;
+      for (const lineNumber of getStepEvidenceLines(step.citations)) {
+        const steps = evidence.get(lineNumber) || [];
+        if (!steps.includes(stepNo)) evidence.set(lineNumber, [...steps, stepNo]);
+      }
+    }
+  }
+  return evidence;
+}
+
+/**
+ * Returns the sorted log lines a step's citations were found on. Cited excerpts point at
+ * specific lines; identifiers (which may recur across a log) are only used without them.
+ */
+export function getStepEvidenceLines(citations: CitationCheck[] = []): number[] {
+  const excerptLines = citations.filter(citation => citation.kind === 'excerpt').flatMap(citation => citation.lineNumbers);
+  const lineNumbers = excerptLines.length > 0 ? excerptLines : citations.flatMap(citation => citation.lineNumbers);
+  return [...new Set(lineNumbers)].sort((a, b) => a - b);
+}
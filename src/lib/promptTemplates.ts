@@ -0,0 +1,243 @@
+/**
+ * Prompt template library for the EPS Agent.
+ * Keeps named, versioned validation prompt templates in local storage, renders the active
+ * template's latest version with the log and test case, and notifies subscribers of edits.
+ * Saving a template always adds a version, so runs can record exactly which prompt produced them.
+ */
+import { getSettings } from '@/lib/settings';
+import { Task } from '@/types/chat';
+import { PromptSections, PromptTemplate, PromptTemplateRef, PromptTemplateVersion } from '@/types/promptTemplate';
+
+const STORAGE_KEY = 'eps-agent:prompt-templates';
+
+export const DEFAULT_PROMPT_TEMPLATE_ID = 'default';
+
+// Values substituted into {{placeholders}} when the prompt is rendered
+export const PROMPT_PLACEHOLDERS: Record<string, string> = {
+  log: 'The EPS log (redacted, truncated to the content limit)',
+  testCase: 'The test case, or the single step being validated',
+  logOverview: 'Parser statistics and decoded ISO 8583 / ISO 20022 messages',
+  formatInstructions: 'The answer format the verdict parser expects (JSON or "Overall Result:" text)',
+  fewShotExamples: 'Stored examples most similar to the step; added after the examples section when not placed explicitly'
+};
+
+const REQUIRED_PLACEHOLDERS = ['log', 'testCase'];
+
+const SECTION_KEYS: (keyof PromptSections)[] = ['systemPrompt', 'instructions', 'outputFormat', 'examples'];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Reproduces the prompt used before templates existed
+export const DEFAULT_PROMPT_SECTIONS: PromptSections = {
+  systemPrompt: 'You are an EPS log validator.',
+  instructions: 'Parse and analyze the raw EPS log content: [{{log}}]. Structured overview of the log produced by a deterministic parser: [{{logOverview}}]. Validate it against this test case: [{{testCase}}]. For each test case step, verify the action in the log and cite specific log entries (e.g., timestamps, request IDs, service responses) as evidence.',
+  outputFormat: '{{formatInstructions}}\nIf the log or test case is malformed, note the issue but attempt validation. If no relevant log entries are found, indicate this explicitly.',
+  examples: ''
+};
+
+const DEFAULT_TEMPLATE: PromptTemplate = {
+  id: DEFAULT_PROMPT_TEMPLATE_ID,
+  name: 'EPS validation (default)',
+  builtIn: true,
+  versions: [{ ...DEFAULT_PROMPT_SECTIONS, version: 1, note: 'Built-in prompt', createdAt: new Date(0) }]
+};
+
+type PromptTemplatesListener = (templates: PromptTemplate[]) => void;
+
+const listeners = new Set<PromptTemplatesListener>();
+let currentTemplates: PromptTemplate[] | null = null;
+
+function hasStorage(): boolean {
+  return typeof localStorage !== 'undefined';
+}
+
+function persist(templates: PromptTemplate[]): PromptTemplate[] {
+  currentTemplates = templates;
+  if (hasStorage()) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  }
+  listeners.forEach(listener => listener(templates));
+  return templates;
+}
+
+/**
+ * Returns every template, the built-in default first, reading local storage on first access.
+ * Corrupt stored templates fall back to the built-in default alone.
+ */
+export function getPromptTemplates(): PromptTemplate[] {
+  if (currentTemplates) return currentTemplates;
+
+  let stored: PromptTemplate[] = [];
+  if (hasStorage()) {
+    try {
+      stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    } catch (error) {
+      console.warn('promptTemplates: Ignoring corrupt stored templates', error);
+    }
+  }
+  const templates = stored.map(template => ({
+    ...template,
+    versions: template.versions.map(version => ({ ...version, createdAt: new Date(version.createdAt) }))
+  }));
+  currentTemplates = templates.some(template => template.id === DEFAULT_PROMPT_TEMPLATE_ID)
+    ? templates
+    : [DEFAULT_TEMPLATE, ...templates];
+  return currentTemplates;
+}
+
+/**
+ * Returns the latest version of a template.
+ */
+export function getLatestVersion(template: PromptTemplate): PromptTemplateVersion {
+  return template.versions[template.versions.length - 1];
+}
+
+/**
+ * Returns the template selected in the settings and its latest version.
+ * A selected template that no longer exists falls back to the default.
+ */
+export function getActivePromptTemplate(templateId: string = getSettings().promptTemplateId): { template: PromptTemplate; version: PromptTemplateVersion } {
+  const templates = getPromptTemplates();
+  const template = templates.find(t => t.id === templateId) || templates.find(t => t.id === DEFAULT_PROMPT_TEMPLATE_ID);
+  return { template, version: getLatestVersion(template) };
+}
+
+/**
+ * Returns the template version a reference points to, falling back to the active template
+ * when there is no reference or the referenced version was deleted.
+ */
+export function resolvePromptTemplate(ref?: PromptTemplateRef): { template: PromptTemplate; version: PromptTemplateVersion } {
+  const template = ref && getPromptTemplates().find(t => t.id === ref.id);
+  const version = template?.versions.find(v => v.version === ref.version);
+  return version ? { template, version } : getActivePromptTemplate();
+}
+
+/**
+ * Describes the template version a reference resolves to (see resolvePromptTemplate).
+ */
+export function resolvePromptTemplateRef(ref?: PromptTemplateRef): PromptTemplateRef {
+  const { template, version } = resolvePromptTemplate(ref);
+  return { id: template.id, name: template.name, version: version.version };
+}
+
+/**
+ * Describes the active template version, for pinning it when a validation starts.
+ */
+export function getActivePromptTemplateRef(): PromptTemplateRef {
+  return resolvePromptTemplateRef();
+}
+
+/**
+ * Returns the template version the tasks' prompts were rendered from, for storing with a run.
+ * Undefined when no task sent a templated prompt (every step was checked by rules).
+ */
+export function findTaskPromptTemplate(tasks: Task[]): PromptTemplateRef | undefined {
+  return tasks.find(task => task.promptTemplate)?.promptTemplate;
+}
+
+/**
+ * Formats a template reference for display, e.g. "EPS validation (default) v3".
+ */
+export function describePromptTemplateRef(ref: PromptTemplateRef): string {
+  return `${ref.name} v${ref.version}`;
+}
+
+/**
+ * Checks a template's sections for unknown placeholders and for the log and test case
+ * placeholders every validation prompt needs.
+ * @returns One message per problem; empty when the sections can be saved.
+ */
+export function findPromptTemplateErrors(sections: PromptSections): string[] {
+  const used = new Set<string>();
+  SECTION_KEYS.forEach(key => {
+    for (const match of sections[key].matchAll(PLACEHOLDER_PATTERN)) used.add(match[1]);
+  });
+  const unknown = [...used].filter(name => !(name in PROMPT_PLACEHOLDERS)).map(name => `Unknown placeholder {{${name}}}`);
+  const missing = REQUIRED_PLACEHOLDERS.filter(name => !used.has(name)).map(name => `Missing required placeholder {{${name}}}`);
+  return [...unknown, ...missing];
+}
+
+/**
+ * Renders a template version into the validation prompt.
+ * Placeholders are substituted in one pass, so placeholder-like text inside the log is left alone.
+ * Selected few-shot examples follow the examples section unless a section places {{fewShotExamples}}.
+ * @param sections - The template version to render.
+ * @param values - Values for the placeholders in PROMPT_PLACEHOLDERS.
+ * @param request - Closing user turn; chunk prompts ask for the chunk's evidence instead.
+ */
+export function renderPromptTemplate(
+  sections: PromptSections,
+  values: Record<string, string>,
+  request: string = 'Validate the test case against the EPS log now.'
+): string {
+  const fill = (text: string) => text.replace(PLACEHOLDER_PATTERN, (match, name: string) => values[name] ?? match);
+  const placesFewShot = SECTION_KEYS.some(key => /\{\{\s*fewShotExamples\s*\}\}/.test(sections[key]));
+  const exampleText = [fill(sections.examples.trim()), placesFewShot ? '' : values.fewShotExamples]
+    .filter(text => text?.trim())
+    .join('\n\n');
+  const examples = exampleText ? `\nWorked examples:\n${exampleText}` : '';
+  return `System: ${fill(sections.systemPrompt)} ${fill(sections.instructions)} ${fill(sections.outputFormat)}${examples}\nUser: ${request}`;
+}
+
+/**
+ * Saves edited sections as the next version of a template.
+ * @returns The updated template.
+ * @throws Error when the template does not exist or the sections have placeholder errors.
+ */
+export function savePromptTemplateVersion(templateId: string, sections: PromptSections, note?: string): PromptTemplate {
+  const errors = findPromptTemplateErrors(sections);
+  if (errors.length > 0) throw new Error(errors.join('; '));
+  const templates = getPromptTemplates();
+  const template = templates.find(t => t.id === templateId);
+  if (!template) throw new Error(`Prompt template ${templateId} does not exist`);
+
+  const version: PromptTemplateVersion = {
+    ...sections,
+    version: getLatestVersion(template).version + 1,
+    note: note?.trim() || undefined,
+    createdAt: new Date()
+  };
+  const updated = { ...template, versions: [...template.versions, version] };
+  persist(templates.map(t => (t.id === templateId ? updated : t)));
+  console.log('promptTemplates: Version saved', { templateId, version: version.version });
+  return updated;
+}
+
+/**
+ * Creates a template whose first version holds the given sections.
+ * @throws Error when the sections have placeholder errors.
+ */
+export function createPromptTemplate(name: string, sections: PromptSections): PromptTemplate {
+  const errors = findPromptTemplateErrors(sections);
+  if (errors.length > 0) throw new Error(errors.join('; '));
+  const template: PromptTemplate = {
+    id: `prompt-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    name: name.trim() || 'Untitled template',
+    versions: [{ ...sections, version: 1, createdAt: new Date() }]
+  };
+  persist([...getPromptTemplates(), template]);
+  console.log('promptTemplates: Template created', { templateId: template.id, name: template.name });
+  return template;
+}
+
+/**
+ * Deletes a template. The built-in default cannot be deleted; runs keep their recorded
+ * template name and version.
+ */
+export function deletePromptTemplate(templateId: string): void {
+  const templates = getPromptTemplates();
+  if (templates.find(t => t.id === templateId)?.builtIn) return;
+  persist(templates.filter(t => t.id !== templateId));
+  console.log('promptTemplates: Template deleted', { templateId });
+}
+
+/**
+ * Registers a listener for template changes.
+ * @returns A function that removes the listener.
+ */
+export function subscribePromptTemplates(listener: PromptTemplatesListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
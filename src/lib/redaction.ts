@@ -0,0 +1,277 @@
+/**
+ * PCI redaction engine for EPS logs.
+ * Masks primary account numbers (Luhn-checked), track 1/2 data, PIN blocks, CVV values
+ * and user-defined patterns before a log is displayed, logged or sent to a model.
+ * PANs keep their BIN (first six) and last four digits so transactions can still be correlated.
+ */
+import { findIso8583Messages } from '@/lib/iso8583';
+import { RedactionKind, RedactionSummary } from '@/types/log';
+
+export interface RedactionResult {
+  content: string;
+  summary: RedactionSummary;
+}
+
+const MASK = '*';
+const CUSTOM_REPLACEMENT = '[REDACTED]';
+// Card network prefixes (Visa, Mastercard incl. 2-series, Amex, Diners, Discover/UnionPay/JCB)
+const PAN_PREFIX = /^(?:4|5[1-5]|2[2-7]|3[0478]|6)/;
+
+// ISO 8583 data elements holding sensitive authentication data
+const SENSITIVE_FIELDS: Record<number, RedactionKind> = {
+  2: 'pan',
+  35: 'track',
+  45: 'track',
+  52: 'pinBlock'
+};
+
+// Digit run of 13-19 digits, optionally grouped with spaces or dashes, not inside a longer number
+const PAN_PATTERN = /(?<![\d*])\d(?:[ -]?\d){12,18}(?![\d*])/g;
+// Track 2: PAN, separator (= or D in hex renderings), expiry, service code and discretionary data
+const TRACK2_PATTERN = /;?(?<![\d*])(\d{12,19})([=D])(\d{4}\d*)\??/g;
+// Track 1: format code B, PAN, name, expiry and discretionary data
+const TRACK1_PATTERN = /%?B(\d{12,19})\^([^^\n]{2,26})\^(\d{4}[^\s?"'<]*)\??/g;
+// "pinBlock=...", "PIN_DATA: ...", "F52=...", "DE052: ...", "[052] [...]", jPOS <field id="52" value="..."/>
+const PIN_BLOCK_PATTERNS: RegExp[] = [
+  /((?:pin[_\s-]?(?:block|data)|\b(?:F|DE|Field|BIT)\s*0*52\b|\[0*52\])["']?\s*[:=]?\s*\[?["']?)([0-9A-Fa-f]{16})/gi,
+  /(<field\s+id="52"\s+value=")([^"]+)/gi
+];
+// "cvv=123", "CVV2: 123", "\"cvc\":\"123\"", "securityCode=1234"
+const CVV_PATTERN = /((?:\bcvv2?|\bcvc2?|\bcvn|\bcid|\bcav2|card[_\s-]?verification(?:[_\s-]?(?:value|code))?|security[_\s-]?code)["']?\s*[:=]\s*["']?)(\d{3,4})\b/gi;
+
+/**
+ * Checks a digit string with the Luhn (mod 10) algorithm.
+ */
+export function isLuhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i], 10);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return digits.length > 0 && sum % 10 === 0;
+}
+
+/**
+ * Masks a PAN, keeping the BIN (first six) and last four digits.
+ * Separators in grouped PANs ("4111 1111 1111 1111") are preserved.
+ */
+export function maskPan(pan: string): string {
+  const digitCount = pan.replace(/\D/g, '').length;
+  let seen = 0;
+  return pan.replace(/\d/g, digit => {
+    seen++;
+    return seen <= 6 || seen > digitCount - 4 ? digit : MASK;
+  });
+}
+
+function looksLikePan(digits: string): boolean {
+  return digits.length >= 13 && digits.length <= 19 && PAN_PREFIX.test(digits) && isLuhnValid(digits);
+}
+
+function maskTrack(value: string): string {
+  const pan = value.match(/\d{12,19}/);
+  if (!pan) return MASK.repeat(value.length);
+  const start = value.indexOf(pan[0]);
+  return MASK.repeat(start) + maskPan(pan[0]) + MASK.repeat(value.length - start - pan[0].length);
+}
+
+function maskFieldValue(kind: RedactionKind, value: string): string {
+  if (kind === 'pan') return maskPan(value);
+  if (kind === 'track') return maskTrack(value);
+  return MASK.repeat(value.length);
+}
+
+function toHex(value: string): string {
+  return value.split('').map(char => char.charCodeAt(0).toString(16).padStart(2, '0').toUpperCase()).join('');
+}
+
+/**
+ * Builds an empty redaction summary.
+ */
+export function emptyRedactionSummary(): RedactionSummary {
+  return {
+    total: 0,
+    byKind: { pan: 0, track: 0, pinBlock: 0, cvv: 0, custom: 0 },
+    lineNumbers: [],
+    invalidPatterns: []
+  };
+}
+
+/**
+ * Validates user-defined redaction patterns.
+ * @returns The patterns that are not valid regular expressions.
+ */
+export function findInvalidPatterns(patterns: string[]): string[] {
+  return patterns.filter(pattern => {
+    try {
+      new RegExp(pattern);
+      return false;
+    } catch {
+      return true;
+    }
+  });
+}
+
+// Tracks replacements per kind and the lines they occurred on
+class RedactionCounter {
+  summary = emptyRedactionSummary();
+  private lines = new Set<number>();
+
+  record(kind: RedactionKind, lineIndex: number): void {
+    this.summary.total++;
+    this.summary.byKind[kind]++;
+    this.lines.add(lineIndex + 1);
+  }
+
+  finish(): RedactionSummary {
+    this.summary.lineNumbers = [...this.lines].sort((a, b) => a - b);
+    return this.summary;
+  }
+}
+
+/**
+ * Masks a sensitive value inside the byte columns of a hex dump block.
+ * Bytes are matched across line breaks; an ASCII gutter after the bytes is masked too.
+ * Binary fields (PIN block) are decoded as hex already and are overwritten with "*" bytes.
+ */
+function maskHexDump(lines: string[], start: number, end: number, value: string, masked: string, binary: boolean): boolean {
+  const bytes: { line: number; column: number; gutterColumn?: number }[] = [];
+  for (let i = start; i <= end && i < lines.length; i++) {
+    const dump = lines[i].match(/^(\s*(?:[0-9A-Fa-f]{4,8}[:\s]\s*)?)((?:[0-9A-Fa-f]{2}\s){3,}[0-9A-Fa-f]{2})\b/);
+    if (!dump) continue;
+    const gutterMatch = lines[i].slice(dump[0].length).match(/^\s*\|?/);
+    const gutterStart = dump[0].length + (gutterMatch ? gutterMatch[0].length : 0);
+    const hasGutter = lines[i].length > gutterStart;
+    let column = dump[1].length;
+    dump[2].split(/\s/).forEach((pair, byteIndex) => {
+      bytes.push({ line: i, column, gutterColumn: hasGutter ? gutterStart + byteIndex : undefined });
+      column += pair.length + 1;
+    });
+  }
+
+  const sequence = bytes.map(b => lines[b.line].substr(b.column, 2).toUpperCase()).join('');
+  const target = binary ? value.toUpperCase() : toHex(value);
+  const maskedChars = binary ? MASK.repeat(target.length / 2) : masked;
+  const replacement = toHex(maskedChars);
+  let found = false;
+  for (let index = sequence.indexOf(target); index >= 0; index = sequence.indexOf(target, index + 2)) {
+    if (index % 2 !== 0) continue;
+    found = true;
+    for (let b = 0; b < maskedChars.length; b++) {
+      const { line, column, gutterColumn } = bytes[index / 2 + b];
+      const text = lines[line];
+      let updated = text.slice(0, column) + replacement.substr(b * 2, 2) + text.slice(column + 2);
+      if (gutterColumn !== undefined && gutterColumn < updated.length) {
+        updated = updated.slice(0, gutterColumn) + maskedChars[b] + updated.slice(gutterColumn + 1);
+      }
+      lines[line] = updated;
+    }
+  }
+  return found;
+}
+
+/**
+ * Redacts cardholder and authentication data from log content.
+ * Sensitive ISO 8583 fields (2, 35, 45, 52) are located with the ISO 8583 decoder and masked
+ * in place, including inside raw messages and hex dumps, so the masked message still decodes.
+ * @param content - Raw log (or test case) content.
+ * @param customPatterns - Additional regular expressions; matches are replaced with [REDACTED].
+ * @returns The redacted content and a summary of what was masked.
+ */
+export function redactSensitiveData(content: string, customPatterns: string[] = []): RedactionResult {
+  const lines = content.split('\n');
+  const counter = new RedactionCounter();
+
+  // Sensitive fields from decoded ISO 8583 messages
+  for (const message of findIso8583Messages(content)) {
+    // Longest values first so track data is masked before the PAN it contains
+    const fields = [...message.fields].sort((a, b) => b.value.length - a.value.length);
+    for (const field of fields) {
+      const kind = SENSITIVE_FIELDS[field.id];
+      if (!kind || !field.value || field.value.includes(MASK)) continue;
+      const masked = maskFieldValue(kind, field.value);
+      for (let i = message.lineNumber - 1; i < message.endLineNumber && i < lines.length; i++) {
+        if (lines[i].includes(field.value)) {
+          lines[i] = lines[i].split(field.value).join(masked);
+          counter.record(kind, i);
+        }
+      }
+      if (message.source === 'hex' && maskHexDump(lines, message.lineNumber - 1, message.endLineNumber - 1, field.value, masked, kind === 'pinBlock')) {
+        counter.record(kind, message.lineNumber - 1);
+      }
+    }
+  }
+
+  const customRegexes = customPatterns
+    .filter(pattern => pattern.trim() && !findInvalidPatterns([pattern]).length)
+    .map(pattern => new RegExp(pattern, 'gi'));
+  counter.summary.invalidPatterns = findInvalidPatterns(customPatterns.filter(pattern => pattern.trim()));
+
+  lines.forEach((original, i) => {
+    let line = original;
+    line = line.replace(TRACK1_PATTERN, (match, pan: string) => {
+      if (!isLuhnValid(pan)) return match;
+      counter.record('track', i);
+      return maskTrack(match);
+    });
+    line = line.replace(TRACK2_PATTERN, (match, pan: string) => {
+      if (!isLuhnValid(pan)) return match;
+      counter.record('track', i);
+      return maskTrack(match);
+    });
+    for (const pattern of PIN_BLOCK_PATTERNS) {
+      line = line.replace(pattern, (match, prefix: string, value: string) => {
+        if (value.includes(MASK)) return match;
+        counter.record('pinBlock', i);
+        return prefix + MASK.repeat(value.length);
+      });
+    }
+    line = line.replace(CVV_PATTERN, (_match, prefix: string, value: string) => {
+      counter.record('cvv', i);
+      return prefix + MASK.repeat(value.length);
+    });
+    line = line.replace(PAN_PATTERN, match => {
+      if (!looksLikePan(match.replace(/\D/g, ''))) return match;
+      counter.record('pan', i);
+      return maskPan(match);
+    });
+    for (const regex of customRegexes) {
+      line = line.replace(regex, match => {
+        if (!match) return match;
+        counter.record('custom', i);
+        return CUSTOM_REPLACEMENT;
+      });
+    }
+    lines[i] = line;
+  });
+
+  const summary = counter.finish();
+  console.log('redaction: Redacted sensitive data', {
+    total: summary.total,
+    byKind: summary.byKind,
+    affectedLines: summary.lineNumbers.length,
+    invalidPatterns: summary.invalidPatterns.length
+  });
+  return { content: lines.join('\n'), summary };
+}
+
+/**
+ * Renders a one-line description of a redaction summary, e.g. "3 PANs, 1 PIN block".
+ */
+export function describeRedactionSummary(summary: RedactionSummary): string {
+  const labels: Record<RedactionKind, string> = {
+    pan: 'PAN',
+    track: 'track data value',
+    pinBlock: 'PIN block',
+    cvv: 'CVV',
+    custom: 'custom pattern match'
+  };
+  const parts = (Object.keys(labels) as RedactionKind[])
+    .filter(kind => summary.byKind[kind] > 0)
+    .map(kind => `${summary.byKind[kind]} ${labels[kind]}${summary.byKind[kind] === 1 ? '' : 's'}`);
+  return parts.length > 0 ? parts.join(', ') : 'No sensitive data found';
+}
@@ -0,0 +1,270 @@
+/**
+ * Machine-readable export of validation results.
+ * Builds the versioned JSON result document and JUnit XML (one testsuite per test case run,
+ * one testcase per step) so CI servers and test management tools can ingest the verdicts.
+ */
+import { getRunTasks, getRunVerdict } from '@/lib/historyStore';
+import { describePromptTemplateRef } from '@/lib/promptTemplates';
+import { parseTestCase } from '@/lib/testCase';
+import { getStepVerdict, getTaskVerdict, getTaskVerdictSource, VERDICT_SOURCE_LABELS } from '@/lib/validationResult';
+import { Task } from '@/types/chat';
+import { RunResult, StepResult, StepVerdict, ValidationResultDocument } from '@/types/export';
+import { RunVerdict, ValidationRun } from '@/types/history';
+import { RedactionSummary } from '@/types/log';
+import { PromptTemplateRef } from '@/types/promptTemplate';
+import { TestCase } from '@/types/testCase';
+
+export const RESULT_DOCUMENT_SCHEMA = 'eps-agent/validation-result';
+export const RESULT_DOCUMENT_VERSION = 1;
+
+export interface RunResultInput {
+  tasks: Task[];
+  logFile: string;
+  completedAt: Date;
+  startedAt?: Date;
+  testCase?: TestCase; // Parsed from the tasks' test case content when omitted
+  testCaseFile?: string;
+  runId?: string;
+  provider?: string;
+  model?: string;
+  promptTemplate?: PromptTemplateRef;
+  logHash?: string;
+  testCaseHash?: string;
+  redaction?: RedactionSummary;
+  verdict?: RunVerdict; // Overrides the verdict derived from the tasks
+  error?: string;
+}
+
+function getTaskStepVerdict(task: Task): StepVerdict {
+  return getTaskVerdict(task) || (task.incomplete ? 'INCOMPLETE' : 'UNKNOWN');
+}
+
+/**
+ * Converts a task into step results.
+ * A task for a single step gives one result; a task for a whole test case without recognised
+ * steps gives one result per step the model reported, so each still becomes its own testcase.
+ */
+function toStepResults(task: Task, durationMs?: number): StepResult[] {
+  const completedAt = task.completedAt?.toISOString();
+  const modelSteps = task.validationResult?.steps || [];
+  if (!task.step && modelSteps.length > 0 && !task.incomplete) {
+    return modelSteps.map(step => ({
+      stepNo: step.stepNo,
+      description: `Step ${step.stepNo}: ${step.expectedAction}`,
+      verdict: getStepVerdict(step),
+      source: getTaskVerdictSource(task),
+      reasoning: step.reasoning,
+      evidence: step.citedLogLines,
+      citations: step.citations,
+      expected: { action: step.expectedAction },
+      confidence: step.votes?.confidence,
+      completedAt
+    }));
+  }
+  return [{
+    stepNo: task.step?.stepNo,
+    description: task.description,
+    verdict: getTaskStepVerdict(task),
+    source: getTaskVerdictSource(task),
+    reasoning: modelSteps.some(step => step.assertions)
+      ? modelSteps.map(step => step.reasoning).join('\n')
+      : task.validationResult?.reasoningAndEvidence || task.justification || '',
+    evidence: modelSteps.flatMap(step => step.citedLogLines),
+    citations: task.validationResult && modelSteps.some(step => step.citations) ? modelSteps.flatMap(step => step.citations || []) : undefined,
+    expected: task.step && {
+      action: task.step.action,
+      result: task.step.expectedResult,
+      messageType: task.step.expectedMessageType,
+      responseCode: task.step.expectedResponseCode,
+      amount: task.step.expectedAmount,
+      assertions: task.step.assertions
+    },
+    assertions: modelSteps.some(step => step.assertions) ? modelSteps.flatMap(step => step.assertions || []) : undefined,
+    confidence: modelSteps.some(step => step.votes)
+      ? Math.min(...modelSteps.filter(step => step.votes).map(step => step.votes.confidence))
+      : undefined,
+    completedAt,
+    durationMs
+  }];
+}
+
+/**
+ * Builds the exported result of one test case validated against one log.
+ * Step durations are measured between consecutive task completions, starting at `startedAt`.
+ */
+export function buildRunResult(input: RunResultInput): RunResult {
+  const testCase = input.testCase || (input.tasks[0]?.testCaseContent ? parseTestCase(input.tasks[0].testCaseContent).testCase : null);
+  let previous = input.startedAt?.getTime();
+  const steps = input.tasks.flatMap(task => {
+    const finished = task.completedAt?.getTime();
+    const durationMs = previous !== undefined && finished !== undefined ? Math.max(0, finished - previous) : undefined;
+    if (finished !== undefined) previous = finished;
+    return toStepResults(task, durationMs);
+  });
+
+  return {
+    runId: input.runId,
+    logFile: input.logFile,
+    testCaseFile: input.testCaseFile,
+    testCaseId: testCase?.testCaseId,
+    testCaseTitle: testCase?.title,
+    provider: input.provider,
+    model: input.model,
+    promptTemplate: input.promptTemplate,
+    logHash: input.logHash,
+    testCaseHash: input.testCaseHash,
+    startedAt: input.startedAt?.toISOString(),
+    completedAt: input.completedAt.toISOString(),
+    verdict: input.verdict || getRunVerdict(input.tasks),
+    summary: {
+      steps: steps.length,
+      passed: steps.filter(step => step.verdict === 'PASS').length,
+      failed: steps.filter(step => step.verdict === 'FAIL').length,
+      incomplete: steps.filter(step => step.verdict === 'INCOMPLETE').length,
+      unknown: steps.filter(step => step.verdict === 'UNKNOWN').length,
+      unverified: steps.filter(step => step.verdict === 'UNVERIFIED').length,
+      ruleDerived: steps.filter(step => step.source === 'rule').length,
+      modelDerived: steps.filter(step => step.source === 'model').length
+    },
+    redaction: input.redaction,
+    error: input.error,
+    steps
+  };
+}
+
+/**
+ * Builds the exported result of a run from the history, with its stored model and hashes.
+ */
+export function buildStoredRunResult(run: ValidationRun): RunResult {
+  return buildRunResult({
+    tasks: getRunTasks(run),
+    logFile: run.fileName,
+    completedAt: run.completedAt,
+    startedAt: run.startedAt,
+    runId: run.id,
+    provider: run.provider,
+    model: run.model,
+    promptTemplate: run.promptTemplate,
+    logHash: run.logHash,
+    testCaseHash: run.testCaseHash,
+    redaction: run.redaction
+  });
+}
+
+/**
+ * Wraps run results in the versioned result document.
+ */
+export function buildResultDocument(runs: RunResult[]): ValidationResultDocument {
+  return {
+    schema: RESULT_DOCUMENT_SCHEMA,
+    version: RESULT_DOCUMENT_VERSION,
+    generatedAt: new Date().toISOString(),
+    runs
+  };
+}
+
+// XML 1.0 allows tab, line feed and carriage return, but no other control character below space
+function isXmlChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0A || code === 0x0D;
+}
+
+// Escapes text for XML content and attributes, dropping characters XML 1.0 does not allow
+function escapeXml(value: string): string {
+  return value
+    .split('')
+    .filter(isXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function seconds(durationMs?: number): string {
+  return ((durationMs || 0) / 1000).toFixed(3);
+}
+
+function firstLine(text: string, fallback: string): string {
+  const line = text.trim().split('\n')[0] || fallback;
+  return line.length > 200 ? `${line.slice(0, 197)}...` : line;
+}
+
+function describeEvidence(step: StepResult): string {
+  const evidence = step.citations
+    ? step.citations.map(citation => `${citation.lineNumbers.length > 0 ? `[line ${citation.lineNumbers.join(', ')}]` : '[NOT FOUND IN LOG]'} ${citation.text}`)
+    : step.evidence;
+  const source = step.source ? `Verdict source: ${VERDICT_SOURCE_LABELS[step.source]}\n\n` : '';
+  const confidence = step.confidence !== undefined ? `Voting confidence: ${Math.round(step.confidence * 100)}%\n\n` : '';
+  return `${source}${confidence}${step.reasoning}\n\nEvidence:\n${evidence.length > 0 ? evidence.join('\n') : 'No log lines cited'}`;
+}
+
+function buildJUnitTestCase(run: RunResult, step: StepResult): string {
+  const attributes = `classname="${escapeXml(run.testCaseId || run.logFile)}" name="${escapeXml(step.description)}" time="${seconds(step.durationMs)}"`;
+  let outcome: string;
+  if (step.verdict === 'FAIL') {
+    outcome = `      <failure message="${escapeXml(firstLine(step.reasoning, 'Step failed'))}" type="FAIL">${escapeXml(describeEvidence(step))}</failure>\n`;
+  } else if (step.verdict === 'INCOMPLETE') {
+    outcome = `      <skipped message="${escapeXml(firstLine(step.reasoning, 'Validation was stopped'))}"/>\n`;
+  } else if (step.verdict === 'UNVERIFIED') {
+    const message = step.source === 'rule' ? 'An assertion could not be evaluated against the log' : 'None of the cited evidence was found in the log';
+    outcome = `      <error message="${message}" type="UNVERIFIED">${escapeXml(describeEvidence(step))}</error>\n`;
+  } else if (step.verdict === 'UNKNOWN') {
+    outcome = `      <error message="${escapeXml(firstLine(step.reasoning, 'No verdict could be read from the model output'))}" type="UNKNOWN">${escapeXml(step.reasoning)}</error>\n`;
+  } else {
+    outcome = `      <system-out>${escapeXml(describeEvidence(step))}</system-out>\n`;
+  }
+  return `    <testcase ${attributes}>\n${outcome}    </testcase>\n`;
+}
+
+function buildJUnitSuite(run: RunResult): string {
+  const name = `${run.testCaseId || 'Test case'}${run.testCaseTitle ? ` - ${run.testCaseTitle}` : ''} (${run.logFile})`;
+  const durationMs = run.startedAt ? new Date(run.completedAt).getTime() - new Date(run.startedAt).getTime() : 0;
+  const properties = [
+    ['verdict', run.verdict],
+    ['logFile', run.logFile],
+    ['testCaseFile', run.testCaseFile],
+    ['provider', run.provider],
+    ['model', run.model],
+    ['promptTemplate', run.promptTemplate ? describePromptTemplateRef(run.promptTemplate) : undefined],
+    ['logHash', run.logHash],
+    ['testCaseHash', run.testCaseHash],
+    ['runId', run.runId],
+    ['ruleDerivedSteps', String(run.summary.ruleDerived)],
+    ['modelDerivedSteps', String(run.summary.modelDerived)]
+  ].filter(([, value]) => value)
+    .map(([key, value]) => `      <property name="${key}" value="${escapeXml(value)}"/>\n`)
+    .join('');
+  const counts = `tests="${run.summary.steps}" failures="${run.summary.failed}" errors="${run.summary.unknown + run.summary.unverified}" skipped="${run.summary.incomplete}"`;
+  return `  <testsuite name="${escapeXml(name)}" ${counts} time="${seconds(durationMs)}" timestamp="${run.startedAt || run.completedAt}">\n` +
+    `    <properties>\n${properties}    </properties>\n` +
+    run.steps.map(step => buildJUnitTestCase(run, step)).join('') +
+    '  </testsuite>\n';
+}
+
+/**
+ * Renders a result document as JUnit XML.
+ * Failed steps carry the model's reasoning and cited log lines in <failure>; unverified steps and
+ * steps without a readable verdict are reported as <error> and stopped steps as <skipped>.
+ */
+export function buildJUnitXml(document: ValidationResultDocument): string {
+  const total = (key: keyof RunResult['summary']) => document.runs.reduce((sum, run) => sum + run.summary[key], 0);
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<testsuites name="EPS validation" tests="${total('steps')}" failures="${total('failed')}" errors="${total('unknown') + total('unverified')}" skipped="${total('incomplete')}">\n` +
+    document.runs.map(buildJUnitSuite).join('') +
+    '</testsuites>\n';
+}
+
+/**
+ * Starts a browser download of text content.
+ */
+export function downloadTextFile(content: string, fileName: string, type: string): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
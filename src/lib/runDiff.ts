@@ -0,0 +1,215 @@
+/**
+ * Run-to-run regression diff.
+ * Matches the steps of a validation run to those of the baseline run of the same test case
+ * and reports verdict changes, evidence cited in only one of the two runs, and how the
+ * timing of each step's evidence moved between the two logs.
+ */
+import { parseLogTimestamp } from '@/lib/correlation';
+import { parseEpsLog } from '@/lib/logParser';
+import { getStepEvidenceLines } from '@/lib/logView';
+import { BaselineStatus, RunDiff, StepChange, StepDiff } from '@/types/baseline';
+import { RunResult, StepResult, StepVerdict } from '@/types/export';
+import { LogRecord } from '@/types/log';
+
+export const STEP_CHANGE_LABELS: Record<StepChange, string> = {
+  unchanged: 'Unchanged',
+  regressed: 'Regressed',
+  fixed: 'Fixed',
+  changed: 'Changed',
+  added: 'New step',
+  removed: 'Missing step'
+};
+
+export const BASELINE_STATUS_LABELS: Record<BaselineStatus, string> = {
+  unchanged: 'Same as baseline',
+  regressed: 'Regressed vs baseline',
+  improved: 'Improved vs baseline',
+  changed: 'Changed vs baseline'
+};
+
+// Values that differ on every run of the same flow: timestamps, UUIDs, STANs, RRNs and other references
+const VOLATILE_PATTERNS: [RegExp, string][] = [
+  [/\b\d{4}-\d{2}-\d{2}[T\s]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?/g, '<time>'],
+  [/\b\d{2}[/-]\d{2}[/-]\d{4}\s+\d{2}:\d{2}:\d{2}(?:[.,]\d+)?/g, '<time>'],
+  [/\b\d{2}:\d{2}:\d{2}(?:[.,]\d+)?\b/g, '<time>'],
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<id>'],
+  [/\d{6,}/g, '<n>']
+];
+
+interface StepEvidence {
+  texts: Set<string>;
+  firstTime?: number;
+  lastTime?: number;
+}
+
+/**
+ * Masks the values that change between runs so the same log record written by a new build
+ * compares equal to the baseline's.
+ */
+export function normaliseEvidenceText(text: string): string {
+  return VOLATILE_PATTERNS
+    .reduce((normalised, [pattern, replacement]) => normalised.replace(pattern, replacement), text)
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Cited lines are widened to the parsed record containing them; steps without located
+// citations fall back to the evidence text the verdict quoted
+function collectEvidence(steps: StepResult[], logContent?: string): StepEvidence[] {
+  if (logContent === undefined) return steps.map(() => ({ texts: new Set<string>() }));
+  const recordByLine = new Map<number, LogRecord>();
+  parseEpsLog(logContent).records.forEach(record => {
+    for (let lineNumber = record.lineNumber; lineNumber <= record.endLineNumber; lineNumber++) {
+      recordByLine.set(lineNumber, record);
+    }
+  });
+  const rawLines = logContent.split(/\r?\n/);
+
+  return steps.map(step => {
+    const evidence: StepEvidence = { texts: new Set() };
+    const lineNumbers = getStepEvidenceLines(step.citations);
+    if (lineNumbers.length === 0) {
+      step.evidence.forEach(text => evidence.texts.add(normaliseEvidenceText(text)));
+      return evidence;
+    }
+    const seen = new Set<LogRecord>();
+    lineNumbers.forEach(lineNumber => {
+      const record = recordByLine.get(lineNumber);
+      if (!record) {
+        evidence.texts.add(normaliseEvidenceText(rawLines[lineNumber - 1] || ''));
+        return;
+      }
+      if (seen.has(record)) return;
+      seen.add(record);
+      evidence.texts.add(normaliseEvidenceText(record.raw));
+      const time = parseLogTimestamp(record.timestamp);
+      if (time === undefined) return;
+      evidence.firstTime = Math.min(evidence.firstTime ?? time, time);
+      evidence.lastTime = Math.max(evidence.lastTime ?? time, time);
+    });
+    evidence.texts.delete('');
+    return evidence;
+  });
+}
+
+// Steps are matched by number; runs of unnumbered test cases are matched by description
+function getStepKeys(steps: StepResult[]): string[] {
+  const counts = new Map<string, number>();
+  return steps.map(step => {
+    const base = step.stepNo !== undefined ? `step-${step.stepNo}` : step.description.trim().toLowerCase();
+    const count = (counts.get(base) || 0) + 1;
+    counts.set(base, count);
+    return count > 1 ? `${base}#${count}` : base;
+  });
+}
+
+function getEvidenceStart(evidence: StepEvidence[]): number | undefined {
+  const times = evidence.map(step => step.firstTime).filter(time => time !== undefined);
+  return times.length > 0 ? Math.min(...times) : undefined;
+}
+
+function getEvidenceSpan(evidence: StepEvidence[]): number | undefined {
+  const start = getEvidenceStart(evidence);
+  const ends = evidence.map(step => step.lastTime).filter(time => time !== undefined);
+  return start !== undefined ? Math.max(...ends) - start : undefined;
+}
+
+/**
+ * Classifies a step's verdict change. A step regresses when it stops passing or starts failing.
+ */
+export function classifyStepChange(baselineVerdict: StepVerdict, verdict: StepVerdict): StepChange {
+  if (baselineVerdict === verdict) return 'unchanged';
+  if (verdict === 'PASS') return 'fixed';
+  if (baselineVerdict === 'PASS' || verdict === 'FAIL') return 'regressed';
+  return 'changed';
+}
+
+/**
+ * Compares a run with its baseline.
+ * Without the two logs only verdicts are compared, which is enough for flagging runs in a list;
+ * with them, evidence records and their timing are compared as well.
+ * @param baseline - Result of the baseline run, from `buildStoredRunResult`.
+ * @param result - Result of the run being compared.
+ * @param logs - Log content each run validated.
+ */
+export function diffRuns(baseline: RunResult, result: RunResult, logs?: { baseline: string; current: string }): RunDiff {
+  const baselineEvidence = collectEvidence(baseline.steps, logs?.baseline);
+  const currentEvidence = collectEvidence(result.steps, logs?.current);
+  const baselineStart = getEvidenceStart(baselineEvidence);
+  const currentStart = getEvidenceStart(currentEvidence);
+  const baselineKeys = getStepKeys(baseline.steps);
+  const currentKeys = getStepKeys(result.steps);
+  const baselineIndex = new Map(baselineKeys.map((key, index) => [key, index]));
+
+  const offset = (evidence: StepEvidence | undefined, start: number | undefined) =>
+    evidence?.firstTime !== undefined && start !== undefined ? evidence.firstTime - start : undefined;
+
+  const steps: StepDiff[] = result.steps.map((step, index) => {
+    const key = currentKeys[index];
+    const matched = baselineIndex.get(key);
+    const before = matched !== undefined ? baseline.steps[matched] : undefined;
+    const beforeEvidence = matched !== undefined ? baselineEvidence[matched] : undefined;
+    const evidence = currentEvidence[index];
+    return {
+      key,
+      stepNo: step.stepNo,
+      description: step.description,
+      change: before ? classifyStepChange(before.verdict, step.verdict) : 'added',
+      baselineVerdict: before?.verdict,
+      verdict: step.verdict,
+      newEvidence: beforeEvidence ? [...evidence.texts].filter(text => !beforeEvidence.texts.has(text)) : [],
+      missingEvidence: beforeEvidence ? [...beforeEvidence.texts].filter(text => !evidence.texts.has(text)) : [],
+      baselineOffsetMs: offset(beforeEvidence, baselineStart),
+      offsetMs: offset(evidence, currentStart)
+    };
+  });
+
+  const currentKeySet = new Set(currentKeys);
+  baseline.steps.forEach((step, index) => {
+    if (currentKeySet.has(baselineKeys[index])) return;
+    steps.push({
+      key: baselineKeys[index],
+      stepNo: step.stepNo,
+      description: step.description,
+      change: 'removed',
+      baselineVerdict: step.verdict,
+      newEvidence: [],
+      missingEvidence: [],
+      baselineOffsetMs: offset(baselineEvidence[index], baselineStart)
+    });
+  });
+
+  const changedSteps = steps.filter(step => step.change !== 'unchanged').length;
+  const evidenceChanges = steps.filter(step => step.newEvidence.length > 0 || step.missingEvidence.length > 0).length;
+  const onlyFixed = steps.every(step => step.change === 'unchanged' || step.change === 'fixed');
+  let status: BaselineStatus = 'unchanged';
+  if (steps.some(step => step.change === 'regressed')) {
+    status = 'regressed';
+  } else if (changedSteps > 0 && onlyFixed) {
+    status = 'improved';
+  } else if (changedSteps > 0 || evidenceChanges > 0) {
+    status = 'changed';
+  }
+
+  console.log('runDiff: Runs compared', {
+    baselineRunId: baseline.runId,
+    runId: result.runId,
+    status,
+    changedSteps,
+    evidenceChanges
+  });
+  return {
+    baselineRunId: baseline.runId,
+    baselineStartedAt: baseline.startedAt,
+    baselineVerdict: baseline.verdict,
+    verdict: result.verdict,
+    status,
+    steps,
+    changedSteps,
+    evidenceChanges,
+    baselineSpanMs: getEvidenceSpan(baselineEvidence),
+    spanMs: getEvidenceSpan(currentEvidence),
+    baselinePromptTemplate: baseline.promptTemplate,
+    promptTemplate: result.promptTemplate
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Settings store for the EPS Agent.
+ * Persists the selected LLM provider, endpoint, model, generation parameters,
+ * content limits, custom redaction patterns, transaction correlation keys,
+ * self-consistency voting options, the active prompt template and few-shot example limits
+ * to local storage and notifies subscribers when they change.
+ */
+import { CorrelationKey } from '@/types/correlation';
+
+export type ProviderKind = 'ollama' | 'openai' | 'mock';
+
+export interface AgentSettings {
+  provider: ProviderKind;
+  baseUrl: string;
+  model: string;
+  temperature: number;
+  numCtx: number; // Context window passed to Ollama as `num_ctx`
+  maxContentLength: number; // Character limit applied by truncateContent
+  redactionPatterns: string[]; // Extra regular expressions masked by redactSensitiveData
+  correlationKeys: CorrelationKey[]; // Identifiers used to group log records into transactions
+  votingSamples: number; // Validations sampled per voting model; verdicts are decided by majority when more than one runs
+  votingSeed: number | null; // Seed of each model's first sample, incremented per sample; null samples unseeded
+  votingModels: string[]; // Installed models that each vote; empty votes with the selected model only
+  promptTemplateId: string; // Template used for validation prompts (see promptTemplates.ts); its latest version is used
+  fewShotExampleCount: number; // Most similar stored examples added to each validation prompt; 0 adds none
+  fewShotMaxLength: number; // Character budget for those examples, further limited by the content limit
+}
+
+const STORAGE_KEY = 'eps-agent:settings';
+
+// Default endpoint for each provider kind
+export const DEFAULT_BASE_URLS: Record<ProviderKind, string> = {
+  ollama: 'http://localhost:11434',
+  openai: 'http://localhost:1234/v1', // LM Studio; llama.cpp server and vLLM expose the same /v1 API
+  mock: ''
+};
+
+// Default model for each provider kind
+export const DEFAULT_MODELS: Record<ProviderKind, string> = {
+  ollama: 'phi3:mini',
+  openai: 'local-model', // LM Studio answers with the loaded model whatever the name
+  mock: 'mock'
+};
+
+export const DEFAULT_SETTINGS: AgentSettings = {
+  provider: 'ollama',
+  baseUrl: DEFAULT_BASE_URLS.ollama,
+  model: DEFAULT_MODELS.ollama,
+  temperature: 0.2,
+  numCtx: 4096,
+  maxContentLength: 50000,
+  redactionPatterns: [],
+  correlationKeys: ['stan', 'rrn', 'requestId', 'endToEndId'],
+  votingSamples: 1,
+  votingSeed: null,
+  votingModels: [],
+  promptTemplateId: 'default',
+  fewShotExampleCount: 3,
+  fewShotMaxLength: 4000
+};
+
+type SettingsListener = (settings: AgentSettings) => void;
+
+const listeners = new Set<SettingsListener>();
+let currentSettings: AgentSettings | null = null;
+
+function hasStorage(): boolean {
+  return typeof localStorage !== 'undefined';
+}
+
+/**
+ * Returns the current settings, reading local storage on first access.
+ * Unknown or corrupt stored values fall back to the defaults.
+ */
+export function getSettings(): AgentSettings {
+  if (currentSettings) return currentSettings;
+
+  let stored: Partial<AgentSettings> = {};
+  if (hasStorage()) {
+    try {
+      stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    } catch (error) {
+      console.warn('settings: Ignoring corrupt stored settings', error);
+    }
+  }
+  currentSettings = { ...DEFAULT_SETTINGS, ...stored };
+  return currentSettings;
+}
+
+/**
+ * Merges an update into the settings, persists it and notifies subscribers.
+ * @param update - Fields to change.
+ * @returns The new settings object.
+ */
+export function updateSettings(update: Partial<AgentSettings>): AgentSettings {
+  currentSettings = { ...getSettings(), ...update };
+  if (hasStorage()) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(currentSettings));
+  }
+  console.log('settings: Updated', { fields: Object.keys(update), provider: currentSettings.provider, model: currentSettings.model });
+  listeners.forEach(listener => listener(currentSettings!));
+  return currentSettings;
+}
+
+/**
+ * Restores the default settings.
+ */
+export function resetSettings(): AgentSettings {
+  return updateSettings(DEFAULT_SETTINGS);
+}
+
+/**
+ * Registers a listener for settings changes.
+ * @returns A function that removes the listener.
+ */
+export function subscribeSettings(listener: SettingsListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,384 @@
+/**
+ * Structured test case parsing for EPS validation.
+ * Turns a pasted test case (JSON, XML or numbered plain text) into a typed TestCase,
+ * reports parse and validation issues with the field (and line) they belong to,
+ * and serialises edited test cases back to JSON.
+ */
+import { parseAssertion } from '@/lib/assertions';
+import { getActivePromptTemplateRef } from '@/lib/promptTemplates';
+import { parseXml, XmlElement } from '@/lib/xmlTree';
+import { EpsConfirmationData, Task } from '@/types/chat';
+import { TestCase, TestCaseFormat, TestCaseIssue, TestCaseParseResult, TestStep } from '@/types/testCase';
+
+// Structures the chat already treats as test cases (JSON TestCaseID/StepNo, XML <StepNo>)
+export const TEST_CASE_PATTERN = /{TestCaseID|StepNo\b|<StepNo/i;
+
+const TEST_CASE_ID_KEYS = /^(test[_\s-]?case[_\s-]?id|tc[_\s-]?id|id)$/i;
+const TITLE_KEYS = /^(title|name|test[_\s-]?case[_\s-]?name|summary)$/i;
+const PRECONDITION_KEYS = /^(pre[_\s-]?conditions?|prerequisites?)$/i;
+const STEPS_KEYS = /^(steps|test[_\s-]?steps)$/i;
+const STEP_NO_KEYS = /^(step[_\s-]?no|step[_\s-]?number|step)$/i;
+const ACTION_KEYS = /^(action|step[_\s-]?action|description|step[_\s-]?description|test[_\s-]?step)$/i;
+const EXPECTED_KEYS = /^(expected[_\s-]?result|expected|expected[_\s-]?outcome|verification)$/i;
+const MESSAGE_TYPE_KEYS = /^(expected[_\s-]?(message[_\s-]?type|msg[_\s-]?type|mti)|message[_\s-]?type|mti)$/i;
+const RESPONSE_CODE_KEYS = /^(expected[_\s-]?(response[_\s-]?code|rc|status)|response[_\s-]?code|rc)$/i;
+const AMOUNT_KEYS = /^(expected[_\s-]?amount|amount)$/i;
+const ASSERTION_KEYS = /^(assertions?|asserts?)$/i;
+
+// Plain-text headers and step lines
+const TEXT_ID_LINE = /^\s*(?:test\s*case\s*id|testcaseid|tc\s*id)\s*[:=]\s*(.+)$/i;
+const TEXT_TITLE_LINE = /^\s*(?:title|test\s*case(?:\s*name)?|name)\s*[:=]\s*(.+)$/i;
+const TEXT_PRECONDITIONS_LINE = /^\s*(?:pre-?conditions?|prerequisites?)\s*:?\s*(.*)$/i;
+const TEXT_STEPS_LINE = /^\s*(?:test\s*)?steps\s*:?\s*$/i;
+const TEXT_BULLET_LINE = /^\s*[-*•]\s+(.+)$/;
+// "1. Send 0200", "Step 2: ...", "3) ...", "StepNo 4 - ..."
+const NUMBERED_LINE = /^\s*(?:step\s*(?:no\.?|number)?\s*)?(\d{1,3})\s*[.):-]\s*(.+)$/i;
+const MESSAGE_TYPE_LINE = /^\s*expected\s*(?:message\s*type|msg\s*type|mti)\s*[:=-]\s*(.+)$/i;
+const RESPONSE_CODE_LINE = /^\s*expected\s*(?:response\s*code|rc|status)\s*[:=-]\s*(.+)$/i;
+const AMOUNT_LINE = /^\s*expected\s*amount\s*[:=-]\s*(.+)$/i;
+const EXPECTED_LINE = /^\s*(?:expected(?:\s*result)?|verify)\s*[:-]\s*(.+)$/i;
+const ASSERTION_LINE = /^\s*assert(?:ion)?\s*:\s*(.+)$/i;
+
+function scalar(value: unknown): string | undefined {
+  if (value === undefined || value === null || typeof value === 'object') return undefined;
+  const text = String(value).trim();
+  return text || undefined;
+}
+
+function findKey(record: Record<string, unknown>, pattern: RegExp): string | undefined {
+  const key = Object.keys(record).find(k => pattern.test(k));
+  return key ? scalar(record[key]) : undefined;
+}
+
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(scalar).filter(Boolean) as string[];
+  const text = scalar(value);
+  return text ? text.split(/\r?\n|;\s*/).map(item => item.trim()).filter(Boolean) : [];
+}
+
+// Assertions are one per line or array item; semicolons are left alone since regexes may contain them
+function toAssertionList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value.map(scalar) : (scalar(value) || '').split(/\r?\n/);
+  return items.map(item => item?.trim()).filter(Boolean);
+}
+
+/**
+ * Renders a step as text: action, expected result and expected message fields.
+ */
+export function describeTestStep(step: TestStep): string {
+  const lines = [`Step ${step.stepNo}: ${step.action}`];
+  if (step.expectedResult) lines.push(`Expected result: ${step.expectedResult}`);
+  if (step.expectedMessageType) lines.push(`Expected message type: ${step.expectedMessageType}`);
+  if (step.expectedResponseCode) lines.push(`Expected response code: ${step.expectedResponseCode}`);
+  if (step.expectedAmount) lines.push(`Expected amount: ${step.expectedAmount}`);
+  (step.assertions || []).forEach(assertion => lines.push(`Assert: ${assertion}`));
+  return lines.join('\n');
+}
+
+function buildStep(fields: Omit<TestStep, 'raw'>, raw?: string): TestStep {
+  const step: TestStep = { ...fields, raw: '' };
+  step.raw = raw || describeTestStep(step);
+  return step;
+}
+
+function stepFromRecord(record: Record<string, unknown>, position: number, issues: TestCaseIssue[]): TestStep {
+  const assertionsKey = Object.keys(record).find(key => ASSERTION_KEYS.test(key));
+  const assertions = assertionsKey ? toAssertionList(record[assertionsKey]) : [];
+  const stepNoText = findKey(record, STEP_NO_KEYS);
+  let stepNo = parseInt(stepNoText || '', 10);
+  if (isNaN(stepNo)) {
+    issues.push({ severity: 'warning', message: `Step ${position + 1} has no step number; using its position`, path: `steps.${position}.stepNo` });
+    stepNo = position + 1;
+  }
+  return buildStep({
+    stepNo,
+    action: findKey(record, ACTION_KEYS) || '',
+    expectedResult: findKey(record, EXPECTED_KEYS),
+    expectedMessageType: findKey(record, MESSAGE_TYPE_KEYS),
+    expectedResponseCode: findKey(record, RESPONSE_CODE_KEYS),
+    expectedAmount: findKey(record, AMOUNT_KEYS),
+    assertions: assertions.length > 0 ? assertions : undefined
+  }, JSON.stringify(record, null, 2));
+}
+
+// Finds the step list: an explicit Steps array, otherwise every nested object with a step number
+function collectJsonSteps(value: unknown, steps: Record<string, unknown>[]): void {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectJsonSteps(item, steps));
+    return;
+  }
+  if (!value || typeof value !== 'object') return;
+  const record = value as Record<string, unknown>;
+  if (findKey(record, STEP_NO_KEYS) !== undefined) {
+    steps.push(record);
+    return;
+  }
+  Object.values(record).forEach(child => collectJsonSteps(child, steps));
+}
+
+function jsonErrorLine(content: string, error: unknown): number | undefined {
+  const position = error instanceof Error ? error.message.match(/position (\d+)/)?.[1] : undefined;
+  return position ? content.slice(0, parseInt(position, 10)).split('\n').length : undefined;
+}
+
+function parseJsonTestCase(content: string, issues: TestCaseIssue[]): TestCase | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    issues.push({
+      severity: 'error',
+      message: `Invalid JSON: ${error instanceof Error ? error.message : 'could not be parsed'}`,
+      line: jsonErrorLine(content, error)
+    });
+    return null;
+  }
+
+  const root = (Array.isArray(parsed) ? { Steps: parsed } : parsed) as Record<string, unknown>;
+  const stepsKey = Object.keys(root).find(key => STEPS_KEYS.test(key) && Array.isArray(root[key]));
+  const stepRecords: Record<string, unknown>[] = [];
+  if (stepsKey) {
+    (root[stepsKey] as unknown[]).forEach(item => {
+      if (item && typeof item === 'object' && !Array.isArray(item)) stepRecords.push(item as Record<string, unknown>);
+    });
+  } else {
+    collectJsonSteps(root, stepRecords);
+  }
+  const preconditionsKey = Object.keys(root).find(key => PRECONDITION_KEYS.test(key));
+
+  return {
+    testCaseId: findKey(root, TEST_CASE_ID_KEYS),
+    title: findKey(root, TITLE_KEYS),
+    preconditions: preconditionsKey ? toList(root[preconditionsKey]) : [],
+    steps: stepRecords.map((record, position) => stepFromRecord(record, position, issues))
+  };
+}
+
+function xmlRecord(element: XmlElement): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+  element.children.forEach(child => {
+    if (child.children.length === 0) record[child.name] = child.text;
+  });
+  return record;
+}
+
+function collectXmlSteps(element: XmlElement, steps: XmlElement[]): void {
+  if (element.children.some(child => STEP_NO_KEYS.test(child.name) && child.children.length === 0)) {
+    steps.push(element);
+    return;
+  }
+  element.children.forEach(child => collectXmlSteps(child, steps));
+}
+
+function parseXmlTestCase(content: string, issues: TestCaseIssue[]): TestCase | null {
+  const root = parseXml(content);
+  if (!root) {
+    issues.push({ severity: 'error', message: 'Invalid XML: the document is not well-formed (check for unclosed or mismatched tags)' });
+    return null;
+  }
+
+  const stepsElement = root.children.find(child => STEPS_KEYS.test(child.name));
+  const stepElements: XmlElement[] = stepsElement ? [...stepsElement.children] : [];
+  if (!stepsElement) collectXmlSteps(root, stepElements);
+  const preconditionsElement = root.children.find(child => PRECONDITION_KEYS.test(child.name));
+  const fields = xmlRecord(root);
+
+  return {
+    testCaseId: findKey(fields, TEST_CASE_ID_KEYS),
+    title: findKey(fields, TITLE_KEYS),
+    preconditions: preconditionsElement
+      ? (preconditionsElement.children.length > 0 ? preconditionsElement.children.map(child => child.text) : toList(preconditionsElement.text))
+      : [],
+    steps: stepElements.map((element, position) => {
+      const step = stepFromRecord(xmlRecord(element), position, issues);
+      // <Assert> may repeat, or <Assertions> may wrap one <Assert> per line
+      const assertions = element.children
+        .filter(child => ASSERTION_KEYS.test(child.name))
+        .flatMap(child => (child.children.length > 0 ? child.children.map(item => item.text) : toAssertionList(child.text)))
+        .map(text => text.trim())
+        .filter(Boolean);
+      step.assertions = assertions.length > 0 ? assertions : undefined;
+      step.raw = describeTestStep(step);
+      return step;
+    })
+  };
+}
+
+function parseTextTestCase(content: string, stepLines: number[]): TestCase {
+  const testCase: TestCase = { preconditions: [], steps: [] };
+  let section: 'header' | 'preconditions' | 'steps' = 'header';
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    const current = testCase.steps[testCase.steps.length - 1];
+    const numbered = line.match(NUMBERED_LINE);
+    let match: RegExpMatchArray | null;
+
+    if (section !== 'steps' && (match = line.match(TEXT_ID_LINE))) {
+      testCase.testCaseId = match[1].trim();
+    } else if (section !== 'steps' && (match = line.match(TEXT_TITLE_LINE))) {
+      testCase.title = match[1].trim();
+    } else if ((match = line.match(TEXT_PRECONDITIONS_LINE)) && !numbered) {
+      section = 'preconditions';
+      if (match[1].trim()) testCase.preconditions.push(match[1].trim());
+    } else if (TEXT_STEPS_LINE.test(line)) {
+      section = 'steps';
+    } else if (section === 'preconditions' && (match = line.match(TEXT_BULLET_LINE))) {
+      testCase.preconditions.push(match[1].trim());
+    } else if (numbered) {
+      section = 'steps';
+      testCase.steps.push({ stepNo: parseInt(numbered[1], 10), action: numbered[2].trim(), raw: line.trim() });
+      stepLines.push(index + 1);
+    } else if (current) {
+      if ((match = line.match(MESSAGE_TYPE_LINE))) current.expectedMessageType = match[1].trim();
+      else if ((match = line.match(RESPONSE_CODE_LINE))) current.expectedResponseCode = match[1].trim();
+      else if ((match = line.match(AMOUNT_LINE))) current.expectedAmount = match[1].trim();
+      else if ((match = line.match(ASSERTION_LINE))) current.assertions = [...(current.assertions || []), match[1].trim()];
+      else if ((match = line.match(EXPECTED_LINE))) current.expectedResult = match[1].trim();
+      current.raw += `\n${line.trim()}`;
+    }
+  });
+  return testCase;
+}
+
+/**
+ * Checks a test case for problems that block validation (errors) or are worth a look (warnings).
+ * Used for parsed test cases and for the form editor.
+ * @param stepLines - Source line of each step, when the test case was parsed from text.
+ */
+export function validateTestCase(testCase: TestCase, stepLines: number[] = []): TestCaseIssue[] {
+  const issues: TestCaseIssue[] = [];
+  if (testCase.steps.length === 0) {
+    issues.push({ severity: 'warning', message: 'No steps found; the test case will be validated as a single task', path: 'steps' });
+    return issues;
+  }
+
+  const seen = new Map<number, number>();
+  testCase.steps.forEach((step, index) => {
+    const line = stepLines[index];
+    if (!Number.isInteger(step.stepNo) || step.stepNo < 1) {
+      issues.push({ severity: 'error', message: 'Step number must be a positive whole number', path: `steps.${index}.stepNo`, line });
+    } else if (seen.has(step.stepNo)) {
+      issues.push({ severity: 'error', message: `Step number ${step.stepNo} is used more than once`, path: `steps.${index}.stepNo`, line });
+    }
+    seen.set(step.stepNo, index);
+    if (!step.action.trim()) {
+      issues.push({ severity: 'error', message: `Step ${step.stepNo} has no action`, path: `steps.${index}.action`, line });
+    }
+    if (step.expectedMessageType && !/^(\d{4}|[a-z]{4}\.\d{3}(\.\d{3}\.\d{2})?)$/i.test(step.expectedMessageType)) {
+      issues.push({ severity: 'warning', message: 'Expected message type is neither an ISO 8583 MTI (e.g. 0210) nor an ISO 20022 type (e.g. pacs.002)', path: `steps.${index}.expectedMessageType`, line });
+    }
+    if (step.expectedResponseCode && !/^[0-9A-Z]{2,4}$/i.test(step.expectedResponseCode)) {
+      issues.push({ severity: 'warning', message: 'Expected response code should be 2-4 letters or digits (e.g. 00, 51, ACSC, AM04)', path: `steps.${index}.expectedResponseCode`, line });
+    }
+    if (step.expectedAmount && !/^\d+(\.\d+)?$/.test(step.expectedAmount.replace(/,/g, ''))) {
+      issues.push({ severity: 'error', message: 'Expected amount must be a number (e.g. 1500.00)', path: `steps.${index}.expectedAmount`, line });
+    }
+    (step.assertions || []).filter(assertion => assertion.trim()).forEach(assertion => {
+      const { error } = parseAssertion(assertion);
+      if (error) issues.push({ severity: 'error', message: `Step ${step.stepNo}: ${error}`, path: `steps.${index}.assertions`, line });
+    });
+  });
+
+  const numbers = testCase.steps.map(step => step.stepNo);
+  if (numbers.some((value, index) => index > 0 && value < numbers[index - 1])) {
+    issues.push({ severity: 'warning', message: 'Steps are not in ascending order; they are validated by step number', path: 'steps' });
+  }
+  return issues;
+}
+
+/**
+ * Detects the format of a pasted test case.
+ */
+export function detectTestCaseFormat(content: string): TestCaseFormat {
+  const trimmed = content.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) return 'json';
+  if (trimmed.startsWith('<')) return 'xml';
+  return 'text';
+}
+
+/**
+ * Parses a test case from JSON, XML or numbered plain text.
+ * @param content - The pasted test case.
+ * @returns The typed test case (null when JSON/XML syntax is broken) and any issues found.
+ */
+export function parseTestCase(content: string): TestCaseParseResult {
+  const format = detectTestCaseFormat(content);
+  const issues: TestCaseIssue[] = [];
+  const stepLines: number[] = [];
+  const trimmed = content.trim();
+
+  let testCase: TestCase | null;
+  if (format === 'json') {
+    testCase = parseJsonTestCase(trimmed, issues);
+  } else if (format === 'xml') {
+    testCase = parseXmlTestCase(trimmed, issues);
+  } else {
+    testCase = parseTextTestCase(content, stepLines);
+  }
+  if (testCase) issues.push(...validateTestCase(testCase, stepLines));
+
+  console.log('testCase: Parsed test case', {
+    format,
+    stepCount: testCase?.steps.length || 0,
+    errorCount: issues.filter(issue => issue.severity === 'error').length,
+    warningCount: issues.filter(issue => issue.severity === 'warning').length
+  });
+  return { testCase, format, issues };
+}
+
+/**
+ * Serialises a test case (e.g. after editing it in the form) to JSON.
+ * The output parses back to the same test case with parseTestCase.
+ */
+export function serializeTestCase(testCase: TestCase): string {
+  return JSON.stringify({
+    TestCaseID: testCase.testCaseId || undefined,
+    Title: testCase.title || undefined,
+    Preconditions: testCase.preconditions.some(item => item.trim()) ? testCase.preconditions.filter(item => item.trim()) : undefined,
+    Steps: testCase.steps.map(step => ({
+      StepNo: step.stepNo,
+      Action: step.action,
+      ExpectedResult: step.expectedResult || undefined,
+      ExpectedMessageType: step.expectedMessageType || undefined,
+      ExpectedResponseCode: step.expectedResponseCode || undefined,
+      ExpectedAmount: step.expectedAmount || undefined,
+      Assertions: step.assertions?.some(item => item.trim()) ? step.assertions.filter(item => item.trim()) : undefined
+    }))
+  }, null, 2);
+}
+
+/**
+ * Builds the test case text for validating a single step.
+ * The full test case is kept for context (preconditions, identifiers) but the model is
+ * told to judge only the selected step.
+ */
+export function buildStepTestCase(testCaseContent: string, step: TestStep): string {
+  return [
+    `Validate ONLY step ${step.stepNo} of the test case below. Return exactly one step in "steps" (stepNo ${step.stepNo}); the overall result is that step's verdict.`,
+    describeTestStep(step),
+    '',
+    'Full test case for context:',
+    testCaseContent
+  ].join('\n');
+}
+
+/**
+ * Creates one validation task per test step, in step order.
+ * Falls back to a single task for the whole test case when no steps were recognised.
+ */
+export function createStepTasks(data: EpsConfirmationData): Task[] {
+  const steps = [...(data.testCase?.steps || [])].sort((a, b) => a.stepNo - b.stepNo);
+  // Every step is validated with the template version active when the run starts
+  const promptTemplate = getActivePromptTemplateRef();
+  return (steps.length > 0 ? steps : [undefined]).map(step => ({
+    id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    description: step ? `Step ${step.stepNo}: ${step.action}` : 'Validate test case against EPS log',
+    completed: false,
+    epsLogContent: data.epsLogContent,
+    testCaseContent: data.testCaseContent,
+    redaction: data.redaction,
+    step,
+    promptTemplate
+  }));
+}
@@ -0,0 +1,95 @@
+/**
+ * Test suite parsing for batch validation.
+ * A suite holds several test cases: a JSON array (or an object with a TestCases array),
+ * an XML document with <TestCase> elements, or plain text with one "TestCaseID:" header per test case.
+ * Each test case is parsed with parseTestCase, so suite entries accept the same formats as the chat.
+ */
+import { detectTestCaseFormat, parseTestCase } from '@/lib/testCase';
+import { SuiteTestCase, TestSuiteParseResult } from '@/types/batch';
+import { TestCaseIssue } from '@/types/testCase';
+
+const TEST_CASES_KEYS = /^(test[_\s-]?cases|cases|tests|suite)$/i;
+const XML_TEST_CASE = /<TestCase\b[^>]*>[\s\S]*?<\/TestCase>/gi;
+const TEXT_TEST_CASE_HEADER = /^\s*(?:test\s*case\s*id|testcaseid|tc\s*id)\s*[:=]/i;
+
+// Splits JSON suite content into one JSON string per test case
+function splitJsonSuite(content: string, issues: TestCaseIssue[]): string[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    issues.push({ severity: 'error', message: `Invalid JSON: ${error instanceof Error ? error.message : 'could not be parsed'}` });
+    return [];
+  }
+  let entries: unknown[] = [parsed];
+  if (Array.isArray(parsed)) {
+    entries = parsed;
+  } else if (parsed && typeof parsed === 'object') {
+    const record = parsed as Record<string, unknown>;
+    const key = Object.keys(record).find(k => TEST_CASES_KEYS.test(k) && Array.isArray(record[k]));
+    if (key) entries = record[key] as unknown[];
+  }
+  return entries.map(entry => JSON.stringify(entry, null, 2));
+}
+
+// Splits plain text at each "TestCaseID:" header; text before the first header is ignored
+function splitTextSuite(content: string): string[] {
+  const blocks: string[][] = [];
+  for (const line of content.split('\n')) {
+    if (TEXT_TEST_CASE_HEADER.test(line)) {
+      blocks.push([]);
+    }
+    blocks[blocks.length - 1]?.push(line);
+  }
+  return blocks.length > 0 ? blocks.map(block => block.join('\n')) : [content];
+}
+
+/**
+ * Parses a suite file into its test cases.
+ * @param content - The suite file content.
+ * @returns The test cases that parsed, and issues for the suite and each test case.
+ */
+export function parseTestSuite(content: string): TestSuiteParseResult {
+  const issues: TestCaseIssue[] = [];
+  const trimmed = content.trim();
+  const format = detectTestCaseFormat(trimmed);
+
+  let blocks: string[];
+  if (format === 'json') {
+    blocks = splitJsonSuite(trimmed, issues);
+  } else if (format === 'xml') {
+    blocks = trimmed.match(XML_TEST_CASE) || [trimmed];
+  } else {
+    blocks = splitTextSuite(content);
+  }
+
+  const testCases: SuiteTestCase[] = [];
+  const keys = new Set<string>();
+  blocks.forEach((block, index) => {
+    const parsed = parseTestCase(block);
+    const label = parsed.testCase?.testCaseId || `#${index + 1}`;
+    parsed.issues.forEach(issue => issues.push({
+      ...issue,
+      message: `Test case ${label}: ${issue.message}`,
+      path: issue.path ? `testCases.${index}.${issue.path}` : `testCases.${index}`
+    }));
+    if (!parsed.testCase || parsed.issues.some(issue => issue.severity === 'error')) return;
+    if (keys.has(label)) {
+      issues.push({ severity: 'error', message: `Test case ${label} appears more than once; only the first is used`, path: `testCases.${index}` });
+      return;
+    }
+    keys.add(label);
+    testCases.push({ key: label, testCase: parsed.testCase, content: block });
+  });
+
+  if (blocks.length === 0 && issues.length === 0) {
+    issues.push({ severity: 'error', message: 'The suite contains no test cases' });
+  }
+  console.log('testSuite: Parsed test suite', {
+    format,
+    blockCount: blocks.length,
+    testCaseCount: testCases.length,
+    errorCount: issues.filter(issue => issue.severity === 'error').length
+  });
+  return { testCases, issues };
+}
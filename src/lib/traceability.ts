@@ -0,0 +1,122 @@
+/**
+ * Traceability matrix between test case steps and log evidence.
+ * Pairs each step of an exported run result with the parsed log records its verified
+ * citations point at, and renders the matrix as CSV for certification auditors.
+ */
+import { parseEpsLog } from '@/lib/logParser';
+import { getStepEvidenceLines } from '@/lib/logView';
+import { VERDICT_SOURCE_LABELS } from '@/lib/validationResult';
+import { RunResult, StepVerdict } from '@/types/export';
+import { TraceabilityMatrix, TraceRecord, TraceRelation, TraceStep } from '@/types/traceability';
+
+const RELATIONS: Partial<Record<StepVerdict, TraceRelation>> = {
+  PASS: 'satisfies',
+  FAIL: 'contradicts',
+  UNVERIFIED: 'unverified'
+};
+
+export const TRACE_RELATION_LABELS: Record<TraceRelation, string> = {
+  satisfies: 'Satisfies',
+  contradicts: 'Contradicts',
+  unverified: 'Unverified',
+  undetermined: 'Undetermined'
+};
+
+/**
+ * Builds the traceability matrix for one run.
+ * Cited lines are widened to the parsed record containing them, so a multi-line
+ * message appears once with its timestamp, level and service.
+ * @param result - Run result from `buildRunResult`, whose steps carry checked citations.
+ * @param logContent - The log the run validated.
+ */
+export function buildTraceabilityMatrix(result: RunResult, logContent: string): TraceabilityMatrix {
+  const stepLines = result.steps.map(step => getStepEvidenceLines(step.citations));
+  const citedLines = new Set(stepLines.flat());
+  const rawLines = logContent.split(/\r?\n/);
+
+  // Record containing each cited line; lines no format parsed stand on their own
+  const recordByLine = new Map<number, TraceRecord>();
+  for (const record of parseEpsLog(logContent).records) {
+    let trace: TraceRecord | undefined;
+    for (let lineNumber = record.lineNumber; lineNumber <= record.endLineNumber; lineNumber++) {
+      if (!citedLines.has(lineNumber)) continue;
+      trace = trace || {
+        lineNumber: record.lineNumber,
+        endLineNumber: record.endLineNumber,
+        text: record.raw,
+        timestamp: record.timestamp,
+        level: record.level,
+        service: record.service,
+        messageType: record.messageType,
+        stepKeys: []
+      };
+      recordByLine.set(lineNumber, trace);
+    }
+  }
+  for (const lineNumber of citedLines) {
+    if (!recordByLine.has(lineNumber)) {
+      recordByLine.set(lineNumber, { lineNumber, endLineNumber: lineNumber, text: rawLines[lineNumber - 1] || '', level: 'UNKNOWN', stepKeys: [] });
+    }
+  }
+
+  const steps: TraceStep[] = result.steps.map((step, index) => {
+    const key = `step-${index}`;
+    const records = [...new Set(stepLines[index].map(lineNumber => recordByLine.get(lineNumber)))];
+    records.forEach(record => record.stepKeys.push(key));
+    return {
+      key,
+      stepNo: step.stepNo,
+      action: step.expected?.action || step.description,
+      expectedResult: step.expected?.result,
+      verdict: step.verdict,
+      source: step.source,
+      relation: RELATIONS[step.verdict] || 'undetermined',
+      reasoning: step.reasoning,
+      lineNumbers: records.map(record => record.lineNumber).sort((a, b) => a - b),
+      missingCitations: (step.citations || []).filter(citation => citation.lineNumbers.length === 0).map(citation => citation.text)
+    };
+  });
+
+  const records = [...new Set(recordByLine.values())].sort((a, b) => a.lineNumber - b.lineNumber);
+  console.log('traceability: Matrix built', { stepCount: steps.length, recordCount: records.length });
+  return {
+    logFile: result.logFile,
+    testCaseId: result.testCaseId,
+    testCaseTitle: result.testCaseTitle,
+    model: result.model,
+    logHash: result.logHash,
+    steps,
+    records
+  };
+}
+
+// Quotes a CSV cell; cells that spreadsheets would evaluate as formulas are prefixed with a quote
+function csvCell(value: string | number | undefined): string {
+  let text = value === undefined ? '' : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Renders the matrix as CSV with one row per step and evidence record.
+ * Steps without evidence get a single row with empty log columns.
+ */
+export function buildTraceabilityCsv(matrix: TraceabilityMatrix): string {
+  const header = [
+    'Test Case ID', 'Step', 'Action', 'Expected Result', 'Verdict', 'Verdict Source', 'Relation',
+    'Log Line', 'Timestamp', 'Level', 'Service', 'Message Type', 'Log Record',
+    'Citations Not Found', 'Reasoning', 'Log File', 'Log SHA-256', 'Model'
+  ];
+  const recordsByLine = new Map(matrix.records.map(record => [record.lineNumber, record]));
+  const rows = matrix.steps.flatMap(step => {
+    const records = step.lineNumbers.map(lineNumber => recordsByLine.get(lineNumber));
+    return (records.length > 0 ? records : [undefined]).map(record => [
+      matrix.testCaseId, step.stepNo, step.action, step.expectedResult, step.verdict,
+      step.source && VERDICT_SOURCE_LABELS[step.source], TRACE_RELATION_LABELS[step.relation],
+      record && (record.endLineNumber > record.lineNumber ? `${record.lineNumber}-${record.endLineNumber}` : record.lineNumber),
+      record?.timestamp, record?.level, record?.service, record?.messageType, record?.text,
+      step.missingCitations.join('; '), step.reasoning, matrix.logFile, matrix.logHash, matrix.model
+    ]);
+  });
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
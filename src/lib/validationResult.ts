@@ -0,0 +1,268 @@
+/**
+ * Structured validation output for the EPS Agent.
+ * Defines the JSON schema sent to the model, runtime validation of its reply
+ * and conversion back to the human-readable justification format.
+ */
+import { z } from 'zod';
+import { VerdictSource } from '@/types/assertion';
+import { CheckedVerdict, CitationCheck, ChunkFinding, StepValidation, Task, ValidationResult, Verdict } from '@/types/chat';
+import { StepVotes } from '@/types/voting';
+
+export const VERDICT_SOURCE_LABELS: Record<VerdictSource, string> = {
+  rule: 'Rules (assertions)',
+  model: 'Model'
+};
+
+// Most cautious first: the order votes are listed in and ties are broken by
+export const VOTE_ORDER: CheckedVerdict[] = ['FAIL', 'UNVERIFIED', 'PASS'];
+
+const verdictSchema = z.preprocess(
+  value => (typeof value === 'string' ? value.trim().toUpperCase() : value),
+  z.enum(['PASS', 'FAIL'])
+);
+
+// Runtime schema; mirrors VALIDATION_RESULT_JSON_SCHEMA below
+export const validationResultSchema = z.object({
+  overallResult: verdictSchema,
+  reasoningAndEvidence: z.string().default(''),
+  steps: z.array(z.object({
+    stepNo: z.coerce.number().int(),
+    expectedAction: z.string(),
+    verdict: verdictSchema,
+    citedLogLines: z.array(z.string()).default([]),
+    reasoning: z.string().default('')
+  }))
+});
+
+// JSON schema passed to the model (Ollama `format`, OpenAI `response_format`)
+export const VALIDATION_RESULT_JSON_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    overallResult: { type: 'string', enum: ['PASS', 'FAIL'] },
+    reasoningAndEvidence: { type: 'string' },
+    steps: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          stepNo: { type: 'integer' },
+          expectedAction: { type: 'string' },
+          verdict: { type: 'string', enum: ['PASS', 'FAIL'] },
+          citedLogLines: { type: 'array', items: { type: 'string' } },
+          reasoning: { type: 'string' }
+        },
+        required: ['stepNo', 'expectedAction', 'verdict', 'citedLogLines', 'reasoning']
+      }
+    }
+  },
+  required: ['overallResult', 'reasoningAndEvidence', 'steps']
+};
+
+// Runtime schema for per-chunk findings; mirrors CHUNK_FINDINGS_JSON_SCHEMA below
+export const chunkFindingsSchema = z.object({
+  findings: z.array(z.object({
+    stepNo: z.coerce.number().int(),
+    expectedAction: z.string().default(''),
+    verdict: z.preprocess(
+      value => (typeof value === 'string' ? value.trim().toUpperCase().replace(/[\s-]+/g, '_') : value),
+      z.enum(['PASS', 'FAIL', 'NO_EVIDENCE'])
+    ),
+    citedLogLines: z.array(z.string()).default([]),
+    reasoning: z.string().default('')
+  }))
+});
+
+// JSON schema for the map step of chunked validation
+export const CHUNK_FINDINGS_JSON_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          stepNo: { type: 'integer' },
+          expectedAction: { type: 'string' },
+          verdict: { type: 'string', enum: ['PASS', 'FAIL', 'NO_EVIDENCE'] },
+          citedLogLines: { type: 'array', items: { type: 'string' } },
+          reasoning: { type: 'string' }
+        },
+        required: ['stepNo', 'expectedAction', 'verdict', 'citedLogLines', 'reasoning']
+      }
+    }
+  },
+  required: ['findings']
+};
+
+export interface ParseValidationResult {
+  result: ValidationResult | null;
+  error?: string; // Set when result is null
+}
+
+export interface ParseChunkFindings {
+  findings: ChunkFinding[] | null;
+  error?: string; // Set when findings is null
+}
+
+/**
+ * Extracts the JSON object from a model reply, tolerating code fences and surrounding prose.
+ */
+function extractJson(raw: string): string {
+  const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const text = fenced ? fenced[1] : raw;
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start >= 0 && end > start ? text.slice(start, end + 1) : text.trim();
+}
+
+/**
+ * Summarises zod issues in a form the model can act on during repair.
+ */
+function describeIssues(error: z.ZodError): string {
+  const issues = error.issues
+    .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+  return `Schema mismatch: ${issues}`;
+}
+
+/**
+ * Parses and validates a model reply against the validation result schema.
+ * @param raw - Raw model output.
+ * @returns The typed result, or a readable description of what is wrong with it.
+ */
+export function parseValidationResult(raw: string): ParseValidationResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(extractJson(raw));
+  } catch (error) {
+    return { result: null, error: `Invalid JSON: ${error instanceof Error ? error.message : 'parse error'}` };
+  }
+
+  const parsed = validationResultSchema.safeParse(data);
+  if (!parsed.success) {
+    return { result: null, error: describeIssues(parsed.error) };
+  }
+
+  // An overall PASS with failing steps is inconsistent; the step verdicts win
+  const result = parsed.data as ValidationResult;
+  if (result.overallResult === 'PASS' && result.steps.some(step => step.verdict === 'FAIL')) {
+    console.warn('validationResult: Overall PASS contradicts failing steps, downgrading to FAIL');
+    result.overallResult = 'FAIL';
+  }
+  return { result };
+}
+
+/**
+ * Parses and validates the findings a model reports for one log chunk.
+ */
+export function parseChunkFindings(raw: string): ParseChunkFindings {
+  let data: unknown;
+  try {
+    data = JSON.parse(extractJson(raw));
+  } catch (error) {
+    return { findings: null, error: `Invalid JSON: ${error instanceof Error ? error.message : 'parse error'}` };
+  }
+
+  const parsed = chunkFindingsSchema.safeParse(data);
+  if (!parsed.success) {
+    return { findings: null, error: describeIssues(parsed.error) };
+  }
+  return { findings: parsed.data.findings as ChunkFinding[] };
+}
+
+/**
+ * Returns a step's verdict after evidence checks: UNVERIFIED when none of its evidence is in the log.
+ */
+export function getStepVerdict(step: StepValidation): CheckedVerdict {
+  return step.unverified ? 'UNVERIFIED' : step.verdict;
+}
+
+/**
+ * Returns the verdict of a structured result after evidence checks: any verified FAIL fails it,
+ * otherwise any unverified step leaves it UNVERIFIED.
+ */
+export function getResultVerdict(result: ValidationResult): CheckedVerdict {
+  const verdicts = result.steps.map(getStepVerdict);
+  if (verdicts.includes('FAIL')) return 'FAIL';
+  if (verdicts.includes('UNVERIFIED')) return 'UNVERIFIED';
+  return result.overallResult;
+}
+
+/**
+ * Summarises how the samples voted on a step, e.g. "4/5 samples agree (FAIL 1, PASS 4)".
+ */
+export function formatStepVotes(votes: StepVotes): string {
+  const counts = VOTE_ORDER
+    .filter(verdict => votes.votes[verdict])
+    .map(verdict => `${verdict} ${votes.votes[verdict]}`)
+    .join(', ');
+  return `${Math.max(0, ...Object.values(votes.votes))}/${votes.samples} samples agree (${counts})`;
+}
+
+function describeCitation(citation: CitationCheck): string {
+  return citation.lineNumbers.length > 0
+    ? `"${citation.text}" (line ${citation.lineNumbers.slice(0, 3).join(', ')}${citation.lineNumbers.length > 3 ? ', ...' : ''})`
+    : `"${citation.text}" (NOT FOUND IN LOG)`;
+}
+
+/**
+ * Renders a structured result in the "Overall Result / Reasoning and Evidence" text format
+ * used for chat messages, clipboard copies and Markdown export.
+ * Checked citations show their log line numbers, or are flagged when they are not in the log.
+ */
+export function formatValidationResult(result: ValidationResult): string {
+  const stepLines = result.steps.map(step => {
+    const excerpts = step.citations ? step.citations.filter(citation => citation.kind === 'excerpt') : null;
+    const evidence = excerpts
+      ? (excerpts.length ? excerpts.map(describeCitation).join('; ') : 'none cited')
+      : (step.citedLogLines.length ? step.citedLogLines.map(line => `"${line}"`).join('; ') : 'none cited');
+    const hallucinatedIds = (step.citations || []).filter(citation => citation.kind === 'identifier' && citation.lineNumbers.length === 0);
+    const idNote = hallucinatedIds.length ? `\n    Identifiers not found in log: ${hallucinatedIds.map(citation => citation.text).join(', ')}` : '';
+    const verdict = !step.unverified
+      ? step.verdict
+      : step.assertions ? 'UNVERIFIED, assertions inconclusive' : `UNVERIFIED, model said ${step.verdict}`;
+    const voteNote = step.votes ? `\n    Votes: ${formatStepVotes(step.votes)}` : '';
+    return `- Step ${step.stepNo} (${verdict}): ${step.expectedAction}. ${step.reasoning}\n    Evidence: ${evidence}${idNote}${voteNote}`;
+  });
+  return [
+    `Overall Result: ${getResultVerdict(result)}`,
+    result.source && `Verdict Source: ${VERDICT_SOURCE_LABELS[result.source]}`,
+    result.voting && `Self-consistency: ${result.voting.samples.length} sample(s) at temperature ${result.voting.temperature}`,
+    'Reasoning and Evidence:',
+    result.reasoningAndEvidence,
+    ...stepLines
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Returns where a task's structured verdict came from; results saved before assertions
+ * existed are model-derived. Undefined when the task has no structured result.
+ */
+export function getTaskVerdictSource(task: Task): VerdictSource | undefined {
+  if (!task.validationResult) return undefined;
+  return task.validationResult.source || 'model';
+}
+
+/**
+ * Returns a task's verdict: the structured result (after evidence checks) when available,
+ * otherwise the "Overall Result: PASS/FAIL" line of a free-text justification.
+ */
+export function getTaskVerdict(task: Task): CheckedVerdict | undefined {
+  if (task.incomplete) return undefined;
+  if (task.validationResult) return getResultVerdict(task.validationResult);
+  const match = task.justification?.match(/Overall Result:\s*(PASS|FAIL)/i);
+  return match ? (match[1].toUpperCase() as Verdict) : undefined;
+}
+
+/**
+ * Combines task verdicts into the test case verdict: any FAIL fails the test case,
+ * it only passes when every task passed, and it is UNVERIFIED when the rest passed
+ * but some evidence could not be found in the log.
+ */
+export function combineTaskVerdicts(tasks: Task[]): CheckedVerdict | undefined {
+  const verdicts = tasks.map(getTaskVerdict);
+  if (verdicts.includes('FAIL')) return 'FAIL';
+  if (verdicts.length > 0 && verdicts.every(verdict => verdict === 'PASS')) return 'PASS';
+  if (verdicts.length > 0 && verdicts.every(verdict => verdict === 'PASS' || verdict === 'UNVERIFIED')) return 'UNVERIFIED';
+  return undefined;
+}
@@ -0,0 +1,102 @@
+/**
+ * Self-consistency voting over several validation samples.
+ * The same prompt is sampled several times per model (optionally seeded) and on each voting
+ * model; every step's verdict is decided by majority, and the share of samples that agree
+ * becomes the step's confidence.
+ */
+import { AgentSettings } from '@/lib/settings';
+import { getResultVerdict, getStepVerdict, VOTE_ORDER } from '@/lib/validationResult';
+import { CheckedVerdict, StepValidation, ValidationResult, Verdict } from '@/types/chat';
+import { VotingSample, VotingVoter } from '@/types/voting';
+
+/**
+ * Lists the samples a validation is voted from: `votingSamples` per voting model,
+ * seeded from `votingSeed` upwards when a seed is set.
+ * @returns One voter per sample; a single voter means voting is off.
+ */
+export function getVotingVoters(settings: AgentSettings): VotingVoter[] {
+  const models = settings.votingModels.map(model => model.trim()).filter(Boolean);
+  const sampleCount = Math.max(1, Math.floor(settings.votingSamples) || 1);
+  return (models.length > 0 ? models : [settings.model]).flatMap(model =>
+    Array.from({ length: sampleCount }, (_, index) => ({
+      model,
+      seed: settings.votingSeed === null || settings.votingSeed === undefined ? undefined : settings.votingSeed + index
+    }))
+  );
+}
+
+/**
+ * Describes a sample for progress messages and raw response headers, e.g. "phi3:mini, seed 42".
+ */
+export function describeVoter(voter: VotingVoter): string {
+  return voter.seed !== undefined ? `${voter.model}, seed ${voter.seed}` : voter.model;
+}
+
+// Ties go to the more cautious verdict
+function pickMajority(votes: Partial<Record<CheckedVerdict, number>>): CheckedVerdict {
+  return VOTE_ORDER.reduce((best, verdict) => ((votes[verdict] || 0) > (votes[best] || 0) ? verdict : best), VOTE_ORDER[0]);
+}
+
+/**
+ * Combines the results of several samples of the same validation.
+ * Steps are matched by number, and the overall verdict is derived from the voted steps.
+ * The voted step keeps the reasoning and checked evidence of the first sample that reached
+ * the winning verdict, so UNVERIFIED wins carry the unverified flag.
+ * @param results - Evidence-checked results of the samples that produced one.
+ * @param samples - Every sample, including those without a result, for the record.
+ * @param temperature - Sampling temperature the samples were drawn at.
+ */
+export function voteOnValidationResults(results: ValidationResult[], samples: VotingSample[], temperature: number): ValidationResult {
+  const stepNumbers = [...new Set(results.flatMap(result => result.steps.map(step => step.stepNo)))].sort((a, b) => a - b);
+
+  const steps: StepValidation[] = stepNumbers.map(stepNo => {
+    const candidates = results
+      .map(result => result.steps.find(step => step.stepNo === stepNo))
+      .filter(Boolean);
+    const votes: Partial<Record<CheckedVerdict, number>> = {};
+    candidates.forEach(step => {
+      const verdict = getStepVerdict(step);
+      votes[verdict] = (votes[verdict] || 0) + 1;
+    });
+    const winner = pickMajority(votes);
+    const representative = candidates.find(step => getStepVerdict(step) === winner);
+    return {
+      ...representative,
+      votes: { votes, samples: results.length, confidence: (votes[winner] || 0) / results.length }
+    };
+  });
+
+  // The overall verdict follows the voted steps, as a single result's does; only samples
+  // without steps vote on it directly
+  let overallResult: Verdict;
+  if (steps.length > 0) {
+    overallResult = steps.some(step => step.verdict === 'FAIL') ? 'FAIL' : 'PASS';
+  } else {
+    const passVotes = results.filter(result => result.overallResult === 'PASS').length;
+    overallResult = passVotes > results.length - passVotes ? 'PASS' : 'FAIL';
+  }
+  const failedSamples = samples.length - results.length;
+
+  // The summary comes from a sample that reached the voted verdict, when one did
+  const verdict = getResultVerdict({ overallResult, reasoningAndEvidence: '', steps });
+  const summarySource = results.find(result => getResultVerdict(result) === verdict) || results[0];
+
+  const voted: ValidationResult = {
+    overallResult,
+    reasoningAndEvidence: [
+      summarySource.reasoningAndEvidence,
+      `[Majority of ${results.length} sample(s)${failedSamples > 0 ? `; ${failedSamples} sample(s) gave no usable verdict` : ''}]`
+    ].join(' '),
+    steps,
+    citations: summarySource.citations,
+    source: 'model',
+    voting: { samples, temperature }
+  };
+  console.log('voting: Samples combined', {
+    sampleCount: samples.length,
+    usableSamples: results.length,
+    verdict,
+    lowestConfidence: steps.length > 0 ? Math.min(...steps.map(step => step.votes.confidence)) : undefined
+  });
+  return voted;
+}
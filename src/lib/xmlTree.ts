@@ -0,0 +1,117 @@
+/**
+ * Minimal XML reader for log payloads.
+ * Builds a namespace-stripped element tree without DOMParser so it also runs outside the browser.
+ * Intended for well-formed message documents, not arbitrary XML (no DTDs, no entity declarations).
+ */
+
+export interface XmlElement {
+  name: string; // Local name, namespace prefix removed
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // Concatenated direct text content, trimmed
+}
+
+const ENTITIES: Record<string, string> = {
+  '&lt;': '<',
+  '&gt;': '>',
+  '&amp;': '&',
+  '&quot;': '"',
+  '&apos;': "'"
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(lt|gt|amp|quot|apos);/g, entity => ENTITIES[entity]);
+}
+
+function localName(name: string): string {
+  return name.replace(/^[\w.-]+:/, '');
+}
+
+/**
+ * Parses an XML document into an element tree.
+ * @returns The root element, or null when the input is not well-formed.
+ */
+export function parseXml(xml: string): XmlElement | null {
+  const tokenPattern = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(xml)) !== null) {
+    const [token, cdata, closing, tagName, rawAttributes, selfClosing, text] = match;
+    if (token.startsWith('<!--') || token.startsWith('<?')) continue;
+
+    if (cdata !== undefined || text !== undefined) {
+      if (stack.length > 0) stack[stack.length - 1].text += cdata ?? decodeEntities(text);
+      continue;
+    }
+
+    if (closing) {
+      const element = stack.pop();
+      if (!element || element.name !== localName(tagName)) return null;
+      element.text = element.text.trim();
+      if (stack.length === 0) return element;
+      continue;
+    }
+
+    const attributes: Record<string, string> = {};
+    const attributePattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+    let attribute: RegExpExecArray | null;
+    while ((attribute = attributePattern.exec(rawAttributes || '')) !== null) {
+      attributes[attribute[1]] = decodeEntities(attribute[2] ?? attribute[3]);
+    }
+    const element: XmlElement = { name: localName(tagName), attributes, children: [], text: '' };
+    if (stack.length > 0) {
+      stack[stack.length - 1].children.push(element);
+    } else {
+      root = element;
+    }
+    if (selfClosing) {
+      if (stack.length === 0) return element;
+    } else {
+      stack.push(element);
+    }
+  }
+
+  return stack.length === 0 ? root : null;
+}
+
+/**
+ * Returns the first descendant matching a slash-separated path of local names, e.g. "GrpHdr/MsgId".
+ * A leading "//" searches at any depth.
+ */
+export function findElement(element: XmlElement | undefined | null, path: string): XmlElement | undefined {
+  if (!element) return undefined;
+  if (path.startsWith('//')) {
+    const rest = path.slice(2);
+    const direct = findElement(element, rest);
+    if (direct) return direct;
+    for (const child of element.children) {
+      const nested = findElement(child, path);
+      if (nested) return nested;
+    }
+    return undefined;
+  }
+  const [head, ...tail] = path.split('/');
+  const child = element.children.find(c => c.name === head);
+  if (!child) return undefined;
+  return tail.length === 0 ? child : findElement(child, tail.join('/'));
+}
+
+/**
+ * Returns all direct-path matches, e.g. every "CdtTrfTxInf" under the document root.
+ */
+export function findElements(element: XmlElement | undefined | null, path: string): XmlElement[] {
+  if (!element) return [];
+  const [head, ...tail] = path.split('/');
+  const matches = element.children.filter(c => c.name === head);
+  return tail.length === 0 ? matches : matches.flatMap(child => findElements(child, tail.join('/')));
+}
+
+/**
+ * Returns the trimmed text of the element at `path`, if present.
+ */
+export function textAt(element: XmlElement | undefined | null, path: string): string | undefined {
+  const found = findElement(element, path);
+  return found?.text || undefined;
+}
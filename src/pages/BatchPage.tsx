@@ -0,0 +1,503 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Download, FolderOpen, Layers, Loader2, Play, RotateCcw, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { validateBatchItem } from '@/api/batch';
+import {
+  buildBatchItems,
+  countPassedSteps,
+  isRetryable,
+  MAX_BATCH_CONCURRENCY,
+  runWithConcurrency,
+  suggestMappingTable,
+  summarizeBatch
+} from '@/lib/batch';
+import { readFileAsText, readRedactedFile } from '@/lib/epsUtils';
+import { sha256Hex } from '@/lib/hash';
+import { createValidationRun, getRunVerdict, saveRun } from '@/lib/historyStore';
+import { findTaskPromptTemplate } from '@/lib/promptTemplates';
+import { redactSensitiveData } from '@/lib/redaction';
+import { buildJUnitXml, buildResultDocument, buildRunResult, downloadTextFile } from '@/lib/resultExport';
+import { getSettings } from '@/lib/settings';
+import { parseTestSuite } from '@/lib/testSuite';
+import { BatchItem, BatchItemStatus, BatchLogFile, BatchMappingMode } from '@/types/batch';
+
+const NO_LOG = '__none__';
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  queued: '',
+  running: 'bg-primary/10 text-primary border-primary/20',
+  done: 'bg-success/10 text-success border-success/20',
+  error: 'bg-destructive/10 text-destructive border-destructive/20',
+  cancelled: 'bg-warning/10 text-warning border-warning/20'
+};
+
+/**
+ * Batch validation page
+ * Validates a suite of test cases against a folder of EPS logs through a queue with a
+ * concurrency limit, per-item status, retry of failed items and a suite-level summary
+ * Each finished item is saved to the run history
+ */
+const BatchPage: React.FC = () => {
+  const [logFiles, setLogFiles] = useState<BatchLogFile[]>([]);
+  const [isReadingLogs, setIsReadingLogs] = useState(false);
+  const [suiteFileName, setSuiteFileName] = useState('');
+  const [suiteContent, setSuiteContent] = useState('');
+  const [mode, setMode] = useState<BatchMappingMode>('filename');
+  const [table, setTable] = useState<Record<string, string>>({});
+  const [concurrency, setConcurrency] = useState(1);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+
+  // Suites may contain card data too; they are masked like a pasted test case before parsing
+  const suite = useMemo(
+    () => suiteContent ? parseTestSuite(redactSensitiveData(suiteContent, getSettings().redactionPatterns).content) : null,
+    [suiteContent]
+  );
+  const suiteErrors = suite?.issues.filter(issue => issue.severity === 'error') || [];
+  const mapping = useMemo(
+    () => buildBatchItems(suite?.testCases || [], logFiles, mode, table),
+    [suite, logFiles, mode, table]
+  );
+  const summary = summarizeBatch(items);
+  const retryableItems = items.filter(isRetryable);
+
+  const updateItem = (id: string, update: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...update } : item)));
+  };
+
+  // Read every file in the selected folder, redacting each one as it is read
+  const handleFolderChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length === 0) return;
+    console.log('BatchPage: Log folder selected', { fileCount: files.length });
+    setIsReadingLogs(true);
+    try {
+      const read = await Promise.all(files.map(async file => {
+        const { content, summary: redaction } = await readRedactedFile(file);
+        return { name: file.webkitRelativePath || file.name, content, redaction };
+      }));
+      setLogFiles(read);
+      setTable(suggestMappingTable(suite?.testCases || [], read));
+    } catch (error) {
+      console.error('BatchPage: Failed to read log folder', error);
+      toast({
+        title: 'Logs not loaded',
+        description: error instanceof Error ? error.message : 'Failed to read the log files.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsReadingLogs(false);
+    }
+  };
+
+  const handleSuiteChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    console.log('BatchPage: Suite file selected', { fileName: file.name, fileSize: file.size });
+    try {
+      const content = await readFileAsText(file);
+      setSuiteFileName(file.name);
+      setSuiteContent(content);
+      setTable(suggestMappingTable(parseTestSuite(redactSensitiveData(content, getSettings().redactionPatterns).content).testCases, logFiles));
+    } catch (error) {
+      console.error('BatchPage: Failed to read suite file', error);
+      toast({
+        title: 'Suite not loaded',
+        description: error instanceof Error ? error.message : 'Failed to read the suite file.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Validate one item and save it to the run history
+  const processItem = async (item: BatchItem, signal: AbortSignal) => {
+    const startedAt = new Date();
+    updateItem(item.id, { status: 'running', startedAt, completedAt: undefined, error: undefined, attempts: item.attempts + 1 });
+    const data = {
+      pathToFile: item.logFile.name,
+      epsLogContent: item.logFile.content,
+      testCaseContent: item.suiteTestCase.content,
+      testCase: item.suiteTestCase.testCase,
+      redaction: item.logFile.redaction,
+      timestamp: startedAt
+    };
+    const outcome = await validateBatchItem(data, signal);
+    const update: Partial<BatchItem> = {
+      status: outcome.stopped ? 'cancelled' : outcome.error ? 'error' : 'done',
+      tasks: outcome.tasks,
+      verdict: getRunVerdict(outcome.tasks),
+      error: outcome.error,
+      completedAt: new Date()
+    };
+    if (!outcome.stopped) {
+      try {
+        const run = await createValidationRun(data, outcome.tasks, startedAt);
+        await saveRun(run);
+        update.runId = run.id;
+      } catch (error) {
+        console.error('BatchPage: Failed to save run', { itemId: item.id, error });
+      }
+    }
+    console.log('BatchPage: Item finished', { itemId: item.id, status: update.status, verdict: update.verdict });
+    updateItem(item.id, update);
+  };
+
+  // Run items through the queue; items still queued when stopped are marked cancelled
+  const runQueue = async (queue: BatchItem[]) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsRunning(true);
+    console.log('BatchPage: Starting queue', { itemCount: queue.length, concurrency });
+    await runWithConcurrency(queue, concurrency, item => processItem(item, controller.signal), controller.signal);
+    if (controller.signal.aborted) {
+      const queuedIds = new Set(queue.map(item => item.id));
+      setItems(prev => prev.map(item => (queuedIds.has(item.id) && item.status === 'queued' ? { ...item, status: 'cancelled' } : item)));
+    }
+    abortControllerRef.current = null;
+    setIsRunning(false);
+    toast({
+      title: controller.signal.aborted ? 'Batch stopped' : 'Batch complete',
+      description: `${queue.length} item(s) processed with concurrency ${concurrency}.`,
+    });
+  };
+
+  const handleStart = () => {
+    if (mapping.items.length === 0) return;
+    setItems(mapping.items);
+    runQueue(mapping.items);
+  };
+
+  const handleRetry = (retry: BatchItem[]) => {
+    const queue = retry.map(item => ({ ...item, status: 'queued' as BatchItemStatus, tasks: [], verdict: undefined, error: undefined }));
+    const byId = new Map(queue.map(item => [item.id, item]));
+    console.log('BatchPage: Retrying items', { itemCount: queue.length });
+    setItems(prev => prev.map(item => byId.get(item.id) || item));
+    runQueue(queue);
+  };
+
+  // Export finished items as one result document, with one JUnit testsuite per item
+  const handleExport = async (format: 'json' | 'junit') => {
+    const settings = getSettings();
+    const finished = items.filter(item => item.status === 'done' || item.status === 'error');
+    const runs = await Promise.all(finished.map(async item => buildRunResult({
+      tasks: item.tasks,
+      logFile: item.logFile.name,
+      testCaseFile: suiteFileName,
+      testCase: item.suiteTestCase.testCase,
+      completedAt: item.completedAt || new Date(),
+      startedAt: item.startedAt,
+      runId: item.runId,
+      provider: settings.provider,
+      model: settings.model,
+      promptTemplate: findTaskPromptTemplate(item.tasks),
+      logHash: await sha256Hex(item.logFile.content),
+      testCaseHash: await sha256Hex(item.suiteTestCase.content),
+      redaction: item.logFile.redaction,
+      error: item.error
+    })));
+    const resultDocument = buildResultDocument(runs);
+    const baseName = `eps_batch_${suiteFileName || 'suite'}_${Date.now()}`;
+    if (format === 'junit') {
+      downloadTextFile(buildJUnitXml(resultDocument), `${baseName}.xml`, 'application/xml');
+    } else {
+      downloadTextFile(JSON.stringify(resultDocument, null, 2), `${baseName}.json`, 'application/json');
+    }
+    console.log('BatchPage: Exported results', { format, runCount: runs.length });
+    toast({
+      title: 'Results Exported',
+      description: `${runs.length} finished item(s) saved as ${format === 'junit' ? 'JUnit XML' : 'JSON'}.`,
+    });
+  };
+
+  const handleStop = () => {
+    console.log('BatchPage: Stop requested', { hasActiveQueue: !!abortControllerRef.current });
+    abortControllerRef.current?.abort();
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <Button variant="ghost" asChild className="gap-2">
+          <Link to="/">
+            <ArrowLeft className="w-4 h-4" />
+            Back to chat
+          </Link>
+        </Button>
+
+        {/* Inputs and mapping */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Layers className="w-5 h-5 text-primary" />
+              Batch Validation
+            </CardTitle>
+          </CardHeader>
+
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="log-folder" className="text-sm font-medium">Log folder</Label>
+                <Input
+                  id="log-folder"
+                  type="file"
+                  multiple
+                  ref={input => input?.setAttribute('webkitdirectory', '')}
+                  onChange={handleFolderChange}
+                  disabled={isRunning}
+                />
+                <p className="text-xs text-muted-foreground flex items-center gap-1">
+                  {isReadingLogs ? <Loader2 className="w-3 h-3 animate-spin" /> : <FolderOpen className="w-3 h-3" />}
+                  {isReadingLogs ? 'Reading and redacting logs...' : `${logFiles.length} log file(s) loaded`}
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="suite-file" className="text-sm font-medium">Suite file</Label>
+                <Input
+                  id="suite-file"
+                  type="file"
+                  accept=".json,.xml,.txt"
+                  onChange={handleSuiteChange}
+                  disabled={isRunning}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {suite ? `${suite.testCases.length} test case(s) in ${suiteFileName}` : 'JSON array, XML <TestCase> elements or text with one TestCaseID per test case'}
+                </p>
+                {suiteErrors.slice(0, 5).map((issue, index) => (
+                  <p key={index} className="text-xs text-destructive">{issue.message}</p>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="mapping-mode" className="text-sm font-medium">Mapping</Label>
+                <Select value={mode} onValueChange={(value) => setMode(value as BatchMappingMode)} disabled={isRunning}>
+                  <SelectTrigger id="mapping-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="filename">Test case ID in file name</SelectItem>
+                    <SelectItem value="table">Explicit table</SelectItem>
+                    <SelectItem value="all">All test cases against all logs</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="concurrency" className="text-sm font-medium">Concurrency</Label>
+                <Input
+                  id="concurrency"
+                  type="number"
+                  min={1}
+                  max={MAX_BATCH_CONCURRENCY}
+                  value={concurrency}
+                  onChange={(e) => setConcurrency(Math.min(MAX_BATCH_CONCURRENCY, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                  disabled={isRunning}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Items validated at the same time. Local models usually handle one request at a time.
+                </p>
+              </div>
+            </div>
+
+            {/* Explicit mapping table */}
+            {mode === 'table' && suite && suite.testCases.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs">Test case</TableHead>
+                    <TableHead className="text-xs">Log file</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {suite.testCases.map(suiteTestCase => (
+                    <TableRow key={suiteTestCase.key}>
+                      <TableCell className="text-xs py-1">
+                        {suiteTestCase.key}
+                        {suiteTestCase.testCase.title && <span className="block text-muted-foreground">{suiteTestCase.testCase.title}</span>}
+                      </TableCell>
+                      <TableCell className="text-xs py-1">
+                        <Select
+                          value={table[suiteTestCase.key] || NO_LOG}
+                          onValueChange={(value) => setTable(prev => ({ ...prev, [suiteTestCase.key]: value === NO_LOG ? undefined : value }))}
+                          disabled={isRunning}
+                        >
+                          <SelectTrigger className="h-8 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_LOG}>Not mapped</SelectItem>
+                            {logFiles.map(file => <SelectItem key={file.name} value={file.name}>{file.name}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <div className="text-xs text-muted-foreground space-y-1">
+              <p>{mapping.items.length} item(s) will be validated.</p>
+              {mapping.unmappedTestCases.length > 0 && (
+                <p className="text-warning">Test cases without a log: {mapping.unmappedTestCases.join(', ')}</p>
+              )}
+              {mapping.unmappedLogs.length > 0 && mode !== 'all' && (
+                <p>Logs not used: {mapping.unmappedLogs.join(', ')}</p>
+              )}
+            </div>
+
+            <div className="flex gap-3">
+              {isRunning ? (
+                <Button variant="destructive" onClick={handleStop} className="gap-2">
+                  <Square className="w-4 h-4" />
+                  Stop
+                </Button>
+              ) : (
+                <Button onClick={handleStart} disabled={mapping.items.length === 0 || isReadingLogs} className="gap-2">
+                  <Play className="w-4 h-4" />
+                  Start batch
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                onClick={() => handleRetry(retryableItems)}
+                disabled={isRunning || retryableItems.length === 0}
+                className="gap-2"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Retry failed ({retryableItems.length})
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Suite summary */}
+        {items.length > 0 && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="text-sm">Suite Summary</CardTitle>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => handleExport('junit')} disabled={isRunning} className="gap-2">
+                  <Download className="w-4 h-4" />
+                  JUnit XML
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleExport('json')} disabled={isRunning} className="gap-2">
+                  <Download className="w-4 h-4" />
+                  JSON
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Progress value={summary.total > 0 ? ((summary.total - summary.pending) / summary.total) * 100 : 0} />
+              <div className="grid grid-cols-4 gap-4 text-sm">
+                <div>
+                  <span className="text-muted-foreground">Items:</span>
+                  <span className="ml-2 font-medium">{summary.total}</span>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Passed:</span>
+                  <span className="ml-2 font-medium text-success">{summary.passed}</span>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Failed:</span>
+                  <span className="ml-2 font-medium text-destructive">{summary.failed}</span>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Errors:</span>
+                  <span className="ml-2 font-medium">{summary.errors}</span>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Incomplete:</span>
+                  <span className="ml-2 font-medium">{summary.incomplete}</span>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Pending:</span>
+                  <span className="ml-2 font-medium">{summary.pending}</span>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Pass rate:</span>
+                  <span className="ml-2 font-medium">{summary.passRate}%</span>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Duration:</span>
+                  <span className="ml-2 font-medium">{Math.round(summary.durationMs / 1000)}s</span>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Queue */}
+        {items.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-sm">Queue</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs">Test case</TableHead>
+                    <TableHead className="text-xs">Log file</TableHead>
+                    <TableHead className="text-xs">Status</TableHead>
+                    <TableHead className="text-xs">Verdict</TableHead>
+                    <TableHead className="text-xs">Steps passed</TableHead>
+                    <TableHead className="text-xs">Attempts</TableHead>
+                    <TableHead className="text-xs" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map(item => (
+                    <TableRow key={item.id}>
+                      <TableCell className="text-xs py-2 font-medium">{item.suiteTestCase.key}</TableCell>
+                      <TableCell className="text-xs py-2 break-all">{item.logFile.name}</TableCell>
+                      <TableCell className="text-xs py-2">
+                        <Badge variant="outline" className={`text-xs gap-1 ${STATUS_STYLES[item.status]}`}>
+                          {item.status === 'running' && <Loader2 className="w-3 h-3 animate-spin" />}
+                          {item.status}
+                        </Badge>
+                        {item.error && <span className="block text-destructive">{item.error}</span>}
+                      </TableCell>
+                      <TableCell className="text-xs py-2">{item.verdict && item.status !== 'running' ? item.verdict : '-'}</TableCell>
+                      <TableCell className="text-xs py-2">
+                        {item.tasks.length > 0 ? `${countPassedSteps(item)}/${item.tasks.length}` : '-'}
+                      </TableCell>
+                      <TableCell className="text-xs py-2">{item.attempts}</TableCell>
+                      <TableCell className="text-xs py-2">
+                        <div className="flex justify-end gap-1">
+                          {item.runId && (
+                            <Button variant="outline" size="sm" asChild>
+                              <Link to={`/history/${item.runId}`}>Open</Link>
+                            </Button>
+                          )}
+                          {isRetryable(item) && (
+                            <Button variant="ghost" size="sm" onClick={() => handleRetry([item])} disabled={isRunning}>
+                              Retry
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchPage;
@@ -1,10 +1,12 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { ChatInterface } from '@/components/chat/ChatInterface';
 import { EpsConfirmation } from '@/components/chat/EpsConfirmation';
 import { ShowListOfTasks } from '@/components/tasks/ShowListOfTasks';
 import { ShowCompletionAndJustification } from '@/components/tasks/ShowCompletionAndJustification';
 import { Sidebar } from '@/components/navigation/Sidebar';
 import { useToast } from '@/hooks/use-toast';
+import { DEFAULT_SESSION_TITLE, useChatSessions } from '@/hooks/use-chat-sessions';
 import { 
   ChatMessage, 
   ChatReply, 
@@ -13,126 +15,181 @@ import {
   EpsConfirmationData, 
   ApiResponse 
 } from '@/types/chat';
-import { buildEpsValidationPrompt, truncateContent } from '@/lib/epsUtils';
+import { ValidationRun } from '@/types/history';
+import { ChatAbortedError, requestChatCompletion } from '@/api/chat';
+import { runStructuredValidation } from '@/api/validation';
+import { buildStepTestCase, createStepTasks, TEST_CASE_PATTERN } from '@/lib/testCase';
+import { createValidationRun, getBaselineRun, saveRun } from '@/lib/historyStore';
+import { redactSensitiveData } from '@/lib/redaction';
+import { getSettings } from '@/lib/settings';
 
 /**
  * Main chat page component that orchestrates the entire EPS Agent interface
  * Manages state transitions between chatting, task processing, and completion modes
+ * Each chat session keeps its own messages, tasks and state; requests keep writing to the
+ * session that started them, so a validation can run while another session is open
  */
 export const ChatPage: React.FC = () => {
   // Core state management
-  const [appState, setAppState] = useState<AppState>(AppState.CHATTING);
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [completedTasksCount, setCompletedTasksCount] = useState(0);
-  const [currentFile, setCurrentFile] = useState<string>('');
-  const [isLoading, setIsLoading] = useState(false);
+  const {
+    sessions,
+    activeSession,
+    updateSession,
+    createSession,
+    switchSession,
+    renameSession,
+    deleteSession
+  } = useChatSessions();
+  const { appState, messages, tasks, completedTasksCount, currentFile } = activeSession;
+  const completionTimestamp = activeSession.completionTimestamp || activeSession.updatedAt;
+  const [busySessionIds, setBusySessionIds] = useState<string[]>([]);
   const [showConfirmation, setShowConfirmation] = useState(false);
-  const [completionTimestamp, setCompletionTimestamp] = useState<Date>(new Date());
+  // Baseline run of the test case each session last validated, shown as a diff in the results panel
+  const [baselineRuns, setBaselineRuns] = useState<Record<string, ValidationRun>>({});
+  // Controllers for the in-flight streaming request of each session, used by the Stop button
+  const abortControllersRef = useRef(new Map<string, AbortController>());
+  const isLoading = busySessionIds.includes(activeSession.id);
   
   const { toast } = useToast();
+  const navigate = useNavigate();
 
   // Utility function to generate unique IDs
   const generateId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
-  // Add message to chat history
-  const addMessage = useCallback((role: 'user' | 'assistant', content: string) => {
+  // Track the in-flight request of a session; pass null when it finishes
+  const setSessionRequest = useCallback((sessionId: string, controller: AbortController | null) => {
+    if (controller) {
+      abortControllersRef.current.set(sessionId, controller);
+    } else {
+      abortControllersRef.current.delete(sessionId);
+    }
+    setBusySessionIds(prev => controller ? [...prev, sessionId] : prev.filter(id => id !== sessionId));
+  }, []);
+
+  // Add message to a session's chat history; the first user message names an untitled session
+  const addMessage = useCallback((sessionId: string, role: 'user' | 'assistant', content: string, extra: Partial<ChatMessage> = {}) => {
     const message: ChatMessage = {
       id: generateId(),
       role,
       content,
-      timestamp: new Date()
+      timestamp: new Date(),
+      ...extra
     };
 
-    console.log('ChatPage: Adding message', { role, contentLength: content.length, messageId: message.id });
-    setMessages(prev => [...prev, message]);
+    console.log('ChatPage: Adding message', { sessionId, role, contentLength: content.length, messageId: message.id });
+    updateSession(sessionId, session => ({
+      messages: [...session.messages, message],
+      title: role === 'user' && session.title === DEFAULT_SESSION_TITLE
+        ? content.split('\n')[0].substring(0, 60)
+        : session.title
+    }));
     return message;
-  }, []);
+  }, [updateSession]);
+
+  // Append a streamed token to an in-progress message
+  const appendToMessage = useCallback((sessionId: string, id: string, token: string) => {
+    updateSession(sessionId, session => ({
+      messages: session.messages.map(m => (m.id === id ? { ...m, content: m.content + token } : m))
+    }));
+  }, [updateSession]);
 
-  // API call to chat backend
-  const callChatAPI = async (message: string, epsLogContent?: string, testCaseContent?: string, chatHistory: ChatMessage[] = []): Promise<ChatReply> => {
+  // Patch an existing message (e.g. finalize a streamed reply)
+  const updateMessage = useCallback((sessionId: string, id: string, update: Partial<ChatMessage>) => {
+    console.log('ChatPage: Updating message', { sessionId, messageId: id, fields: Object.keys(update) });
+    updateSession(sessionId, session => ({
+      messages: session.messages.map(m => (m.id === id ? { ...m, ...update } : m))
+    }));
+  }, [updateSession]);
+
+  // Abort the active session's in-flight request; the partial reply is kept and marked incomplete
+  const handleStopGeneration = useCallback(() => {
+    const controller = abortControllersRef.current.get(activeSession.id);
+    console.log('ChatPage: Stop requested', { sessionId: activeSession.id, hasActiveRequest: !!controller });
+    controller?.abort();
+  }, [activeSession.id]);
+
+  // API call to chat backend, streaming tokens to onToken as they arrive
+  const callChatAPI = async (
+    message: string,
+    epsLogContent?: string,
+    testCaseContent?: string,
+    chatHistory: ChatMessage[] = [],
+    onToken?: (token: string) => void,
+    signal?: AbortSignal
+  ): Promise<ChatReply> => {
     console.log('ChatPage: Making API call', { 
-      message, 
+      messageLength: message.length, 
       hasEpsLog: !!epsLogContent, 
       hasTestCase: !!testCaseContent,
       chatHistoryLength: chatHistory.length,
-      epsLogPreview: epsLogContent?.substring(0, 100) + (epsLogContent && epsLogContent.length > 100 ? '...' : ''),
-      testCasePreview: testCaseContent?.substring(0, 100) + (testCaseContent && testCaseContent.length > 100 ? '...' : '')
+      epsLogLength: epsLogContent?.length || 0,
+      testCaseLength: testCaseContent?.length || 0
     });
     
     try {
-      let prompt = message;
-      if (epsLogContent && testCaseContent) {
-        // Truncate inputs to avoid token limits
-        const truncatedLog = truncateContent(epsLogContent);
-        const truncatedTestCase = truncateContent(testCaseContent);
-        // Construct EPS validation prompt
-        prompt = buildEpsValidationPrompt(truncatedLog, truncatedTestCase);
-      }
-
-      const response = await fetch('http://localhost:11434/api/chat', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          model: "phi3:mini", // Updated to match chat.ts
-          messages: [
-            ...chatHistory.map(msg => ({
-              role: msg.role,
-              content: msg.content
-            })),
-            { role: "user", content: prompt }
-          ],
-          stream: false,
-        }),
+      const reply = await requestChatCompletion({
+        message,
+        epsLogContent,
+        testCaseContent,
+        messages: chatHistory,
+        onToken,
+        signal
       });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const reply = data?.message?.content || data?.content || "No reply from model";
       
       console.log('ChatPage: API reply received', { 
-        replyContentLength: reply.length,
-        replyPreview: reply.substring(0, 100) + (reply.length > 100 ? '...' : '')
+        replyContentLength: reply.length
       });
       return {
         chatResponse: reply,
         stateUpdate: appState
       };
     } catch (error) {
-      console.error('ChatPage: API call failed', error);
+      if (!(error instanceof ChatAbortedError)) {
+        console.error('ChatPage: API call failed', error);
+      }
       throw error;
     }
   };
 
   // Handle sending messages
-  const handleSendMessage = useCallback(async (messageContent: string) => {
+  const handleSendMessage = useCallback(async (rawContent: string) => {
     if (isLoading) return;
+    const sessionId = activeSession.id;
+    // Typed or pasted text is redacted before it is shown, logged or sent, like uploaded files
+    const { content: messageContent, summary: redaction } = redactSensitiveData(rawContent, getSettings().redactionPatterns);
 
     console.log('ChatPage: Processing user message', { 
-      messageContent: messageContent.substring(0, 50),
+      messageLength: messageContent.length,
+      redactedValues: redaction.total,
       currentState: appState 
     });
 
     // Check for test case in message (e.g., JSON or XML-like content)
-    const isTestCase = /{TestCaseID|StepNo\b|<StepNo/i.test(messageContent);
+    const isTestCase = TEST_CASE_PATTERN.test(messageContent);
     if (isTestCase) {
-      console.log('ChatPage: Test case detected in chat', { messageContent });
-      addMessage('user', messageContent);
-      addMessage('assistant', 'Test case detected. Please upload the corresponding EPS log file to proceed with validation.');
+      console.log('ChatPage: Test case detected in chat', { messageLength: messageContent.length });
+      addMessage(sessionId, 'user', messageContent);
+      addMessage(sessionId, 'assistant', 'Test case detected. Please upload the corresponding EPS log file to proceed with validation.');
       setShowConfirmation(true);
       return;
     }
 
-    // Add user message
-    addMessage('user', messageContent);
-    setIsLoading(true);
+    // Add user message and an empty assistant message that tokens stream into
+    addMessage(sessionId, 'user', messageContent);
+    const assistantMessage = addMessage(sessionId, 'assistant', '', { isStreaming: true });
+    const controller = new AbortController();
+    setSessionRequest(sessionId, controller);
 
     try {
-      const reply = await callChatAPI(messageContent, undefined, undefined, messages);
-      addMessage('assistant', reply.chatResponse);
+      const reply = await callChatAPI(
+        messageContent,
+        undefined,
+        undefined,
+        messages,
+        (token) => appendToMessage(sessionId, assistantMessage.id, token),
+        controller.signal
+      );
+      updateMessage(sessionId, assistantMessage.id, { content: reply.chatResponse, isStreaming: false });
 
       if (reply.stateUpdate && reply.stateUpdate !== appState) {
         console.log('ChatPage: State update received', { 
@@ -146,108 +203,196 @@ export const ChatPage: React.FC = () => {
         description: "EPS Agent has responded to your message.",
       });
     } catch (error) {
+      if (error instanceof ChatAbortedError) {
+        console.log('ChatPage: Message generation stopped', { partialLength: error.partialReply.length });
+        updateMessage(sessionId, assistantMessage.id, { content: error.partialReply, isStreaming: false, isIncomplete: true });
+        toast({
+          title: "Generation stopped",
+          description: "The partial response has been kept.",
+        });
+        return;
+      }
       console.error('ChatPage: Message handling failed', error);
-      addMessage('assistant', 'Sorry, I encountered an error processing your message. Please try again.');
+      updateMessage(sessionId, assistantMessage.id, {
+        content: 'Sorry, I encountered an error processing your message. Please try again.',
+        isStreaming: false
+      });
       toast({
         title: "Error",
         description: "Failed to send message. Please check your connection.",
         variant: "destructive",
       });
     } finally {
-      setIsLoading(false);
+      setSessionRequest(sessionId, null);
+    }
+  }, [isLoading, appState, activeSession.id, addMessage, appendToMessage, updateMessage, setSessionRequest, toast, messages]);
+
+  // Validate one task via API; resolves to the finished task and whether the user stopped the run
+  const processEpsValidation = useCallback(async (
+    task: Task,
+    sessionId: string,
+    chatHistory: ChatMessage[]
+  ): Promise<{ task: Task; stopped: boolean }> => {
+    console.log('ChatPage: Starting EPS validation', { sessionId, taskId: task.id, stepNo: task.step?.stepNo });
+    const assistantMessage = addMessage(sessionId, 'assistant', '', { isStreaming: true });
+    const controller = new AbortController();
+    setSessionRequest(sessionId, controller);
+    const heading = task.step ? `${task.description}\n` : '';
+    const finishTask = (update: Partial<Task>): Task => {
+      const finished: Task = { ...task, completed: true, completedAt: new Date(), ...update };
+      updateSession(sessionId, session => ({
+        tasks: session.tasks.map(t => (t.id === task.id ? finished : t)),
+        completedTasksCount: session.completedTasksCount + 1
+      }));
+      return finished;
+    };
+
+    try {
+      const outcome = await runStructuredValidation({
+        epsLogContent: task.epsLogContent,
+        testCaseContent: task.step ? buildStepTestCase(task.testCaseContent, task.step) : task.testCaseContent,
+        step: task.step,
+        promptTemplate: task.promptTemplate,
+        messages: chatHistory,
+        onToken: (token) => appendToMessage(sessionId, assistantMessage.id, token),
+        // Clear the malformed reply before the repair attempt streams in
+        onRepair: () => updateMessage(sessionId, assistantMessage.id, { content: '' }),
+        onProgress: (status) => updateMessage(sessionId, assistantMessage.id, { content: status }),
+        signal: controller.signal
+      });
+      const finished = finishTask({
+        justification: outcome.justification,
+        validationResult: outcome.result || undefined,
+        rawResponse: outcome.rawResponse,
+        prompt: outcome.prompt,
+        chunksConsulted: outcome.chunksConsulted,
+        promptTemplate: outcome.promptTemplate,
+        fewShotExampleIds: outcome.fewShotExampleIds
+      });
+
+      updateMessage(sessionId, assistantMessage.id, { content: heading + outcome.justification, isStreaming: false });
+      toast({
+        title: task.step ? `Step ${task.step.stepNo} validated` : "Validation complete",
+        description: outcome.result
+          ? `Result: ${outcome.result.overallResult}`
+          : `The model did not return a valid structured verdict (${outcome.parseError}). Showing its raw reply.`,
+        variant: outcome.result ? "default" : "destructive",
+      });
+      return { task: finished, stopped: false };
+    } catch (error) {
+      if (error instanceof ChatAbortedError) {
+        console.log('ChatPage: Validation stopped', { taskId: task.id, partialLength: error.partialReply.length });
+        const finished = finishTask({
+          incomplete: true,
+          justification: error.partialReply || 'Validation stopped before the model produced any output.',
+          rawResponse: error.partialReply
+        });
+        updateMessage(sessionId, assistantMessage.id, { content: heading + error.partialReply, isStreaming: false, isIncomplete: true });
+        toast({
+          title: "Validation stopped",
+          description: "The partial validation output has been kept and marked incomplete.",
+        });
+        return { task: finished, stopped: true };
+      }
+      console.error('ChatPage: Validation failed', error);
+      const finished = finishTask({
+        justification: `Validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+      updateMessage(sessionId, assistantMessage.id, {
+        content: `${heading}Sorry, validation failed. Please check the log file and test case format.`,
+        isStreaming: false
+      });
+      toast({
+        title: "Validation Error",
+        description: "Failed to validate EPS log. Please check your inputs.",
+        variant: "destructive",
+      });
+      return { task: finished, stopped: false };
+    } finally {
+      setSessionRequest(sessionId, null);
     }
-  }, [isLoading, appState, addMessage, toast, messages]);
+  }, [addMessage, appendToMessage, updateMessage, updateSession, setSessionRequest, toast]);
 
   // Handle file confirmation
   const handleFileConfirmation = useCallback(async (data: EpsConfirmationData) => {
+    // A second validation would replace the running one's abort controller
+    if (isLoading) return;
+    const sessionId = activeSession.id;
+    const chatHistory = messages;
     console.log('ChatPage: File confirmation received', {
+      sessionId,
       fileName: data.pathToFile,
       logLength: data.epsLogContent.length,
-      testCaseLength: data.testCaseContent.length
+      testCaseLength: data.testCaseContent.length,
+      redactedValues: data.redaction?.total || 0
     });
     
-    setCurrentFile(data.pathToFile);
     setShowConfirmation(false);
-    setAppState(AppState.TASK_MODE);
 
-    // Create a single validation task
-    const validationTask: Task = {
-      id: generateId(),
-      description: 'Validate test case against EPS log',
-      completed: false,
-      epsLogContent: data.epsLogContent,
-      testCaseContent: data.testCaseContent
-    };
+    const validationTasks = createStepTasks(data);
+    const steps = validationTasks.filter(task => task.step);
 
-    setTasks([validationTask]);
-    setCompletedTasksCount(0);
+    updateSession(sessionId, {
+      appState: AppState.TASK_MODE,
+      currentFile: data.pathToFile,
+      tasks: validationTasks,
+      completedTasksCount: 0,
+      completionTimestamp: undefined
+    });
+    setBaselineRuns(prev => ({ ...prev, [sessionId]: undefined }));
 
     // Add confirmation message to chat
-    addMessage('assistant', `EPS log "${data.pathToFile}" and test case received. Initiating validation...`);
-
-    // Process validation via API
-    await processEpsValidation(validationTask);
+    addMessage(sessionId, 'assistant', steps.length > 0
+      ? `EPS log "${data.pathToFile}" and test case received. Validating ${steps.length} step(s) one at a time...`
+      : `EPS log "${data.pathToFile}" and test case received. Initiating validation...`);
 
     toast({
       title: "Validation started",
-      description: `Validating test case for ${data.pathToFile}`,
+      description: `Validating ${validationTasks.length} task(s) for ${data.pathToFile}`,
     });
-  }, [addMessage, toast]);
 
-  // Process EPS validation via API
-  const processEpsValidation = useCallback(async (task: Task) => {
-    console.log('ChatPage: Starting EPS validation', { taskId: task.id });
-    setIsLoading(true);
+    // Validate tasks in order; stopping ends the run and leaves the remaining steps unvalidated
+    const startedAt = new Date();
+    const finishedTasks: Task[] = [];
+    for (let index = 0; index < validationTasks.length; index++) {
+      const { task, stopped } = await processEpsValidation(validationTasks[index], sessionId, chatHistory);
+      finishedTasks.push(task);
+      if (stopped) {
+        const skippedTasks = validationTasks.slice(index + 1).map(t => ({
+          ...t,
+          completed: true,
+          incomplete: true,
+          justification: 'Not validated: validation was stopped.',
+          completedAt: new Date()
+        }));
+        const skipped = new Map(skippedTasks.map(t => [t.id, t]));
+        updateSession(sessionId, session => ({
+          tasks: session.tasks.map(t => skipped.get(t.id) || t),
+          completedTasksCount: validationTasks.length
+        }));
+        finishedTasks.push(...skippedTasks);
+        break;
+      }
+    }
 
-    try {
-      const reply = await callChatAPI('', task.epsLogContent, task.testCaseContent, messages);
-      setTasks(prevTasks =>
-        prevTasks.map(t =>
-          t.id === task.id
-            ? {
-                ...t,
-                completed: true,
-                justification: reply.chatResponse,
-                completedAt: new Date()
-              }
-            : t
-        )
-      );
-      setCompletedTasksCount(1);
-      setAppState(AppState.TASKS_COMPLETED);
-      setCompletionTimestamp(new Date());
+    updateSession(sessionId, { appState: AppState.TASKS_COMPLETED, completionTimestamp: new Date() });
 
-      addMessage('assistant', reply.chatResponse);
-      toast({
-        title: "Validation complete",
-        description: "EPS log validation results are available.",
-      });
+    // Persist the run so it survives a refresh and shows up on the History page
+    try {
+      const run = await createValidationRun(data, finishedTasks, startedAt, sessionId);
+      await saveRun(run);
+      const baseline = await getBaselineRun(run);
+      console.log('ChatPage: Baseline looked up', { runId: run.id, baselineRunId: baseline?.id });
+      setBaselineRuns(prev => ({ ...prev, [sessionId]: baseline }));
     } catch (error) {
-      console.error('ChatPage: Validation failed', error);
-      setTasks(prevTasks =>
-        prevTasks.map(t =>
-          t.id === task.id
-            ? {
-                ...t,
-                completed: true,
-                justification: `Validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-                completedAt: new Date()
-              }
-            : t
-        )
-      );
-      setCompletedTasksCount(1);
-      setAppState(AppState.TASKS_COMPLETED);
-      addMessage('assistant', 'Sorry, validation failed. Please check the log file and test case format.');
+      console.error('ChatPage: Failed to save validation run', error);
       toast({
-        title: "Validation Error",
-        description: "Failed to validate EPS log. Please check your inputs.",
+        title: "History not saved",
+        description: "The validation run could not be saved to local history.",
         variant: "destructive",
       });
-    } finally {
-      setIsLoading(false);
     }
-  }, [addMessage, toast, messages]);
+  }, [isLoading, activeSession.id, messages, addMessage, updateSession, processEpsValidation, toast]);
 
   // Handle sidebar navigation
   const handleSidebarNavigation = useCallback((action: string) => {
@@ -258,39 +403,56 @@ export const ChatPage: React.FC = () => {
         setShowConfirmation(true);
         break;
       case 'history':
-        toast({
-          title: "Message History",
-          description: `You have ${messages.length} messages in your current session.`,
-        });
+        navigate('/history');
+        break;
+      case 'batch':
+        navigate('/batch');
+        break;
+      case 'prompts':
+        navigate('/prompts');
+        break;
+      case 'examples':
+        navigate('/examples');
         break;
       case 'request-feature':
-        addMessage('assistant', 'I\'d be happy to help with feature requests! Please describe what functionality you\'d like to see added to the EPS Agent system.');
+        addMessage(activeSession.id, 'assistant', 'I\'d be happy to help with feature requests! Please describe what functionality you\'d like to see added to the EPS Agent system.');
+        break;
+      case 'settings':
+        navigate('/settings');
         break;
       case 'privacy':
-        addMessage('assistant', 'Privacy Information: EPS Agent runs entirely on your local machine. All file processing, AI conversations, and data analysis happen locally. No data is sent to external servers, ensuring complete privacy and security of your documents.');
+        addMessage(activeSession.id, 'assistant', 'Privacy Information: EPS Agent runs entirely on your local machine. All file processing, AI conversations, and data analysis happen locally. No data is sent to external servers, ensuring complete privacy and security of your documents.');
         break;
       default:
         console.warn('ChatPage: Unknown navigation action', { action });
     }
-  }, [appState, messages.length, addMessage, toast]);
+  }, [appState, activeSession.id, addMessage, navigate]);
 
   // Handle starting new task from completion screen
   const handleStartNewTask = useCallback(() => {
     console.log('ChatPage: Starting new task from completion screen');
     
-    setAppState(AppState.CHATTING);
-    setTasks([]);
-    setCompletedTasksCount(0);
-    setCurrentFile('');
-    setCompletionTimestamp(new Date());
+    updateSession(activeSession.id, {
+      appState: AppState.CHATTING,
+      tasks: [],
+      completedTasksCount: 0,
+      currentFile: '',
+      completionTimestamp: undefined
+    });
     
-    addMessage('assistant', 'Ready to start a new validation task! Please upload an EPS log file and paste your test case.');
+    addMessage(activeSession.id, 'assistant', 'Ready to start a new validation task! Please upload an EPS log file and paste your test case.');
     
     toast({
       title: "New Task Ready",
       description: "You can now upload a new EPS log file for validation.",
     });
-  }, [addMessage, toast]);
+  }, [activeSession.id, updateSession, addMessage, toast]);
+
+  // Deleting a session stops its in-flight request first
+  const handleDeleteSession = useCallback((sessionId: string) => {
+    abortControllersRef.current.get(sessionId)?.abort();
+    deleteSession(sessionId);
+  }, [deleteSession]);
 
   return (
     <div className="flex h-screen bg-background">
@@ -300,6 +462,13 @@ export const ChatPage: React.FC = () => {
         completedTasksCount={completedTasksCount}
         totalTasksCount={tasks.length}
         onNavigate={handleSidebarNavigation}
+        sessions={sessions}
+        activeSessionId={activeSession.id}
+        busySessionIds={busySessionIds}
+        onSelectSession={switchSession}
+        onCreateSession={createSession}
+        onRenameSession={renameSession}
+        onDeleteSession={handleDeleteSession}
       />
 
       {/* Main Content Area */}
@@ -307,9 +476,11 @@ export const ChatPage: React.FC = () => {
         {/* Chat Interface */}
         <div className="flex-1 flex flex-col">
           <ChatInterface
+            key={activeSession.id}
             messages={messages}
             onSendMessage={handleSendMessage}
             isLoading={isLoading}
+            onStopGeneration={handleStopGeneration}
             onTestCaseDetected={() => {
               console.log('ChatPage: Triggering file upload modal for test case');
               setShowConfirmation(true);
@@ -335,6 +506,7 @@ export const ChatPage: React.FC = () => {
                 fileName={currentFile}
                 completionTimestamp={completionTimestamp}
                 onStartNewTask={handleStartNewTask}
+                baseline={baselineRuns[activeSession.id]}
               />
             )}
           </div>
@@ -0,0 +1,210 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, GraduationCap, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { FewShotExampleEditor } from '@/components/tasks/FewShotExampleEditor';
+import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/hooks/use-settings';
+import { useFewShotExamples } from '@/hooks/use-few-shot-examples';
+import { addFewShotExample, deleteFewShotExample, selectFewShotExamples, updateFewShotExample } from '@/lib/fewShotExamples';
+import { FewShotExampleDraft } from '@/types/fewShot';
+
+const EMPTY_DRAFT: FewShotExampleDraft = { testStep: '', logExcerpt: '', verdict: 'PASS', justification: '' };
+
+const VERDICT_STYLES = {
+  PASS: 'bg-success/10 text-success border-success/20',
+  FAIL: 'bg-destructive/10 text-destructive border-destructive/20'
+};
+
+/**
+ * Few-shot example store
+ * Lists the curated examples added to validation prompts, with editing, deletion and
+ * hand-written examples, and previews which examples a test step would be given
+ */
+const FewShotExamplesPage: React.FC = () => {
+  const examples = useFewShotExamples();
+  const { settings } = useSettings();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<string | null>(null); // Example ID, or 'new'
+  const [filter, setFilter] = useState('');
+  const [previewStep, setPreviewStep] = useState('');
+
+  const visibleExamples = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    return [...examples].reverse().filter(example => !query ||
+      [example.testStep, example.logExcerpt, example.justification].some(text => text.toLowerCase().includes(query)));
+  }, [examples, filter]);
+
+  // Without a log the preview ranks on the test step alone, against the configured limits
+  const previewSelection = useMemo(
+    () => (previewStep.trim()
+      ? selectFewShotExamples(examples, previewStep, '', settings.fewShotExampleCount, settings.fewShotMaxLength)
+      : []),
+    [examples, previewStep, settings.fewShotExampleCount, settings.fewShotMaxLength]
+  );
+
+  const handleSave = (id: string, draft: FewShotExampleDraft) => {
+    try {
+      if (id === 'new') {
+        addFewShotExample(draft);
+      } else {
+        updateFewShotExample(id, draft);
+      }
+      setEditing(null);
+      toast({
+        title: 'Example saved',
+        description: 'Validation prompts will use it for similar steps.',
+      });
+    } catch (error) {
+      console.error('FewShotExamplesPage: Failed to save example', error);
+      toast({
+        title: 'Example not saved',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleDelete = (id: string) => {
+    deleteFewShotExample(id);
+    toast({
+      title: 'Example deleted',
+      description: 'It will no longer be added to validation prompts.',
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <Button variant="ghost" asChild className="gap-2">
+          <Link to="/">
+            <ArrowLeft className="w-4 h-4" />
+            Back to chat
+          </Link>
+        </Button>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <GraduationCap className="w-5 h-5 text-primary" />
+              Few-Shot Examples
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {settings.fewShotExampleCount > 0
+                ? <>Up to {settings.fewShotExampleCount} of the most similar examples, within {settings.fewShotMaxLength} characters, are added to each validation prompt.</>
+                : <>Few-shot examples are turned off.</>}
+              {' '}Change the limits in <Link to="/settings" className="underline">Settings</Link>; promote examples from a run in the <Link to="/history" className="underline">history</Link>.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex gap-2">
+              <Input
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="Filter by step, log or justification"
+              />
+              <Button variant="outline" onClick={() => setEditing('new')} disabled={editing === 'new'} className="gap-2">
+                <Plus className="w-4 h-4" />
+                Add example
+              </Button>
+            </div>
+
+            {editing === 'new' && (
+              <FewShotExampleEditor
+                idPrefix="new-example"
+                initial={EMPTY_DRAFT}
+                saveLabel="Add example"
+                onSave={(draft) => handleSave('new', draft)}
+                onCancel={() => setEditing(null)}
+              />
+            )}
+
+            {visibleExamples.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                {examples.length === 0 ? 'No examples yet.' : 'No examples match the filter.'}
+              </p>
+            )}
+
+            {visibleExamples.map(example => (
+              editing === example.id ? (
+                <FewShotExampleEditor
+                  key={example.id}
+                  idPrefix={example.id}
+                  initial={example}
+                  saveLabel="Save changes"
+                  onSave={(draft) => handleSave(example.id, draft)}
+                  onCancel={() => setEditing(null)}
+                />
+              ) : (
+                <div key={example.id} className="rounded-lg border p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant="outline" className={`text-xs ${VERDICT_STYLES[example.verdict]}`}>{example.verdict}</Badge>
+                        <span className="text-sm font-medium whitespace-pre-wrap">{example.testStep}</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {example.source ? (
+                          <>From <Link to={`/history/${example.source.runId}`} className="underline">{example.source.fileName}</Link>, step {example.source.stepNo}</>
+                        ) : 'Written by hand'}
+                        {' '}· {example.createdAt.toLocaleString()}
+                      </p>
+                    </div>
+                    <div className="flex flex-shrink-0 gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => setEditing(example.id)} title="Edit example">
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(example.id)} title="Delete example">
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <pre className="text-xs font-mono bg-muted/20 rounded-lg p-2 max-h-40 overflow-y-auto whitespace-pre-wrap break-all">
+                    {example.logExcerpt}
+                  </pre>
+                  {example.justification && <p className="text-xs">{example.justification}</p>}
+                </div>
+              )
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Selection Preview</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="preview-step" className="text-sm font-medium">Test step</Label>
+              <Input
+                id="preview-step"
+                value={previewStep}
+                onChange={(e) => setPreviewStep(e.target.value)}
+                placeholder="e.g. Authorization response 0210 with response code 00"
+              />
+              <p className="text-xs text-muted-foreground">
+                Shows which examples this step would be given. During validation the log's wording is also taken into account.
+              </p>
+            </div>
+            {previewStep.trim() && previewSelection.length === 0 && (
+              <p className="text-xs text-muted-foreground">No example is similar enough to this step.</p>
+            )}
+            {previewSelection.map(({ example, score }) => (
+              <div key={example.id} className="flex items-center gap-2 text-xs">
+                <Badge variant="secondary" className="text-xs">{Math.round(score * 100)}%</Badge>
+                <Badge variant="outline" className={`text-xs ${VERDICT_STYLES[example.verdict]}`}>{example.verdict}</Badge>
+                <span className="truncate">{example.testStep.split('\n')[0]}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default FewShotExamplesPage;
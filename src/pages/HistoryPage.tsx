@@ -0,0 +1,261 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Flag, History, Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { deleteRun, filterRuns, findBaselineRun, listRuns } from '@/lib/historyStore';
+import { describePromptTemplateRef } from '@/lib/promptTemplates';
+import { buildStoredRunResult } from '@/lib/resultExport';
+import { BASELINE_STATUS_LABELS, diffRuns } from '@/lib/runDiff';
+import { getTaskVerdict } from '@/lib/validationResult';
+import { BaselineStatus } from '@/types/baseline';
+import { RunResult } from '@/types/export';
+import { RunVerdict, ValidationRun } from '@/types/history';
+
+const VERDICT_STYLES: Record<RunVerdict, string> = {
+  PASS: 'bg-success/10 text-success border-success/20',
+  FAIL: 'bg-destructive/10 text-destructive border-destructive/20',
+  UNVERIFIED: 'bg-warning/10 text-warning border-warning/20',
+  INCOMPLETE: 'bg-warning/10 text-warning border-warning/20',
+  UNKNOWN: ''
+};
+
+// Runs whose step verdicts match their baseline are not flagged
+type BaselineFlag = Exclude<BaselineStatus, 'unchanged'>;
+
+const BASELINE_FLAG_STYLES: Record<BaselineFlag, string> = {
+  regressed: 'bg-destructive/10 text-destructive border-destructive/20',
+  improved: 'bg-success/10 text-success border-success/20',
+  changed: 'bg-warning/10 text-warning border-warning/20'
+};
+
+/**
+ * Run history page listing past validation runs stored in IndexedDB
+ * Runs can be filtered by verdict, file name, test case ID and date, and reopened read-only
+ * Runs of a test case with a baseline are flagged when their step verdicts differ from it
+ */
+const HistoryPage: React.FC = () => {
+  const [runs, setRuns] = useState<ValidationRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [verdict, setVerdict] = useState<RunVerdict | 'ALL'>('ALL');
+  const [fileName, setFileName] = useState('');
+  const [testCaseId, setTestCaseId] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    listRuns()
+      .then(stored => {
+        console.log('HistoryPage: Runs loaded', { runCount: stored.length });
+        setRuns(stored);
+      })
+      .catch(error => {
+        console.error('HistoryPage: Failed to load runs', error);
+        setLoadError(error instanceof Error ? error.message : 'Unknown error');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  // Date inputs are local calendar days; "to" includes the whole selected day
+  const visibleRuns = useMemo(() => {
+    const to = toDate ? new Date(`${toDate}T00:00:00`) : undefined;
+    to?.setDate(to.getDate() + 1);
+    return filterRuns(runs, {
+      verdict: verdict === 'ALL' ? undefined : verdict,
+      fileName,
+      testCaseId,
+      from: fromDate ? new Date(`${fromDate}T00:00:00`) : undefined,
+      to
+    });
+  }, [runs, verdict, fileName, testCaseId, fromDate, toDate]);
+
+  // Verdict-only comparison; the run page also compares evidence, which needs both logs parsed
+  const baselineFlags = useMemo(() => {
+    const flags = new Map<string, BaselineFlag>();
+    const baselineResults = new Map<string, RunResult>();
+    runs.forEach(run => {
+      const baseline = findBaselineRun(runs, run);
+      if (!baseline) return;
+      if (!baselineResults.has(baseline.id)) baselineResults.set(baseline.id, buildStoredRunResult(baseline));
+      const { status } = diffRuns(baselineResults.get(baseline.id), buildStoredRunResult(run));
+      if (status !== 'unchanged') flags.set(run.id, status);
+    });
+    return flags;
+  }, [runs]);
+
+  const handleDelete = async (run: ValidationRun) => {
+    try {
+      await deleteRun(run.id);
+      setRuns(prev => prev.filter(r => r.id !== run.id));
+      toast({
+        title: 'Run deleted',
+        description: `${run.fileName} (${run.startedAt.toLocaleString()}) was removed from history.`,
+      });
+    } catch (error) {
+      console.error('HistoryPage: Failed to delete run', error);
+      toast({
+        title: 'Delete failed',
+        description: 'The run could not be removed from history.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const clearFilters = () => {
+    setVerdict('ALL');
+    setFileName('');
+    setTestCaseId('');
+    setFromDate('');
+    setToDate('');
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <Button variant="ghost" asChild className="gap-2">
+          <Link to="/">
+            <ArrowLeft className="w-4 h-4" />
+            Back to chat
+          </Link>
+        </Button>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="w-5 h-5 text-primary" />
+              Validation History
+            </CardTitle>
+          </CardHeader>
+
+          <CardContent className="space-y-6">
+            {/* Filters */}
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="verdict-filter" className="text-xs">Verdict</Label>
+                <Select value={verdict} onValueChange={(value) => setVerdict(value as RunVerdict | 'ALL')}>
+                  <SelectTrigger id="verdict-filter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="ALL">All</SelectItem>
+                    <SelectItem value="PASS">PASS</SelectItem>
+                    <SelectItem value="FAIL">FAIL</SelectItem>
+                    <SelectItem value="UNVERIFIED">Unverified</SelectItem>
+                    <SelectItem value="INCOMPLETE">Incomplete</SelectItem>
+                    <SelectItem value="UNKNOWN">Unknown</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="file-filter" className="text-xs">File name</Label>
+                <Input id="file-filter" value={fileName} onChange={(e) => setFileName(e.target.value)} placeholder="eps.log" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="test-case-filter" className="text-xs">Test case ID</Label>
+                <Input id="test-case-filter" value={testCaseId} onChange={(e) => setTestCaseId(e.target.value)} placeholder="TC-001" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="from-filter" className="text-xs">From</Label>
+                <Input id="from-filter" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="to-filter" className="text-xs">To</Label>
+                <Input id="to-filter" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+              </div>
+            </div>
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>Showing {visibleRuns.length} of {runs.length} run(s)</span>
+              <Button variant="ghost" size="sm" onClick={clearFilters}>Clear filters</Button>
+            </div>
+
+            {/* Run list */}
+            {isLoading ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Loading history...
+              </div>
+            ) : loadError ? (
+              <p className="text-sm text-destructive">History is unavailable: {loadError}</p>
+            ) : visibleRuns.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {runs.length === 0 ? 'No validation runs yet. Completed validations are saved here automatically.' : 'No runs match these filters.'}
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs">Started</TableHead>
+                    <TableHead className="text-xs">File</TableHead>
+                    <TableHead className="text-xs">Test case</TableHead>
+                    <TableHead className="text-xs">Model</TableHead>
+                    <TableHead className="text-xs">Prompt</TableHead>
+                    <TableHead className="text-xs">Steps passed</TableHead>
+                    <TableHead className="text-xs">Verdict</TableHead>
+                    <TableHead className="text-xs" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRuns.map(run => (
+                    <TableRow key={run.id}>
+                      <TableCell className="text-xs py-2">{run.startedAt.toLocaleString()}</TableCell>
+                      <TableCell className="text-xs py-2 font-medium break-all">{run.fileName}</TableCell>
+                      <TableCell className="text-xs py-2">
+                        {run.testCaseId || '-'}
+                        {run.testCaseTitle && <span className="block text-muted-foreground">{run.testCaseTitle}</span>}
+                      </TableCell>
+                      <TableCell className="text-xs py-2 font-mono">{run.model}</TableCell>
+                      <TableCell className="text-xs py-2">
+                        {run.promptTemplate ? describePromptTemplateRef(run.promptTemplate) : '-'}
+                      </TableCell>
+                      <TableCell className="text-xs py-2">
+                        {run.tasks.filter(task => getTaskVerdict(task) === 'PASS').length}/{run.tasks.length}
+                      </TableCell>
+                      <TableCell className="text-xs py-2">
+                        <div className="flex flex-wrap gap-1">
+                          <Badge variant="outline" className={`text-xs ${VERDICT_STYLES[run.verdict]}`}>
+                            {run.verdict}
+                          </Badge>
+                          {run.isBaseline && (
+                            <Badge variant="secondary" className="text-xs gap-1">
+                              <Flag className="w-3 h-3" />
+                              Baseline
+                            </Badge>
+                          )}
+                          {baselineFlags.has(run.id) && (
+                            <Badge variant="outline" className={`text-xs ${BASELINE_FLAG_STYLES[baselineFlags.get(run.id)]}`}>
+                              {BASELINE_STATUS_LABELS[baselineFlags.get(run.id)]}
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-xs py-2">
+                        <div className="flex justify-end gap-1">
+                          <Button variant="outline" size="sm" asChild>
+                            <Link to={`/history/${run.id}`}>Open</Link>
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => handleDelete(run)} title="Delete run">
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPage;
@@ -0,0 +1,223 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, ChevronDown, ChevronUp, Eye, Flag, GitCompareArrows, Loader2, ScrollText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ShowCompletionAndJustification } from '@/components/tasks/ShowCompletionAndJustification';
+import { FewShotPromotionPanel } from '@/components/tasks/FewShotPromotionPanel';
+import { useToast } from '@/hooks/use-toast';
+import { getBaselineRun, getRun, getRunTasks, setRunBaseline } from '@/lib/historyStore';
+import { describeTaskFewShotExamples } from '@/lib/fewShotExamples';
+import { describePromptTemplateRef } from '@/lib/promptTemplates';
+import { ValidationRun } from '@/types/history';
+
+/**
+ * Read-only view of a past validation run
+ * Shows the run's inputs, model and hashes, its results, and the prompt and raw response of each task
+ */
+const HistoryRunPage: React.FC = () => {
+  const { runId } = useParams<{ runId: string }>();
+  const [run, setRun] = useState<ValidationRun | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [expandedTask, setExpandedTask] = useState<string | null>(null);
+  const [baseline, setBaseline] = useState<ValidationRun | undefined>(undefined);
+  const [isSavingBaseline, setIsSavingBaseline] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getRun(runId)
+      .then(async stored => {
+        console.log('HistoryRunPage: Run loaded', { runId, found: !!stored });
+        if (stored) {
+          setRun(stored);
+          setBaseline(await getBaselineRun(stored));
+        } else {
+          setLoadError('This run is not in the history.');
+        }
+      })
+      .catch(error => {
+        console.error('HistoryRunPage: Failed to load run', error);
+        setLoadError(error instanceof Error ? error.message : 'Unknown error');
+      })
+      .finally(() => setIsLoading(false));
+  }, [runId]);
+
+  // A test case has one baseline; marking this run replaces the previous one
+  const handleToggleBaseline = async () => {
+    setIsSavingBaseline(true);
+    try {
+      const updated = await setRunBaseline(run, !run.isBaseline);
+      setRun(updated);
+      setBaseline(updated.isBaseline ? undefined : await getBaselineRun(updated));
+      toast({
+        title: updated.isBaseline ? 'Baseline set' : 'Baseline cleared',
+        description: updated.isBaseline
+          ? 'Later runs of this test case are compared against this run.'
+          : 'Runs of this test case are no longer compared against this run.',
+      });
+    } catch (error) {
+      console.error('HistoryRunPage: Failed to update baseline', error);
+      toast({
+        title: 'Baseline not saved',
+        description: 'The baseline could not be updated in local history.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSavingBaseline(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <Button variant="ghost" asChild className="gap-2">
+          <Link to="/history">
+            <ArrowLeft className="w-4 h-4" />
+            Back to history
+          </Link>
+        </Button>
+
+        {isLoading && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading run...
+          </div>
+        )}
+        {loadError && <p className="text-sm text-destructive">{loadError}</p>}
+
+        {run && (
+          <>
+            {/* Run metadata */}
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <Eye className="w-5 h-5 text-primary" />
+                  Past run (read-only)
+                </CardTitle>
+                <div className="flex gap-2">
+                  <Button
+                    variant={run.isBaseline ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={handleToggleBaseline}
+                    disabled={isSavingBaseline}
+                    className="gap-2"
+                    title={run.isBaseline ? 'Stop comparing runs of this test case against this one' : 'Compare later runs of this test case against this one'}
+                  >
+                    <Flag className="w-4 h-4" />
+                    {run.isBaseline ? 'Baseline' : 'Mark as baseline'}
+                  </Button>
+                  <Button variant="outline" size="sm" asChild className="gap-2">
+                    <Link to={`/history/${run.id}/trace`}>
+                      <GitCompareArrows className="w-4 h-4" />
+                      Traceability
+                    </Link>
+                  </Button>
+                  <Button variant="outline" size="sm" asChild className="gap-2">
+                    <Link to={`/history/${run.id}/log`}>
+                      <ScrollText className="w-4 h-4" />
+                      Open log viewer
+                    </Link>
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 gap-3 text-sm">
+                  <div>
+                    <span className="text-muted-foreground">Test case:</span>
+                    <span className="ml-2 font-medium">{run.testCaseId || 'N/A'}</span>
+                    {run.testCaseTitle && <span className="ml-1 text-muted-foreground">({run.testCaseTitle})</span>}
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Model:</span>
+                    <span className="ml-2 font-mono text-xs">{run.model}</span>
+                    <Badge variant="secondary" className="ml-2 text-xs">{run.provider}</Badge>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Started:</span>
+                    <span className="ml-2 font-medium">{run.startedAt.toLocaleString()}</span>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Completed:</span>
+                    <span className="ml-2 font-medium">{run.completedAt.toLocaleString()}</span>
+                  </div>
+                  <div className="col-span-2">
+                    <span className="text-muted-foreground">Prompt template:</span>
+                    <span className="ml-2 font-medium">{run.promptTemplate ? describePromptTemplateRef(run.promptTemplate) : 'None (rule-checked, or saved before templates)'}</span>
+                  </div>
+                  <div className="col-span-2">
+                    <span className="text-muted-foreground">Few-shot examples:</span>
+                    <span className="ml-2 font-medium">{describeTaskFewShotExamples(run.tasks) || 'Not recorded'}</span>
+                  </div>
+                  {run.transaction && (
+                    <div className="col-span-2">
+                      <span className="text-muted-foreground">Transaction:</span>
+                      <span className="ml-2 font-medium">{run.transaction.id}: {run.transaction.label}</span>
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        {run.transaction.hopCount} hop(s), original log lines {run.transaction.lineNumbers.join(', ')}
+                      </span>
+                    </div>
+                  )}
+                  <div className="col-span-2">
+                    <span className="text-muted-foreground">Log SHA-256:</span>
+                    <span className="ml-2 font-mono text-xs break-all">{run.logHash}</span>
+                  </div>
+                  <div className="col-span-2">
+                    <span className="text-muted-foreground">Test case SHA-256:</span>
+                    <span className="ml-2 font-mono text-xs break-all">{run.testCaseHash}</span>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <ShowCompletionAndJustification
+              tasks={getRunTasks(run)}
+              fileName={run.fileName}
+              completionTimestamp={run.completedAt}
+              run={run}
+              baseline={baseline}
+            />
+
+            <FewShotPromotionPanel run={run} />
+
+            {/* Prompts and raw model output */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm">Prompts and raw responses</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {run.tasks.map(task => (
+                  <div key={task.id}>
+                    <Button
+                      variant="ghost"
+                      onClick={() => setExpandedTask(expandedTask === task.id ? null : task.id)}
+                      className="flex items-center gap-2 text-sm"
+                    >
+                      {expandedTask === task.id ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                      {task.description}
+                    </Button>
+                    {expandedTask === task.id && (
+                      <div className="mt-2 space-y-2">
+                        <p className="text-xs font-medium">Prompt</p>
+                        <pre className="text-xs bg-muted/20 rounded-lg p-3 max-h-64 overflow-y-auto whitespace-pre-wrap">
+                          {task.prompt || 'Not recorded'}
+                        </pre>
+                        <p className="text-xs font-medium">Raw response</p>
+                        <pre className="text-xs bg-muted/20 rounded-lg p-3 max-h-64 overflow-y-auto whitespace-pre-wrap">
+                          {task.rawResponse || 'No response'}
+                        </pre>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryRunPage;
@@ -0,0 +1,119 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Crosshair, Loader2, ScrollText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { LogFocusRequest, LogViewer } from '@/components/tasks/LogViewer';
+import { getRun, getRunTasks } from '@/lib/historyStore';
+import { getEvidenceLines, getStepEvidenceLines } from '@/lib/logView';
+import { getStepVerdict } from '@/lib/validationResult';
+import { ValidationRun } from '@/types/history';
+
+/**
+ * Full-page log viewer for a past validation run
+ * Lists the run's steps next to the virtualized log; clicking a step scrolls to its evidence
+ */
+const LogViewerPage: React.FC = () => {
+  const { runId } = useParams<{ runId: string }>();
+  const [run, setRun] = useState<ValidationRun | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [focus, setFocus] = useState<LogFocusRequest | undefined>(undefined);
+
+  useEffect(() => {
+    getRun(runId)
+      .then(stored => {
+        console.log('LogViewerPage: Run loaded', { runId, found: !!stored });
+        if (stored) {
+          setRun(stored);
+        } else {
+          setLoadError('This run is not in the history.');
+        }
+      })
+      .catch(error => {
+        console.error('LogViewerPage: Failed to load run', error);
+        setLoadError(error instanceof Error ? error.message : 'Unknown error');
+      })
+      .finally(() => setIsLoading(false));
+  }, [runId]);
+
+  const tasks = useMemo(() => (run ? getRunTasks(run) : []), [run]);
+  const evidence = useMemo(() => getEvidenceLines(tasks), [tasks]);
+  // One entry per step the model reported, numbered by the test case step when the task validated one
+  const steps = tasks.flatMap(task => (task.validationResult?.steps || []).map(step => ({
+    key: `${task.id}-${step.stepNo}`,
+    stepNo: task.step?.stepNo ?? step.stepNo,
+    description: task.step ? task.description : step.expectedAction,
+    verdict: getStepVerdict(step),
+    lineNumbers: getStepEvidenceLines(step.citations)
+  })));
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <Button variant="ghost" asChild className="gap-2">
+          <Link to={`/history/${runId}`}>
+            <ArrowLeft className="w-4 h-4" />
+            Back to run
+          </Link>
+        </Button>
+
+        {isLoading && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading run...
+          </div>
+        )}
+        {loadError && <p className="text-sm text-destructive">{loadError}</p>}
+
+        {run && (
+          <div className="grid grid-cols-[18rem_1fr] gap-6">
+            {/* Steps */}
+            <Card className="self-start">
+              <CardHeader>
+                <CardTitle className="text-sm">Steps</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1">
+                {steps.length === 0 && <p className="text-xs text-muted-foreground">No structured step results in this run.</p>}
+                {steps.map(step => (
+                  <button
+                    key={step.key}
+                    type="button"
+                    disabled={step.lineNumbers.length === 0}
+                    onClick={() => setFocus({ lineNumber: step.lineNumbers[0], requestId: Date.now() })}
+                    className="w-full rounded-md px-2 py-1.5 text-left text-xs hover:bg-muted/50 disabled:opacity-60 disabled:hover:bg-transparent"
+                  >
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className="text-xs">Step {step.stepNo}: {step.verdict}</Badge>
+                      {step.lineNumbers.length > 0 && <Crosshair className="w-3 h-3 text-muted-foreground" />}
+                    </div>
+                    <div className="mt-1 line-clamp-2">{step.description}</div>
+                    <div className="text-muted-foreground">
+                      {step.lineNumbers.length > 0 ? `Line ${step.lineNumbers.slice(0, 5).join(', ')}${step.lineNumbers.length > 5 ? ', ...' : ''}` : 'No evidence found in the log'}
+                    </div>
+                  </button>
+                ))}
+              </CardContent>
+            </Card>
+
+            {/* Log */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-sm">
+                  <ScrollText className="w-4 h-4 text-primary" />
+                  {run.fileName}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <LogViewer logContent={run.epsLogContent} evidence={evidence} focus={focus} className="h-[calc(100vh-16rem)]" />
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LogViewerPage;
@@ -0,0 +1,311 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, CheckCircle, Copy, FilePen, History, Plus, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/hooks/use-settings';
+import { usePromptTemplates } from '@/hooks/use-prompt-templates';
+import {
+  createPromptTemplate,
+  DEFAULT_PROMPT_SECTIONS,
+  DEFAULT_PROMPT_TEMPLATE_ID,
+  deletePromptTemplate,
+  findPromptTemplateErrors,
+  getLatestVersion,
+  PROMPT_PLACEHOLDERS,
+  renderPromptTemplate,
+  savePromptTemplateVersion
+} from '@/lib/promptTemplates';
+import { PromptSections } from '@/types/promptTemplate';
+
+const SECTION_FIELDS: { key: keyof PromptSections; label: string; hint: string }[] = [
+  { key: 'systemPrompt', label: 'System prompt', hint: 'Who the model is.' },
+  { key: 'instructions', label: 'Validation instructions', hint: 'What to validate. Must include {{log}} and {{testCase}}.' },
+  { key: 'outputFormat', label: 'Output format', hint: 'Keep {{formatInstructions}} so verdicts can still be parsed.' },
+  { key: 'examples', label: 'Few-shot examples', hint: 'Worked examples; left out of the prompt when empty.' }
+];
+
+const toSections = (sections: PromptSections): PromptSections => ({
+  systemPrompt: sections.systemPrompt,
+  instructions: sections.instructions,
+  outputFormat: sections.outputFormat,
+  examples: sections.examples
+});
+
+const isSameSections = (a: PromptSections, b: PromptSections) =>
+  SECTION_FIELDS.every(({ key }) => a[key] === b[key]);
+
+/**
+ * Prompt template library
+ * Edits the sections of a validation prompt template, saves each edit as a new version,
+ * browses and restores earlier versions, and selects the template used for validation
+ */
+const PromptTemplatesPage: React.FC = () => {
+  const templates = usePromptTemplates();
+  const { settings, updateSettings } = useSettings();
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState(settings.promptTemplateId);
+  const template = templates.find(t => t.id === selectedId) || templates.find(t => t.id === DEFAULT_PROMPT_TEMPLATE_ID);
+  const latest = getLatestVersion(template);
+  const [draft, setDraft] = useState<PromptSections>(toSections(latest));
+  const [loadedVersion, setLoadedVersion] = useState(latest.version);
+  const [note, setNote] = useState('');
+  const [newName, setNewName] = useState('');
+  const [showPreview, setShowPreview] = useState(false);
+  const errors = findPromptTemplateErrors(draft);
+  const isActive = template.id === settings.promptTemplateId ||
+    (template.id === DEFAULT_PROMPT_TEMPLATE_ID && !templates.some(t => t.id === settings.promptTemplateId));
+
+  // Switching template, or saving a version, loads the template's latest version
+  useEffect(() => {
+    setDraft(toSections(latest));
+    setLoadedVersion(latest.version);
+    setNote('');
+  }, [template.id, latest]);
+
+  const updateDraft = (update: Partial<PromptSections>) => {
+    setDraft(prev => ({ ...prev, ...update }));
+  };
+
+  const handleSaveVersion = () => {
+    try {
+      const updated = savePromptTemplateVersion(template.id, draft, note);
+      toast({
+        title: 'Version saved',
+        description: `${updated.name} is now at v${getLatestVersion(updated).version}.`,
+      });
+    } catch (error) {
+      console.error('PromptTemplatesPage: Failed to save version', error);
+      toast({
+        title: 'Could not save version',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleUseForValidation = () => {
+    updateSettings({ promptTemplateId: template.id });
+    toast({
+      title: 'Prompt template selected',
+      description: `New validations use ${template.name} v${latest.version}.`,
+    });
+  };
+
+  // New templates start from the built-in prompt; duplicates start from the sections being edited
+  const handleCreate = (sections: PromptSections, name: string) => {
+    try {
+      const created = createPromptTemplate(name, sections);
+      setSelectedId(created.id);
+      setNewName('');
+      toast({
+        title: 'Template created',
+        description: `${created.name} v1 saved.`,
+      });
+    } catch (error) {
+      console.error('PromptTemplatesPage: Failed to create template', error);
+      toast({
+        title: 'Could not create template',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleDelete = () => {
+    deletePromptTemplate(template.id);
+    if (isActive) updateSettings({ promptTemplateId: DEFAULT_PROMPT_TEMPLATE_ID });
+    setSelectedId(DEFAULT_PROMPT_TEMPLATE_ID);
+    toast({
+      title: 'Template deleted',
+      description: `${template.name} was removed. Runs validated with it keep its name and version.`,
+    });
+  };
+
+  const handleLoadVersion = (version: number) => {
+    const saved = template.versions.find(v => v.version === version);
+    console.log('PromptTemplatesPage: Version loaded', { templateId: template.id, version });
+    setDraft(toSections(saved));
+    setLoadedVersion(version);
+  };
+
+  const previewValues = Object.fromEntries(Object.keys(PROMPT_PLACEHOLDERS).map(name => [name, `<${name}>`]));
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <Button variant="ghost" asChild className="gap-2">
+          <Link to="/">
+            <ArrowLeft className="w-4 h-4" />
+            Back to chat
+          </Link>
+        </Button>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FilePen className="w-5 h-5 text-primary" />
+              Prompt Templates
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="flex-1 min-w-48 space-y-2">
+                <Label htmlFor="prompt-template" className="text-sm font-medium">Template</Label>
+                <Select value={template.id} onValueChange={setSelectedId}>
+                  <SelectTrigger id="prompt-template">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map(t => (
+                      <SelectItem key={t.id} value={t.id}>{t.name} (v{getLatestVersion(t).version})</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button onClick={handleUseForValidation} disabled={isActive} className="gap-2">
+                <CheckCircle className="w-4 h-4" />
+                {isActive ? 'In use' : 'Use for validation'}
+              </Button>
+              <Button variant="outline" onClick={() => handleCreate(draft, `${template.name} (copy)`)} disabled={errors.length > 0} className="gap-2">
+                <Copy className="w-4 h-4" />
+                Duplicate
+              </Button>
+              <Button variant="ghost" onClick={handleDelete} disabled={template.builtIn} className="gap-2">
+                <Trash2 className="w-4 h-4" />
+                Delete
+              </Button>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              {isActive && <Badge variant="default" className="text-xs">Active</Badge>}
+              {template.builtIn && <Badge variant="secondary" className="text-xs">Built-in</Badge>}
+              <span>{template.versions.length} version(s); validations use the latest version.</span>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="New template name"
+              />
+              <Button variant="outline" onClick={() => handleCreate(DEFAULT_PROMPT_SECTIONS, newName)} disabled={!newName.trim()} className="gap-2">
+                <Plus className="w-4 h-4" />
+                New template
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">
+              Editing {template.name}
+              <span className="ml-2 text-sm font-normal text-muted-foreground">
+                from v{loadedVersion}{loadedVersion !== latest.version && ` (latest is v${latest.version})`}
+              </span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {SECTION_FIELDS.map(({ key, label, hint }) => (
+              <div key={key} className="space-y-2">
+                <Label htmlFor={`section-${key}`} className="text-sm font-medium">{label}</Label>
+                <Textarea
+                  id={`section-${key}`}
+                  value={draft[key]}
+                  onChange={(e) => updateDraft({ [key]: e.target.value })}
+                  className={`font-mono text-xs ${key === 'systemPrompt' ? 'min-h-12' : 'min-h-28'}`}
+                />
+                <p className="text-xs text-muted-foreground">{hint}</p>
+              </div>
+            ))}
+
+            <div className="rounded-lg border bg-muted/20 p-3 space-y-1">
+              <p className="text-xs font-medium">Placeholders</p>
+              {Object.entries(PROMPT_PLACEHOLDERS).map(([name, description]) => (
+                <p key={name} className="text-xs text-muted-foreground">
+                  <code className="font-mono">{`{{${name}}}`}</code> - {description}
+                </p>
+              ))}
+            </div>
+
+            {errors.length > 0 && (
+              <div className="space-y-1">
+                {errors.map(error => <p key={error} className="text-xs text-destructive">{error}</p>)}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="version-note" className="text-sm font-medium">Change note</Label>
+              <Input
+                id="version-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="What changed in this version"
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                onClick={handleSaveVersion}
+                disabled={errors.length > 0 || isSameSections(draft, latest)}
+                className="flex-1 gap-2"
+              >
+                <Save className="w-4 h-4" />
+                Save as v{latest.version + 1}
+              </Button>
+              <Button variant="outline" onClick={() => setShowPreview(!showPreview)}>
+                {showPreview ? 'Hide preview' : 'Preview'}
+              </Button>
+            </div>
+            {showPreview && (
+              <pre className="max-h-80 overflow-auto rounded-lg border bg-muted/20 p-3 text-xs font-mono whitespace-pre-wrap break-words">
+                {renderPromptTemplate(draft, previewValues)}
+              </pre>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <History className="w-4 h-4 text-primary" />
+              Version History
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {[...template.versions].reverse().map(version => (
+              <div key={version.version} className="flex items-center justify-between gap-2 rounded-lg border p-2 text-sm">
+                <div className="min-w-0">
+                  <span className="font-medium">v{version.version}</span>
+                  {version.version === latest.version && <Badge variant="secondary" className="ml-2 text-xs">Latest</Badge>}
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {template.builtIn && version.version === 1 ? 'Built in' : version.createdAt.toLocaleString()}
+                  </span>
+                  {version.note && <p className="text-xs text-muted-foreground truncate">{version.note}</p>}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleLoadVersion(version.version)}
+                  disabled={version.version === loadedVersion}
+                >
+                  Load
+                </Button>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Loading an earlier version puts it in the editor; save it to make it the latest version again.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplatesPage;
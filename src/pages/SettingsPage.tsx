@@ -0,0 +1,397 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, CheckCircle, Loader2, PlugZap, RotateCcw, Save, Settings, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/hooks/use-settings';
+import { createProvider } from '@/api/providers';
+import { AgentSettings, DEFAULT_BASE_URLS, ProviderKind } from '@/lib/settings';
+import { CORRELATION_KEY_LABELS, CORRELATION_KEYS } from '@/lib/correlation';
+import { findInvalidPatterns } from '@/lib/redaction';
+import { getVotingVoters } from '@/lib/voting';
+
+type ConnectionStatus =
+  | { state: 'idle' }
+  | { state: 'testing' }
+  | { state: 'ok'; models: string[] }
+  | { state: 'error'; message: string };
+
+// Ollama reports "phi3:mini" and "llama3:latest"; a bare "llama3" refers to the latter
+const isModelInstalled = (model: string, models: string[]) =>
+  models.some(m => m === model || m === `${model}:latest`);
+
+/**
+ * Settings page for the LLM provider, model, endpoint, context limits, generation parameters,
+ * custom redaction patterns, transaction correlation keys, self-consistency voting and few-shot examples
+ * Changes are kept in a draft until saved to local storage
+ */
+const SettingsPage: React.FC = () => {
+  const { settings, updateSettings, resetSettings } = useSettings();
+  const [draft, setDraft] = useState<AgentSettings>(settings);
+  const [connection, setConnection] = useState<ConnectionStatus>({ state: 'idle' });
+  const { toast } = useToast();
+  const invalidPatterns = findInvalidPatterns(draft.redactionPatterns.filter(pattern => pattern.trim()));
+  const voterCount = getVotingVoters(draft).length;
+
+  const updateDraft = (update: Partial<AgentSettings>) => {
+    console.log('SettingsPage: Draft updated', { fields: Object.keys(update) });
+    setDraft(prev => ({ ...prev, ...update }));
+  };
+
+  // Switching provider also switches to that provider's default endpoint
+  const handleProviderChange = (provider: ProviderKind) => {
+    updateDraft({ provider, baseUrl: DEFAULT_BASE_URLS[provider] });
+    setConnection({ state: 'idle' });
+  };
+
+  const handleSave = () => {
+    updateSettings({
+      ...draft,
+      redactionPatterns: draft.redactionPatterns.filter(pattern => pattern.trim()),
+      votingModels: draft.votingModels.map(model => model.trim()).filter(Boolean)
+    });
+    toast({
+      title: 'Settings saved',
+      description: `Using ${draft.model} via ${draft.provider}.`,
+    });
+  };
+
+  const handleReset = () => {
+    const defaults = resetSettings();
+    setDraft(defaults);
+    setConnection({ state: 'idle' });
+    toast({
+      title: 'Settings reset',
+      description: 'Default provider, model and limits restored.',
+    });
+  };
+
+  // List the models the endpoint has installed (Ollama: /api/tags)
+  const handleTestConnection = async () => {
+    console.log('SettingsPage: Testing connection', { provider: draft.provider, baseUrl: draft.baseUrl });
+    setConnection({ state: 'testing' });
+    try {
+      const models = await createProvider(draft).listModels();
+      setConnection({ state: 'ok', models });
+    } catch (error) {
+      console.error('SettingsPage: Connection test failed', error);
+      setConnection({ state: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  };
+
+  const parseNumber = (value: string, fallback: number) => {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : fallback;
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <Button variant="ghost" asChild className="gap-2">
+          <Link to="/">
+            <ArrowLeft className="w-4 h-4" />
+            Back to chat
+          </Link>
+        </Button>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Settings className="w-5 h-5 text-primary" />
+              Model Settings
+            </CardTitle>
+          </CardHeader>
+
+          <CardContent className="space-y-6">
+            {/* Provider and endpoint */}
+            <div className="space-y-2">
+              <Label htmlFor="provider" className="text-sm font-medium">Provider</Label>
+              <Select value={draft.provider} onValueChange={(value) => handleProviderChange(value as ProviderKind)}>
+                <SelectTrigger id="provider">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ollama">Ollama</SelectItem>
+                  <SelectItem value="openai">OpenAI-compatible (llama.cpp, vLLM, LM Studio)</SelectItem>
+                  <SelectItem value="mock">Mock (no model)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="base-url" className="text-sm font-medium">Base URL</Label>
+              <Input
+                id="base-url"
+                value={draft.baseUrl}
+                onChange={(e) => updateDraft({ baseUrl: e.target.value })}
+                disabled={draft.provider === 'mock'}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="model" className="text-sm font-medium">Model</Label>
+              <Input
+                id="model"
+                value={draft.model}
+                onChange={(e) => updateDraft({ model: e.target.value })}
+                list="installed-models"
+              />
+              {connection.state === 'ok' && (
+                <datalist id="installed-models">
+                  {connection.models.map(model => <option key={model} value={model} />)}
+                </datalist>
+              )}
+            </div>
+
+            {/* Generation parameters */}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="temperature" className="text-sm font-medium">Temperature</Label>
+                <Input
+                  id="temperature"
+                  type="number"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={draft.temperature}
+                  onChange={(e) => updateDraft({ temperature: parseNumber(e.target.value, draft.temperature) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="num-ctx" className="text-sm font-medium">Context window (num_ctx)</Label>
+                <Input
+                  id="num-ctx"
+                  type="number"
+                  min={512}
+                  step={512}
+                  value={draft.numCtx}
+                  onChange={(e) => updateDraft({ numCtx: parseNumber(e.target.value, draft.numCtx) })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="max-content" className="text-sm font-medium">Max content length (characters)</Label>
+              <Input
+                id="max-content"
+                type="number"
+                min={1000}
+                step={1000}
+                value={draft.maxContentLength}
+                onChange={(e) => updateDraft({ maxContentLength: parseNumber(e.target.value, draft.maxContentLength) })}
+              />
+              <p className="text-xs text-muted-foreground">
+                EPS logs and test cases longer than this are truncated before being sent to the model.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="redaction-patterns" className="text-sm font-medium">Custom redaction patterns</Label>
+              <Textarea
+                id="redaction-patterns"
+                value={draft.redactionPatterns.join('\n')}
+                onChange={(e) => updateDraft({ redactionPatterns: e.target.value.split('\n') })}
+                placeholder={'One regular expression per line, e.g. accountNo=\\d+'}
+                className="min-h-20 font-mono text-xs"
+              />
+              {invalidPatterns.length > 0 ? (
+                <p className="text-xs text-destructive">
+                  Invalid regular expression(s): {invalidPatterns.join(', ')}
+                </p>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Matches are replaced with [REDACTED] when a log is read. PANs, track data, PIN blocks and CVVs are always masked.
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Transaction correlation keys</Label>
+              <div className="flex flex-wrap gap-4">
+                {CORRELATION_KEYS.map(key => (
+                  <div key={key} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`correlation-${key}`}
+                      checked={draft.correlationKeys.includes(key)}
+                      onCheckedChange={(checked) => updateDraft({
+                        correlationKeys: checked
+                          ? CORRELATION_KEYS.filter(k => k === key || draft.correlationKeys.includes(k))
+                          : draft.correlationKeys.filter(k => k !== key)
+                      })}
+                    />
+                    <Label htmlFor={`correlation-${key}`} className="text-sm font-normal">{CORRELATION_KEY_LABELS[key]}</Label>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Log records sharing any of these identifiers are grouped into one transaction that a test case can be validated against.
+              </p>
+            </div>
+
+            {/* Self-consistency voting */}
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Self-consistency voting</Label>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="voting-samples" className="text-xs">Samples per model</Label>
+                  <Input
+                    id="voting-samples"
+                    type="number"
+                    min={1}
+                    max={15}
+                    value={draft.votingSamples}
+                    onChange={(e) => updateDraft({ votingSamples: Math.max(1, Math.floor(parseNumber(e.target.value, draft.votingSamples))) })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="voting-seed" className="text-xs">Seed</Label>
+                  <Input
+                    id="voting-seed"
+                    type="number"
+                    value={draft.votingSeed ?? ''}
+                    placeholder="Random"
+                    onChange={(e) => updateDraft({ votingSeed: e.target.value.trim() === '' ? null : parseNumber(e.target.value, draft.votingSeed ?? 0) })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="voting-models" className="text-xs">Voting models</Label>
+                <Input
+                  id="voting-models"
+                  value={draft.votingModels.join(',')}
+                  onChange={(e) => updateDraft({ votingModels: e.target.value.split(',') })}
+                  placeholder={`${draft.model} (the selected model)`}
+                />
+                {connection.state === 'ok' && (
+                  <div className="flex flex-wrap gap-1">
+                    {connection.models.map(model => {
+                      const selected = draft.votingModels.some(m => m.trim() === model);
+                      return (
+                        <Badge
+                          key={model}
+                          variant={selected ? 'default' : 'secondary'}
+                          className="text-xs cursor-pointer"
+                          onClick={() => updateDraft({
+                            votingModels: selected
+                              ? draft.votingModels.filter(m => m.trim() !== model)
+                              : [...draft.votingModels.filter(m => m.trim()), model]
+                          })}
+                        >
+                          {model}
+                        </Badge>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {voterCount > 1
+                  ? `Each validation is sampled ${voterCount} times at temperature ${draft.temperature}; step verdicts are decided by majority and shown with the share of samples that agree.`
+                  : 'Off. Sample more than once, or list several comma-separated models, to decide step verdicts by majority. A seed makes samples reproducible; each sample uses the next seed.'}
+              </p>
+            </div>
+
+            {/* Few-shot examples */}
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Few-shot examples</Label>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="few-shot-count" className="text-xs">Examples per prompt</Label>
+                  <Input
+                    id="few-shot-count"
+                    type="number"
+                    min={0}
+                    max={10}
+                    value={draft.fewShotExampleCount}
+                    onChange={(e) => updateDraft({ fewShotExampleCount: Math.max(0, Math.floor(parseNumber(e.target.value, draft.fewShotExampleCount))) })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="few-shot-length" className="text-xs">Example budget (characters)</Label>
+                  <Input
+                    id="few-shot-length"
+                    type="number"
+                    min={0}
+                    step={500}
+                    value={draft.fewShotMaxLength}
+                    onChange={(e) => updateDraft({ fewShotMaxLength: Math.max(0, parseNumber(e.target.value, draft.fewShotMaxLength)) })}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                The <Link to="/examples" className="underline">stored examples</Link> most similar to each step are added to its prompt, as long as they fit in the budget and in what the log and test case leave of the content limit. 0 examples turns this off.
+              </p>
+            </div>
+
+            {/* Connection test result */}
+            {connection.state === 'ok' && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2 text-sm text-success">
+                  <CheckCircle className="w-4 h-4" />
+                  <span>Connected - {connection.models.length} model(s) available</span>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {connection.models.map(model => (
+                    <Badge
+                      key={model}
+                      variant={isModelInstalled(draft.model, [model]) ? 'default' : 'secondary'}
+                      className="text-xs cursor-pointer"
+                      onClick={() => updateDraft({ model })}
+                    >
+                      {model}
+                    </Badge>
+                  ))}
+                </div>
+                {!isModelInstalled(draft.model, connection.models) && (
+                  <Alert variant="destructive">
+                    <AlertTriangle className="w-4 h-4" />
+                    <AlertTitle>Model not installed</AlertTitle>
+                    <AlertDescription>
+                      "{draft.model}" is not available on this endpoint. Pick one of the models above
+                      {draft.provider === 'ollama' && <> or run <code>ollama pull {draft.model}</code></>}.
+                    </AlertDescription>
+                  </Alert>
+                )}
+              </div>
+            )}
+            {connection.state === 'error' && (
+              <Alert variant="destructive">
+                <AlertTriangle className="w-4 h-4" />
+                <AlertTitle>Connection failed</AlertTitle>
+                <AlertDescription>
+                  Could not reach {draft.baseUrl || 'the provider'}: {connection.message}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {/* Action Buttons */}
+            <div className="flex gap-2 pt-4">
+              <Button onClick={handleSave} disabled={invalidPatterns.length > 0} className="flex-1 gap-2">
+                <Save className="w-4 h-4" />
+                Save Settings
+              </Button>
+              <Button variant="outline" onClick={handleTestConnection} disabled={connection.state === 'testing'} className="gap-2">
+                {connection.state === 'testing' ? <Loader2 className="w-4 h-4 animate-spin" /> : <PlugZap className="w-4 h-4" />}
+                Test connection
+              </Button>
+              <Button variant="ghost" onClick={handleReset} className="gap-2">
+                <RotateCcw className="w-4 h-4" />
+                Reset
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPage;
@@ -0,0 +1,223 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Download, GitCompareArrows, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { getRun, getRunTasks } from '@/lib/historyStore';
+import { buildRunResult, downloadTextFile } from '@/lib/resultExport';
+import { buildTraceabilityCsv, buildTraceabilityMatrix, TRACE_RELATION_LABELS } from '@/lib/traceability';
+import { VERDICT_SOURCE_LABELS } from '@/lib/validationResult';
+import { ValidationRun } from '@/types/history';
+import { TraceRelation } from '@/types/traceability';
+
+const RELATION_STYLES: Record<TraceRelation, string> = {
+  satisfies: 'bg-success/10 text-success border-success/20',
+  contradicts: 'bg-destructive/10 text-destructive border-destructive/20',
+  unverified: 'bg-warning/10 text-warning border-warning/20',
+  undetermined: ''
+};
+
+// Scrolls the other pane to an anchor without changing the URL
+const scrollToAnchor = (id: string) => document.getElementById(id)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+/**
+ * Traceability view for a past validation run
+ * Pairs each test case step (left) with the log records cited as its evidence (right);
+ * anchors on both sides jump to the linked items, and the matrix exports as CSV for auditors
+ */
+const TraceabilityPage: React.FC = () => {
+  const { runId } = useParams<{ runId: string }>();
+  const [run, setRun] = useState<ValidationRun | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selectedStep, setSelectedStep] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getRun(runId)
+      .then(stored => {
+        console.log('TraceabilityPage: Run loaded', { runId, found: !!stored });
+        if (stored) {
+          setRun(stored);
+        } else {
+          setLoadError('This run is not in the history.');
+        }
+      })
+      .catch(error => {
+        console.error('TraceabilityPage: Failed to load run', error);
+        setLoadError(error instanceof Error ? error.message : 'Unknown error');
+      })
+      .finally(() => setIsLoading(false));
+  }, [runId]);
+
+  const matrix = useMemo(() => {
+    if (!run) return null;
+    const result = buildRunResult({
+      tasks: getRunTasks(run),
+      logFile: run.fileName,
+      completedAt: run.completedAt,
+      startedAt: run.startedAt,
+      runId: run.id,
+      provider: run.provider,
+      model: run.model,
+      logHash: run.logHash,
+      testCaseHash: run.testCaseHash
+    });
+    return buildTraceabilityMatrix(result, run.epsLogContent);
+  }, [run]);
+
+  const handleExport = () => {
+    downloadTextFile(buildTraceabilityCsv(matrix), `eps_traceability_${matrix.testCaseId || matrix.logFile}_${Date.now()}.csv`, 'text/csv');
+    console.log('TraceabilityPage: Exported traceability matrix', { runId, stepCount: matrix.steps.length });
+    toast({
+      title: 'Matrix Exported',
+      description: 'Traceability matrix saved as CSV.',
+    });
+  };
+
+  const selectStep = (key: string) => setSelectedStep(current => (current === key ? null : key));
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <Button variant="ghost" asChild className="gap-2">
+          <Link to={`/history/${runId}`}>
+            <ArrowLeft className="w-4 h-4" />
+            Back to run
+          </Link>
+        </Button>
+
+        {isLoading && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading run...
+          </div>
+        )}
+        {loadError && <p className="text-sm text-destructive">{loadError}</p>}
+
+        {matrix && (
+          <>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <GitCompareArrows className="w-5 h-5 text-primary" />
+                  Traceability: {matrix.testCaseId || 'Test case'}{matrix.testCaseTitle ? ` - ${matrix.testCaseTitle}` : ''}
+                </CardTitle>
+                <Button variant="outline" size="sm" onClick={handleExport} className="gap-2">
+                  <Download className="w-4 h-4" />
+                  Export matrix (CSV)
+                </Button>
+              </CardHeader>
+              <CardContent className="text-sm text-muted-foreground">
+                {matrix.steps.length} step(s) traced to {matrix.records.length} log record(s) in {matrix.logFile}. Select a step to highlight its evidence.
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-2 gap-6">
+              {/* Test case steps */}
+              <Card className="self-start">
+                <CardHeader>
+                  <CardTitle className="text-sm">Test case steps</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {matrix.steps.map(step => (
+                    <div
+                      key={step.key}
+                      id={`trace-${step.key}`}
+                      onClick={() => selectStep(step.key)}
+                      className={`rounded-lg border p-3 space-y-2 cursor-pointer ${selectedStep === step.key ? 'border-primary bg-primary/5' : 'hover:bg-muted/30'}`}
+                    >
+                      <div className="flex items-center gap-2">
+                        <Badge variant="secondary" className="text-xs">Step {step.stepNo ?? '-'}</Badge>
+                        <Badge variant="outline" className={`text-xs ${RELATION_STYLES[step.relation]}`}>
+                          {step.verdict} · {TRACE_RELATION_LABELS[step.relation]}
+                        </Badge>
+                        {step.source && <Badge variant="secondary" className="text-xs">{VERDICT_SOURCE_LABELS[step.source]}</Badge>}
+                      </div>
+                      <p className="text-sm font-medium">{step.action}</p>
+                      {step.expectedResult && <p className="text-xs text-muted-foreground">Expected: {step.expectedResult}</p>}
+                      {step.reasoning && <p className="text-xs text-foreground/80 whitespace-pre-wrap line-clamp-4">{step.reasoning}</p>}
+                      <div className="flex flex-wrap items-center gap-1">
+                        {step.lineNumbers.length > 0 ? step.lineNumbers.map(lineNumber => (
+                          <Button
+                            key={lineNumber}
+                            variant="outline"
+                            size="sm"
+                            className="h-6 px-2 text-xs font-mono"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setSelectedStep(step.key);
+                              scrollToAnchor(`trace-line-${lineNumber}`);
+                            }}
+                          >
+                            L{lineNumber} →
+                          </Button>
+                        )) : <span className="text-xs text-muted-foreground italic">No evidence found in the log</span>}
+                      </div>
+                      {step.missingCitations.length > 0 && (
+                        <p className="text-xs text-warning">Not found in log: {step.missingCitations.join('; ')}</p>
+                      )}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+
+              {/* Log records */}
+              <Card className="self-start">
+                <CardHeader>
+                  <CardTitle className="text-sm">Log evidence</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {matrix.records.length === 0 && <p className="text-xs text-muted-foreground">No cited log records were found in the log.</p>}
+                  {matrix.records.map(record => {
+                    const isLinked = selectedStep !== null && record.stepKeys.includes(selectedStep);
+                    return (
+                      <div
+                        key={record.lineNumber}
+                        id={`trace-line-${record.lineNumber}`}
+                        className={`rounded-lg border p-2 space-y-1 ${isLinked ? 'border-primary bg-primary/5' : selectedStep ? 'opacity-50' : ''}`}
+                      >
+                        <div className="flex flex-wrap items-center gap-2 text-xs">
+                          <span className="font-mono text-muted-foreground">
+                            L{record.lineNumber}{record.endLineNumber > record.lineNumber ? `-${record.endLineNumber}` : ''}
+                          </span>
+                          {record.timestamp && <span className="text-muted-foreground">{record.timestamp}</span>}
+                          {record.level !== 'UNKNOWN' && <Badge variant="outline" className="text-xs">{record.level}</Badge>}
+                          {record.service && <Badge variant="secondary" className="text-xs">{record.service}</Badge>}
+                          {record.messageType && <Badge variant="secondary" className="text-xs font-mono">{record.messageType}</Badge>}
+                          <span className="flex-1" />
+                          {record.stepKeys.map(key => {
+                            const step = matrix.steps.find(s => s.key === key);
+                            return (
+                              <Button
+                                key={key}
+                                variant="outline"
+                                size="sm"
+                                className={`h-6 px-2 text-xs ${RELATION_STYLES[step.relation]}`}
+                                onClick={() => {
+                                  setSelectedStep(key);
+                                  scrollToAnchor(`trace-${key}`);
+                                }}
+                              >
+                                ← Step {step.stepNo ?? '-'}
+                              </Button>
+                            );
+                          })}
+                        </div>
+                        <pre className="text-xs whitespace-pre-wrap break-all">{record.text}</pre>
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TraceabilityPage;
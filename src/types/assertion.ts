@@ -0,0 +1,37 @@
+/**
+ * Deterministic step assertions evaluated against parsed log records
+ * Written in the assertion DSL parsed by src/lib/assertions.ts
+ */
+
+// Where a step's verdict came from: assertions checked against the log, or the model
+export type VerdictSource = 'rule' | 'model';
+
+export type AssertionKind = 'exists' | 'equals' | 'matches' | 'before' | 'within';
+
+// Which log records an assertion is about, e.g. `0210`, `pacs.002`, `*` or `0420[service=switch]`
+export interface RecordSelector {
+  text: string; // As written
+  messageType?: string; // Prefix of the record's message type (case-insensitive)
+  filters: { field: string; value: string }[]; // Field values the record must have
+}
+
+export interface StepAssertion {
+  text: string; // As written
+  kind: AssertionKind;
+  selector: RecordSelector;
+  field?: string; // exists / equals / matches on a field rather than the record itself
+  value?: string; // equals
+  pattern?: RegExp; // matches
+  other?: RecordSelector; // before: the record that must come later; within: the record timed from
+  withinMs?: number;
+}
+
+// INCONCLUSIVE when the log lacks what the check needs, e.g. timestamps for `within`
+export type AssertionOutcome = 'PASS' | 'FAIL' | 'INCONCLUSIVE';
+
+export interface AssertionResult {
+  text: string;
+  outcome: AssertionOutcome;
+  detail: string; // What was found, e.g. "field39 was 05 (line 12)"
+  lineNumbers: number[]; // Records the outcome is based on
+}
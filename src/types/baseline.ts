@@ -0,0 +1,41 @@
+/**
+ * Comparison of a validation run against the baseline run of the same test case
+ * Produced by src/lib/runDiff.ts
+ */
+import { StepVerdict } from './export';
+import { RunVerdict } from './history';
+import { PromptTemplateRef } from './promptTemplate';
+
+// regressed: no longer passes, or newly fails; fixed: passes where the baseline did not
+export type StepChange = 'unchanged' | 'regressed' | 'fixed' | 'changed' | 'added' | 'removed';
+
+// Whole run: regressed if any step regressed, improved if steps were only fixed
+export type BaselineStatus = 'unchanged' | 'regressed' | 'improved' | 'changed';
+
+export interface StepDiff {
+  key: string; // Step number, or the description for runs without numbered steps
+  stepNo?: number;
+  description: string;
+  change: StepChange;
+  baselineVerdict?: StepVerdict; // Unset for added steps
+  verdict?: StepVerdict; // Unset for removed steps
+  newEvidence: string[]; // Evidence records only cited in this run, timestamps and long numbers masked
+  missingEvidence: string[]; // Evidence records only cited in the baseline
+  baselineOffsetMs?: number; // Time from the run's first evidence record to this step's
+  offsetMs?: number;
+}
+
+export interface RunDiff {
+  baselineRunId?: string;
+  baselineStartedAt?: string; // ISO 8601
+  baselineVerdict: RunVerdict;
+  verdict: RunVerdict;
+  status: BaselineStatus;
+  steps: StepDiff[];
+  changedSteps: number; // Steps whose verdict changed, or that were added or removed
+  evidenceChanges: number; // Steps whose evidence differs, whatever their verdict
+  baselineSpanMs?: number; // First to last timestamped evidence record
+  spanMs?: number;
+  baselinePromptTemplate?: PromptTemplateRef; // Prompt template versions, to tell prompt changes from log changes
+  promptTemplate?: PromptTemplateRef;
+}
@@ -0,0 +1,64 @@
+/**
+ * Interfaces for batch validation of a test suite against a folder of EPS logs
+ */
+import { Task } from './chat';
+import { RunVerdict } from './history';
+import { RedactionSummary } from './log';
+import { TestCase, TestCaseIssue } from './testCase';
+
+// A test case taken from a suite file
+export interface SuiteTestCase {
+  key: string; // Test case ID, or "#<position>" when the test case has none
+  testCase: TestCase;
+  content: string; // The test case on its own, as sent to the model
+}
+
+export interface TestSuiteParseResult {
+  testCases: SuiteTestCase[];
+  issues: TestCaseIssue[]; // Paths are prefixed with "testCases.<index>."
+}
+
+// An uploaded log file, redacted at read time
+export interface BatchLogFile {
+  name: string;
+  content: string;
+  redaction?: RedactionSummary;
+}
+
+// How test cases are paired with log files
+export type BatchMappingMode = 'filename' | 'table' | 'all';
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'error' | 'cancelled';
+
+// One test case validated against one log file
+export interface BatchItem {
+  id: string;
+  logFile: BatchLogFile;
+  suiteTestCase: SuiteTestCase;
+  status: BatchItemStatus;
+  tasks: Task[];
+  verdict?: RunVerdict;
+  error?: string; // Set when a step could not be validated (e.g. the model was unreachable)
+  attempts: number;
+  startedAt?: Date;
+  completedAt?: Date;
+  runId?: string; // Run saved to history for this item
+}
+
+export interface BatchMapping {
+  items: BatchItem[];
+  unmappedTestCases: string[]; // Suite keys with no log file
+  unmappedLogs: string[]; // Log files no test case was mapped to
+}
+
+// Suite-level totals
+export interface BatchSummary {
+  total: number;
+  passed: number;
+  failed: number;
+  errors: number;
+  incomplete: number; // Cancelled, stopped, unverified or without a readable verdict
+  pending: number; // Queued or running
+  passRate: number; // Passed / finished items, 0-100
+  durationMs: number;
+}
@@ -2,6 +2,12 @@
  * Core interfaces for the EPS Agent Chat System
  * All interfaces with detailed TypeScript definitions
  */
+import { AssertionResult, VerdictSource } from './assertion';
+import { TransactionSelection } from './correlation';
+import { ParsedLog, RedactionSummary } from './log';
+import { PromptTemplateRef } from './promptTemplate';
+import { TestCase, TestStep } from './testCase';
+import { StepVotes, VotingSummary } from './voting';
 
 // Interface for file confirmation component
 export interface EpsConfirmationData {
@@ -9,6 +15,10 @@ export interface EpsConfirmationData {
   epsLogContent: string;
   testCaseContent: string;
   tasksToBeDone?: string[]; // Optional, defaults to ['Validate test case against EPS log']
+  testCase?: TestCase; // Structured test case; one task is created per step
+  parsedLog?: ParsedLog; // Structured records from the deterministic log parser
+  redaction?: RedactionSummary; // Sensitive data masked when the log was read
+  transaction?: TransactionSelection; // Set when epsLogContent holds only this transaction's records
   timestamp: Date;
 }
 
@@ -24,6 +34,8 @@ export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  isStreaming?: boolean; // True while tokens are still arriving
+  isIncomplete?: boolean; // True when generation was stopped before the model finished
 }
 
 // Task interface with completion tracking and EPS validation data
@@ -33,14 +45,73 @@ export interface Task {
   completed: boolean;
   justification?: string;
   completedAt?: Date;
-  epsLogContent?: string;
+  incomplete?: boolean; // True when validation was stopped and the justification is partial
+  validationResult?: ValidationResult; // Parsed structured verdict, when the model returned valid JSON
+  rawResponse?: string; // Unprocessed model output
+  prompt?: string; // Validation prompt sent to the model
+  chunksConsulted?: LogChunkReport[]; // Set when the log was validated in chunks
+  promptTemplate?: PromptTemplateRef; // Template version pinned when the task was created; cleared for steps checked by rules
+  fewShotExampleIds?: string[]; // Few-shot examples added to the prompt (or chunk prompts); empty for rule-checked steps
+  epsLogContent?: string; // Redacted at file-read time
   testCaseContent?: string;
+  redaction?: RedactionSummary;
+  step?: TestStep; // Set when the task validates a single step of the test case
+}
+
+// Verdict for the whole test case or a single step
+export type Verdict = 'PASS' | 'FAIL';
+
+// Verdict after checking the model's evidence; UNVERIFIED when none of it exists in the log
+export type CheckedVerdict = Verdict | 'UNVERIFIED';
+
+// One excerpt or identifier the model cited, matched back to the log
+export interface CitationCheck {
+  text: string;
+  kind: 'excerpt' | 'identifier';
+  lineNumbers: number[]; // 1-based log lines containing it; empty when hallucinated
+}
+
+// Per-step finding in a structured validation result
+export interface StepValidation {
+  stepNo: number;
+  expectedAction: string;
+  verdict: Verdict;
+  citedLogLines: string[]; // Log excerpts the model cites as evidence
+  reasoning: string;
+  chunkIndexes?: number[]; // Log chunks the evidence came from (chunked validation only)
+  citations?: CitationCheck[]; // Cited excerpts and identifiers checked against the log
+  unverified?: boolean; // True when none of the step's evidence was found in the log
+  assertions?: AssertionResult[]; // Set when the step was checked by assertions rather than the model
+  votes?: StepVotes; // Set when the verdict was decided by self-consistency voting
+}
+
+// Evidence a single log chunk provides for one test case step
+export interface ChunkFinding {
+  stepNo: number;
+  expectedAction: string;
+  verdict: Verdict | 'NO_EVIDENCE';
+  citedLogLines: string[];
+  reasoning: string;
+}
+
+// Summary of one log chunk consulted during chunked validation
+export interface LogChunkReport {
+  index: number;
+  startLine: number;
+  endLine: number;
+  length: number;
+  stepsWithEvidence: number[];
+  error?: string; // Set when the model's findings for this chunk could not be parsed
 }
 
 // Validation result interface for structured model output
 export interface ValidationResult {
-  overallResult: 'PASS' | 'FAIL';
-  reasoningAndEvidence: string;
+  overallResult: Verdict;
+  reasoningAndEvidence: string; // Overall summary of the reasoning
+  steps: StepValidation[];
+  citations?: CitationCheck[]; // Identifiers and quotes in the summary checked against the log
+  source?: VerdictSource; // 'rule' for assertion checks; results from before assertions existed are model-derived
+  voting?: VotingSummary; // Samples the verdicts were voted from
 }
 
 // Application state enum
@@ -0,0 +1,39 @@
+/**
+ * Transactions reconstructed from interleaved EPS log records
+ * Produced by the correlation engine in src/lib/correlation.ts
+ */
+import { LogLevel } from './log';
+
+// Identifiers that link the records of one transaction across hops
+export type CorrelationKey = 'stan' | 'rrn' | 'requestId' | 'endToEndId';
+
+// One log record on a transaction's timeline
+export interface TransactionHop {
+  lineNumber: number; // 1-based first line
+  endLineNumber: number;
+  timestamp?: string; // As written in the log
+  level: LogLevel;
+  service?: string;
+  messageType?: string;
+  message: string;
+  keys: Partial<Record<CorrelationKey, string[]>>; // Identifiers found on this record
+  latencyMs?: number; // Time since the previous hop; unset when either timestamp is missing
+}
+
+export interface Transaction {
+  id: string; // 'TXN-1', 'TXN-2', ... in order of first appearance
+  keys: Partial<Record<CorrelationKey, string[]>>; // Every identifier value linking the hops
+  hops: TransactionHop[]; // In timestamp order; log order for equal or missing timestamps
+  firstLine: number;
+  lastLine: number;
+  durationMs?: number; // First to last timestamped hop
+}
+
+// Transaction a test case was validated against, as stored with the run
+export interface TransactionSelection {
+  id: string;
+  label: string;
+  keys: Partial<Record<CorrelationKey, string[]>>;
+  lineNumbers: number[]; // First lines of the hops in the original log
+  hopCount: number;
+}
@@ -0,0 +1,70 @@
+/**
+ * Versioned result document for exporting validation verdicts to CI and test management tools
+ */
+import { AssertionResult, VerdictSource } from './assertion';
+import { CheckedVerdict, CitationCheck } from './chat';
+import { RunVerdict } from './history';
+import { RedactionSummary } from './log';
+import { PromptTemplateRef } from './promptTemplate';
+
+export type StepVerdict = CheckedVerdict | 'INCOMPLETE' | 'UNKNOWN';
+
+// One validated step (or the whole test case when it had no steps)
+export interface StepResult {
+  stepNo?: number;
+  description: string;
+  verdict: StepVerdict;
+  source?: VerdictSource; // Unset when no structured verdict was produced
+  reasoning: string;
+  evidence: string[]; // Log lines cited as evidence
+  citations?: CitationCheck[]; // Cited excerpts and identifiers matched to log line numbers
+  expected?: {
+    action: string;
+    result?: string;
+    messageType?: string;
+    responseCode?: string;
+    amount?: string;
+    assertions?: string[];
+  };
+  assertions?: AssertionResult[]; // Outcome of each assertion, for rule-derived verdicts
+  confidence?: number; // Share of voting samples agreeing with the verdict (0-1), when voting was on
+  completedAt?: string; // ISO 8601
+  durationMs?: number;
+}
+
+// One test case validated against one log
+export interface RunResult {
+  runId?: string;
+  logFile: string;
+  testCaseFile?: string;
+  testCaseId?: string;
+  testCaseTitle?: string;
+  provider?: string;
+  model?: string;
+  promptTemplate?: PromptTemplateRef; // Prompt template version the model was asked with
+  logHash?: string; // SHA-256 of the redacted log
+  testCaseHash?: string;
+  startedAt?: string;
+  completedAt: string;
+  verdict: RunVerdict;
+  summary: {
+    steps: number;
+    passed: number;
+    failed: number;
+    incomplete: number;
+    unknown: number;
+    unverified: number;
+    ruleDerived: number; // Steps whose verdict came from assertions
+    modelDerived: number;
+  };
+  redaction?: RedactionSummary;
+  error?: string;
+  steps: StepResult[];
+}
+
+export interface ValidationResultDocument {
+  schema: string; // Always RESULT_DOCUMENT_SCHEMA
+  version: number; // Incremented on breaking changes to this shape
+  generatedAt: string;
+  runs: RunResult[];
+}
@@ -0,0 +1,30 @@
+/**
+ * Curated worked examples shown to the model in the validation prompt
+ * Stored and selected by src/lib/fewShotExamples.ts
+ */
+import { Verdict } from './chat';
+
+// Run step an example was promoted from
+export interface FewShotExampleSource {
+  runId: string;
+  stepNo: number;
+  fileName: string;
+}
+
+export interface FewShotExample {
+  id: string;
+  testStep: string; // The test step as written in the test case
+  logExcerpt: string; // Log lines that decide the step; redacted when saved
+  verdict: Verdict; // The reviewed, correct verdict
+  justification: string; // Why the excerpt satisfies or violates the step
+  source?: FewShotExampleSource; // Unset for examples written by hand
+  createdAt: Date;
+}
+
+export type FewShotExampleDraft = Omit<FewShotExample, 'id' | 'createdAt'>;
+
+// An example picked for a prompt, with its similarity to the step being validated (0-1)
+export interface SelectedFewShotExample {
+  example: FewShotExample;
+  score: number;
+}
@@ -0,0 +1,59 @@
+/**
+ * Interfaces for persisted validation runs and chat sessions
+ * Stored in IndexedDB by the history store
+ */
+import { AppState, ChatMessage, CheckedVerdict, Task } from './chat';
+import { TransactionSelection } from './correlation';
+import { RedactionSummary } from './log';
+import { PromptTemplateRef } from './promptTemplate';
+
+// Verdict of a whole run; INCOMPLETE when it was stopped, UNKNOWN when no verdict could be read
+export type RunVerdict = CheckedVerdict | 'INCOMPLETE' | 'UNKNOWN';
+
+// One validation run: inputs, model, per-step prompts, raw responses and parsed verdicts
+export interface ValidationRun {
+  id: string;
+  sessionId?: string; // Chat session the run was started from
+  fileName: string;
+  testCaseId?: string;
+  testCaseTitle?: string;
+  epsLogContent: string; // Redacted at file-read time
+  testCaseContent: string;
+  logHash: string; // SHA-256 of the (redacted) log content
+  testCaseHash: string; // SHA-256 of the test case content
+  provider: string;
+  model: string;
+  promptTemplate?: PromptTemplateRef; // Prompt template version the run was validated with; unset for runs saved before templates
+  tasks: Task[]; // Log and test case content are stored once on the run, not per task
+  verdict: RunVerdict;
+  redaction?: RedactionSummary;
+  transaction?: TransactionSelection; // Transaction the test case was validated against; epsLogContent holds only its records
+  isBaseline?: boolean; // Later runs of the same test case are compared against this one
+  startedAt: Date;
+  completedAt: Date;
+}
+
+// Filters for the history list; empty fields match every run
+export interface RunFilter {
+  verdict?: RunVerdict;
+  fileName?: string; // Case-insensitive substring
+  testCaseId?: string; // Case-insensitive substring
+  from?: Date; // Runs started on or after this time
+  to?: Date; // Runs started before this time
+}
+
+// A named chat session with its own conversation, validation tasks and app state
+export interface ChatSession {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  appState: AppState;
+  tasks: Task[];
+  completedTasksCount: number;
+  currentFile: string;
+  completionTimestamp?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  epsLogContent?: string; // Stored sessions only: the tasks' shared log, kept once instead of per task
+  testCaseContent?: string; // Stored sessions only: the tasks' shared test case
+}
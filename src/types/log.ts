@@ -0,0 +1,118 @@
+/**
+ * Interfaces for structured EPS log data
+ * Produced by the deterministic log parser in src/lib/logParser.ts
+ */
+
+// Normalised severity of a log record
+export type LogLevel = 'TRACE' | 'DEBUG' | 'INFO' | 'WARN' | 'ERROR' | 'FATAL' | 'UNKNOWN';
+
+// One parsed log record (may span several physical lines)
+export interface LogRecord {
+  lineNumber: number; // 1-based first line
+  endLineNumber: number; // 1-based last line (inclusive)
+  format: string; // Id of the LogLineFormat that parsed it
+  raw: string;
+  timestamp?: string; // As written in the log
+  level: LogLevel;
+  service?: string;
+  requestId?: string;
+  messageType?: string; // e.g. ISO 8583 MTI, ISO 20022 message name, event type
+  message: string;
+  fields: Record<string, string>;
+}
+
+// A line no registered format could parse
+export interface UnparsedLine {
+  lineNumber: number;
+  text: string;
+}
+
+// Result of parsing a whole log
+export interface ParsedLog {
+  records: LogRecord[];
+  unparsed: UnparsedLine[];
+  totalLines: number;
+  recordsByFormat: Record<string, number>;
+}
+
+// Fields a line format extracts; the parser adds line numbers and the format id
+export type ParsedRecordFields = Omit<LogRecord, 'lineNumber' | 'endLineNumber' | 'format'>;
+
+// Pluggable log line format
+export interface LogLineFormat {
+  id: string;
+  label: string;
+  /**
+   * Attempts to parse a record starting at `lines[index]`.
+   * @returns The record and the number of lines it consumed, or null if the line is not in this format.
+   */
+  parse(lines: string[], index: number): { record: ParsedRecordFields; consumed: number } | null;
+}
+
+// One decoded ISO 8583 data element
+export interface Iso8583Field {
+  id: number;
+  name: string;
+  value: string;
+  description?: string; // Human-readable meaning (e.g. response code text)
+}
+
+// An ISO 8583 message recognised inside an EPS log
+export interface DecodedIso8583Message {
+  lineNumber: number; // 1-based first line
+  endLineNumber: number; // 1-based last line (inclusive)
+  source: 'ascii' | 'hex' | 'fields'; // Raw ASCII message, hex byte dump, or bracketed field dump
+  mti: string;
+  mtiDescription: string;
+  primaryBitmap?: string;
+  secondaryBitmap?: string;
+  presentFields: number[];
+  fields: Iso8583Field[];
+  responseCode?: string;
+  responseDescription?: string;
+  errors: string[]; // Decoding problems (truncated fields, unknown elements)
+}
+
+// One transaction (or status/entry) inside an ISO 20022 message
+export interface Iso20022Transaction {
+  endToEndId?: string;
+  instructionId?: string;
+  transactionId?: string;
+  uetr?: string;
+  originalEndToEndId?: string; // pacs.002 / pacs.004 references to the original payment
+  amount?: string;
+  currency?: string;
+  creditDebitIndicator?: string; // camt.054 CRDT / DBIT
+  debtorName?: string;
+  debtorAgent?: string; // BIC or member ID
+  creditorName?: string;
+  creditorAgent?: string;
+  status?: string; // e.g. ACSC, RJCT, BOOK
+  statusReasonCode?: string;
+  statusReasonInfo?: string;
+}
+
+// An ISO 20022 document recognised in (or uploaded as) an EPS log
+export interface Iso20022Message {
+  lineNumber: number; // 1-based first line
+  endLineNumber: number; // 1-based last line (inclusive)
+  messageType: string; // Full identifier, e.g. pacs.008.001.08
+  messageFamily: string; // e.g. pacs.008
+  description: string;
+  messageId?: string;
+  creationDateTime?: string;
+  groupStatus?: string;
+  transactions: Iso20022Transaction[];
+  errors: string[];
+}
+
+// Categories of sensitive data masked by the redaction engine
+export type RedactionKind = 'pan' | 'track' | 'pinBlock' | 'cvv' | 'custom';
+
+// What was masked when a log was redacted
+export interface RedactionSummary {
+  total: number;
+  byKind: Record<RedactionKind, number>;
+  lineNumbers: number[]; // 1-based lines containing at least one redaction
+  invalidPatterns: string[]; // Custom patterns skipped because they are not valid regular expressions
+}
@@ -0,0 +1,33 @@
+/**
+ * Named, versioned templates for the validation prompt
+ * Stored and rendered by src/lib/promptTemplates.ts
+ */
+
+// The editable sections of a validation prompt; each may use {{placeholders}}
+export interface PromptSections {
+  systemPrompt: string; // Who the model is
+  instructions: string; // What to validate; must include {{log}} and {{testCase}}
+  outputFormat: string; // How to answer; {{formatInstructions}} is the format the verdict parser expects
+  examples: string; // Worked examples; left out of the prompt when empty
+}
+
+// Saved versions are never changed, so a run's prompt can always be traced back to its version
+export interface PromptTemplateVersion extends PromptSections {
+  version: number; // 1, 2, ... per template
+  note?: string; // What changed
+  createdAt: Date;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  builtIn?: boolean; // The default template, which cannot be deleted
+  versions: PromptTemplateVersion[]; // Oldest first
+}
+
+// Template version a run was validated with, as stored with the run
+export interface PromptTemplateRef {
+  id: string;
+  name: string;
+  version: number;
+}
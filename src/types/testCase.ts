@@ -0,0 +1,39 @@
+/**
+ * Structured test case model for EPS validation
+ * Parsed from JSON, XML or numbered plain text and editable in the test case form
+ */
+
+// One ordered step of a test case
+export interface TestStep {
+  stepNo: number;
+  action: string;
+  expectedResult?: string;
+  expectedMessageType?: string; // e.g. 0210 or pacs.002
+  expectedResponseCode?: string; // ISO 8583 field 39 or ISO 20022 status/reason code
+  expectedAmount?: string;
+  assertions?: string[]; // Assertion DSL lines checked against the log instead of asking the model
+  raw: string; // Step as written in the test case
+}
+
+export interface TestCase {
+  testCaseId?: string;
+  title?: string;
+  preconditions: string[];
+  steps: TestStep[];
+}
+
+export type TestCaseFormat = 'json' | 'xml' | 'text';
+
+// A problem found while parsing or validating a test case
+export interface TestCaseIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  path?: string; // Field the issue belongs to, e.g. "steps.2.action" (step index, not step number)
+  line?: number; // 1-based line in the pasted text, when known
+}
+
+export interface TestCaseParseResult {
+  testCase: TestCase | null; // Null when the content could not be parsed at all
+  format: TestCaseFormat;
+  issues: TestCaseIssue[];
+}
@@ -0,0 +1,44 @@
+/**
+ * Traceability between test case steps and the log records cited as their evidence
+ */
+import { VerdictSource } from './assertion';
+import { StepVerdict } from './export';
+import { LogLevel } from './log';
+
+// How the cited records relate to the step: they show it happened, show it went wrong, or could not be checked
+export type TraceRelation = 'satisfies' | 'contradicts' | 'unverified' | 'undetermined';
+
+// A log record cited as evidence, with the parsed fields auditors need
+export interface TraceRecord {
+  lineNumber: number; // 1-based first line
+  endLineNumber: number;
+  text: string;
+  timestamp?: string;
+  level: LogLevel;
+  service?: string;
+  messageType?: string;
+  stepKeys: string[]; // Steps citing this record
+}
+
+export interface TraceStep {
+  key: string; // Unique within the matrix
+  stepNo?: number;
+  action: string;
+  expectedResult?: string;
+  verdict: StepVerdict;
+  source?: VerdictSource;
+  relation: TraceRelation;
+  reasoning: string;
+  lineNumbers: number[]; // First lines of the records cited as evidence
+  missingCitations: string[]; // Cited text not found in the log
+}
+
+export interface TraceabilityMatrix {
+  logFile: string;
+  testCaseId?: string;
+  testCaseTitle?: string;
+  model?: string;
+  logHash?: string;
+  steps: TraceStep[];
+  records: TraceRecord[]; // Sorted by line number
+}
@@ -0,0 +1,29 @@
+/**
+ * Self-consistency voting: one validation sampled several times, or by several models,
+ * with per-step verdicts decided by majority
+ * Aggregated by src/lib/voting.ts
+ */
+import { CheckedVerdict } from './chat';
+
+// One model call (or chunked run) that took part in the vote
+export interface VotingVoter {
+  model: string;
+  seed?: number; // Unset for unseeded (random) sampling
+}
+
+export interface VotingSample extends VotingVoter {
+  verdict?: CheckedVerdict; // Unset when the sample produced no usable verdict
+  error?: string;
+}
+
+// How the samples voted on one step
+export interface StepVotes {
+  votes: Partial<Record<CheckedVerdict, number>>;
+  samples: number; // Samples with a usable verdict; those that skipped the step count against the majority
+  confidence: number; // Share of samples agreeing with the chosen verdict, 0-1
+}
+
+export interface VotingSummary {
+  samples: VotingSample[];
+  temperature: number;
+}
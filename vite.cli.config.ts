@@ -0,0 +1,23 @@
+import { defineConfig } from "vite";
+import path from "path";
+
+// Node build of the headless validation CLI (src/cli/validate.ts)
+export default defineConfig({
+  build: {
+    ssr: "src/cli/validate.ts",
+    outDir: "dist-cli",
+    target: "node20",
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: "eps-validate.js",
+        banner: "#!/usr/bin/env node",
+      },
+    },
+  },
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+});